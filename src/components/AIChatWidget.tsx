@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Send, Bot, X } from 'lucide-react';
 import { useWebRTC } from '../hooks/useWebRTC';
+import { getProviderAdapter, getStoredApiKey, resolveProvider } from '../services/aiProviders';
 
 interface Message {
   id: string;
@@ -63,22 +64,31 @@ export function AIChatWidget({ isOpen, onClose, roomId, userId, selectedProvider
       // Send user message
       await sendMessage(inputMessage);
 
-      // TODO: Send to AI provider and handle response
-      // For now, just simulate an AI response
-      setTimeout(() => {
-        const aiMessage: Message = {
-          id: (Date.now() + 1).toString(),
-          userId: 'ai',
-          content: `This is a simulated response from ${selectedProvider}. In the next phase, we'll integrate with the actual AI provider.`,
-          timestamp: new Date().toISOString(),
-          provider: selectedProvider,
-          isAI: true
-        };
-        setMessages(prev => [...prev, aiMessage]);
-        setIsLoading(false);
-      }, 1000);
+      const providerId = resolveProvider(selectedProvider);
+      if (!providerId) {
+        throw new Error(`No API key configured for ${selectedProvider}`);
+      }
+
+      const history = [...messages, userMessage].map(m => ({
+        role: m.isAI ? 'assistant' as const : 'user' as const,
+        content: m.content
+      }));
+      const result = await getProviderAdapter(providerId).complete(getStoredApiKey(providerId), {
+        messages: history
+      });
+
+      const aiMessage: Message = {
+        id: (Date.now() + 1).toString(),
+        userId: 'ai',
+        content: result.content,
+        timestamp: new Date().toISOString(),
+        provider: result.provider,
+        isAI: true
+      };
+      setMessages(prev => [...prev, aiMessage]);
     } catch (error) {
       console.error('Failed to send message:', error);
+    } finally {
       setIsLoading(false);
     }
   };
@@ -1,22 +1,40 @@
 import React, { useState, useEffect } from 'react';
-import { X, Bot, Key, ExternalLink, CheckCircle } from 'lucide-react';
-
-interface AIProvider {
-  id: string;
-  name: string;
-  description: string;
-  website: string;
-  hasKey: boolean;
-}
+import { X, Bot, Key, ExternalLink, CheckCircle, Wallet, Trash2, Sparkles } from 'lucide-react';
+import type { AIBudgetSettings, AIKeySummary, AIProvider, AIProviderId, AIUsageSummary } from '../types/ai';
+import { AIUsageService, formatUsd } from '../services/aiUsageService';
+import { apiService } from '../services/api';
+import {
+  AIPersonaService,
+  AI_MAX_TOKENS_RANGE,
+  AI_SYSTEM_PROMPT_MAX_LENGTH,
+  AI_TEMPERATURE_RANGE
+} from '../services/aiPersonaService';
+import { KEYED_PROVIDERS, clearStoredApiKey, getLocalEndpoint, getStoredApiKey } from '../services/aiProviders';
+import { LocalEndpointSettings } from './LocalEndpointSettings';
+import { ParticipantService, type Participant } from '../services/participantService';
 
 interface AIProviderModalProps {
   isOpen: boolean;
   onClose: () => void;
   roomId?: string;
   userId?: string;
+  isHost?: boolean;
 }
 
-export function AIProviderModal({ isOpen, onClose, roomId, userId }: AIProviderModalProps) {
+// Empty input means no limit
+const parseLimit = (value: string): number | null => {
+  const amount = parseFloat(value);
+  return value.trim() === '' || isNaN(amount) || amount < 0 ? null : amount;
+};
+
+const limitToInput = (limit: number | null | undefined) => (limit === null || limit === undefined ? '' : String(limit));
+
+// Keys saved in this browser before the room vault existed
+const countLocalKeys = () => KEYED_PROVIDERS.filter(id => !!getStoredApiKey(id)).length;
+
+const formatKeyDate = (iso: string | null) => (iso ? new Date(iso).toLocaleDateString() : 'never');
+
+export function AIProviderModal({ isOpen, onClose, roomId, userId, isHost = false }: AIProviderModalProps) {
   const [providers, setProviders] = useState<AIProvider[]>([
     {
       id: 'openai',
@@ -38,57 +56,230 @@ export function AIProviderModal({ isOpen, onClose, roomId, userId }: AIProviderM
       description: 'Google\'s Gemini model for versatile AI interactions',
       website: 'https://makersuite.google.com/app/apikey',
       hasKey: false
-    }
+    },
+    {
+      id: 'local',
+      name: 'Local Model',
+      description: 'Any OpenAI-compatible server, such as llama.cpp or Ollama, running where you are',
+      website: '',
+      hasKey: false
+    },
+    // Answers with canned text; accepts any key starting with "mock-"
+    ...(import.meta.env.DEV ? [{
+      id: 'mock',
+      name: 'Mock',
+      description: 'Canned answers for trying the key flow without a real provider',
+      website: '',
+      hasKey: false
+    }] : [])
   ]);
 
   const [selectedProvider, setSelectedProvider] = useState<AIProvider | null>(null);
   const [apiKey, setApiKey] = useState('');
   const [isSaving, setIsSaving] = useState(false);
+  const [vaultKeys, setVaultKeys] = useState<Partial<Record<AIProviderId, AIKeySummary>>>({});
+  const [localKeyCount, setLocalKeyCount] = useState(0);
+  const [keyError, setKeyError] = useState<string | null>(null);
+  const [showBudget, setShowBudget] = useState(false);
+  const [usage, setUsage] = useState<AIUsageSummary | null>(null);
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [roomLimit, setRoomLimit] = useState('');
+  const [participantLimit, setParticipantLimit] = useState('');
+  const [overrides, setOverrides] = useState<Record<string, string>>({});
+  const [budgetError, setBudgetError] = useState<string | null>(null);
+  const [showPersona, setShowPersona] = useState(false);
+  const [personaName, setPersonaName] = useState('');
+  const [systemPrompt, setSystemPrompt] = useState('');
+  const [personaProvider, setPersonaProvider] = useState<AIProviderId | ''>('');
+  const [personaModel, setPersonaModel] = useState('');
+  const [temperature, setTemperature] = useState('');
+  const [maxTokens, setMaxTokens] = useState('');
+  const [personaError, setPersonaError] = useState<string | null>(null);
+
+  // Hosts can tell the assistant what the room is about
+  useEffect(() => {
+    if (!isOpen || !isHost || !roomId) return;
 
-  // Load existing API keys from localStorage
+    setShowPersona(false);
+    setPersonaError(null);
+    AIPersonaService.getPersona(roomId)
+      .then(persona => {
+        setPersonaName(persona.name);
+        setSystemPrompt(persona.systemPrompt);
+        setPersonaProvider(persona.provider ?? '');
+        setPersonaModel(persona.model ?? '');
+        setTemperature(limitToInput(persona.temperature));
+        setMaxTokens(limitToInput(persona.maxTokens));
+      })
+      .catch(error => {
+        console.error('Failed to load AI persona:', error);
+        setPersonaError('Failed to load the room persona');
+      });
+  }, [isOpen, isHost, roomId]);
+
+  // Hosts see what the room has spent and can cap it
   useEffect(() => {
-    const loadKeys = () => {
-      const updatedProviders = providers.map(provider => ({
-        ...provider,
-        hasKey: !!localStorage.getItem(`ai_key_${provider.id}`)
-      }));
-      setProviders(updatedProviders);
+    if (!isOpen || !isHost || !roomId) return;
+
+    const loadBudget = async () => {
+      try {
+        const [budget, summary, roomParticipants] = await Promise.all([
+          AIUsageService.getBudget(roomId),
+          AIUsageService.getUsageSummary(roomId),
+          ParticipantService.getRoomParticipants(roomId)
+        ]);
+        setRoomLimit(limitToInput(budget.roomLimitUsd));
+        setParticipantLimit(limitToInput(budget.participantLimitUsd));
+        setOverrides(Object.fromEntries(
+          Object.entries(budget.participantOverrides).map(([id, limit]) => [id, String(limit)])
+        ));
+        setUsage(summary);
+        setParticipants(roomParticipants);
+      } catch (error) {
+        console.error('Failed to load AI budget:', error);
+        setBudgetError('Failed to load AI usage');
+      }
     };
 
-    if (isOpen) {
-      loadKeys();
-    }
-  }, [isOpen]);
+    loadBudget();
+  }, [isOpen, isHost, roomId]);
+
+  // Load the room's vault keys; only masked summaries ever reach the browser
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setShowBudget(false);
+    setKeyError(null);
+    setLocalKeyCount(countLocalKeys());
+    if (!roomId || !userId) return;
+
+    const loadKeys = async () => {
+      try {
+        const keys = await apiService.listAIKeys(roomId, userId);
+        setVaultKeys(Object.fromEntries(keys.map(key => [key.provider, key])));
+      } catch (error) {
+        console.error('Failed to load API keys:', error);
+        setKeyError('Failed to load API keys');
+      }
+    };
+
+    loadKeys();
+  }, [isOpen, roomId, userId]);
+
+  // The local endpoint is set up per browser rather than in the vault
+  const refreshProviders = () => {
+    setProviders(prev => prev.map(provider => ({
+      ...provider,
+      hasKey: provider.id === 'local' ? !!getLocalEndpoint() : !!vaultKeys[provider.id as AIProviderId]
+    })));
+  };
+
+  useEffect(refreshProviders, [vaultKeys, isOpen]);
 
   const handleProviderSelect = (provider: AIProvider) => {
     setSelectedProvider(provider);
-    // Load existing key if available
-    const existingKey = localStorage.getItem(`ai_key_${provider.id}`);
-    if (existingKey) {
-      setApiKey(existingKey);
-    } else {
+    setApiKey('');
+    setKeyError(null);
+  };
+
+  // Saving over an existing key rotates it
+  const handleSaveKey = async () => {
+    if (!selectedProvider || !apiKey.trim() || !roomId || !userId) return;
+
+    const providerId = selectedProvider.id as AIProviderId;
+    setIsSaving(true);
+    setKeyError(null);
+    try {
+      const saved = await apiService.saveAIKey(roomId, userId, providerId, apiKey.trim());
+      setVaultKeys(prev => ({ ...prev, [providerId]: saved }));
+      // The vault copy replaces any key kept in this browser
+      clearStoredApiKey(providerId);
+      setLocalKeyCount(countLocalKeys());
       setApiKey('');
+      setSelectedProvider(null);
+    } catch (error) {
+      console.error('Failed to save API key:', error);
+      setKeyError(error instanceof Error ? error.message : 'Failed to save API key');
+    } finally {
+      setIsSaving(false);
     }
   };
 
-  const handleSaveKey = async () => {
-    if (!selectedProvider || !apiKey.trim()) return;
+  const handleRevokeKey = async () => {
+    if (!selectedProvider || !roomId || !userId) return;
 
+    const providerId = selectedProvider.id as AIProviderId;
     setIsSaving(true);
+    setKeyError(null);
     try {
-      // Store the key in localStorage
-      localStorage.setItem(`ai_key_${selectedProvider.id}`, apiKey.trim());
-      
-      // Update provider state
-      setProviders(prev => prev.map(p => 
-        p.id === selectedProvider.id ? { ...p, hasKey: true } : p
-      ));
-
-      // Close the modal after successful save
+      await apiService.revokeAIKey(roomId, userId, providerId);
+      clearStoredApiKey(providerId);
+      setLocalKeyCount(countLocalKeys());
+      setVaultKeys(prev => {
+        const next = { ...prev };
+        delete next[providerId];
+        return next;
+      });
+      setSelectedProvider(null);
+    } catch (error) {
+      console.error('Failed to revoke API key:', error);
+      setKeyError(error instanceof Error ? error.message : 'Failed to revoke API key');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClearLocalKeys = () => {
+    KEYED_PROVIDERS.forEach(clearStoredApiKey);
+    setLocalKeyCount(0);
+  };
+
+  const selectedKey = selectedProvider ? vaultKeys[selectedProvider.id as AIProviderId] : undefined;
+
+  const handleSaveBudget = async () => {
+    if (!roomId) return;
+
+    const participantOverrides: AIBudgetSettings['participantOverrides'] = {};
+    Object.entries(overrides).forEach(([id, value]) => {
+      const limit = parseLimit(value);
+      if (limit !== null) participantOverrides[id] = limit;
+    });
+
+    setIsSaving(true);
+    setBudgetError(null);
+    try {
+      await AIUsageService.setBudget(roomId, {
+        roomLimitUsd: parseLimit(roomLimit),
+        participantLimitUsd: parseLimit(participantLimit),
+        participantOverrides
+      });
       onClose();
     } catch (error) {
-      console.error('Failed to save API key:', error);
-      // TODO: Show error toast
+      console.error('Failed to save AI budget:', error);
+      setBudgetError('Failed to save budget');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSavePersona = async () => {
+    if (!roomId) return;
+
+    setIsSaving(true);
+    setPersonaError(null);
+    try {
+      await AIPersonaService.setPersona(roomId, {
+        name: personaName,
+        systemPrompt,
+        provider: personaProvider || null,
+        model: personaModel || null,
+        temperature: parseLimit(temperature),
+        maxTokens: parseLimit(maxTokens)
+      });
+      setShowPersona(false);
+    } catch (error) {
+      console.error('Failed to save AI persona:', error);
+      setPersonaError('Failed to save the room persona');
     } finally {
       setIsSaving(false);
     }
@@ -115,17 +306,215 @@ export function AIProviderModal({ isOpen, onClose, roomId, userId }: AIProviderM
 
         {/* Content */}
         <div className="p-4">
-          {!selectedProvider ? (
+          {showBudget ? (
+            // Budget and usage
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium text-gray-900">AI Budget</h4>
+                <span className="text-sm text-gray-600">
+                  Spent {formatUsd(usage?.totalCostUsd ?? 0)}
+                </span>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <label className="text-sm text-gray-700">
+                  Room limit (USD)
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={roomLimit}
+                    onChange={(e) => setRoomLimit(e.target.value)}
+                    placeholder="No limit"
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </label>
+                <label className="text-sm text-gray-700">
+                  Per participant (USD)
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={participantLimit}
+                    onChange={(e) => setParticipantLimit(e.target.value)}
+                    placeholder="No limit"
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </label>
+              </div>
+
+              <div className="space-y-2 max-h-56 overflow-y-auto">
+                {participants.map(participant => {
+                  const spent = usage?.byUser[participant.userId];
+                  return (
+                    <div key={participant.userId} className="flex items-center gap-3">
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-medium text-gray-900 truncate">
+                          {participant.displayName}{participant.userId === userId ? ' (you)' : ''}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {formatUsd(spent?.costUsd ?? 0)} · {spent?.requests ?? 0} requests · {((spent?.inputTokens ?? 0) + (spent?.outputTokens ?? 0)).toLocaleString()} tokens
+                        </div>
+                      </div>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={overrides[participant.userId] ?? ''}
+                        onChange={(e) => setOverrides(prev => ({ ...prev, [participant.userId]: e.target.value }))}
+                        placeholder="Default"
+                        title="Budget for this participant (USD)"
+                        className="w-24 px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+
+              <p className="text-xs text-gray-500">
+                Costs are estimated from list prices. Requests are refused once a limit is reached; leave a field empty for no limit.
+              </p>
+              {budgetError && (
+                <p className="text-sm text-red-600">{budgetError}</p>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setShowBudget(false)}
+                  className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
+                >
+                  Back
+                </button>
+                <button
+                  onClick={handleSaveBudget}
+                  disabled={isSaving}
+                  className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSaving ? 'Saving...' : 'Save Budget'}
+                </button>
+              </div>
+            </div>
+          ) : showPersona ? (
+            // Room persona
+            <div className="space-y-4">
+              <h4 className="font-medium text-gray-900">Room Persona</h4>
+
+              <label className="block text-sm text-gray-700">
+                Name
+                <input
+                  type="text"
+                  value={personaName}
+                  onChange={(e) => setPersonaName(e.target.value)}
+                  placeholder="AI assistant"
+                  maxLength={40}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </label>
+
+              <label className="block text-sm text-gray-700">
+                System prompt
+                <textarea
+                  value={systemPrompt}
+                  onChange={(e) => setSystemPrompt(e.target.value)}
+                  placeholder="What this room is about and how the assistant should answer"
+                  maxLength={AI_SYSTEM_PROMPT_MAX_LENGTH}
+                  rows={5}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-y"
+                />
+              </label>
+
+              <div className="grid grid-cols-2 gap-3">
+                <label className="text-sm text-gray-700">
+                  Default provider
+                  <select
+                    value={personaProvider}
+                    onChange={(e) => setPersonaProvider(e.target.value as AIProviderId | '')}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Any with a key</option>
+                    {providers.map(provider => (
+                      <option key={provider.id} value={provider.id}>
+                        {provider.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-sm text-gray-700">
+                  Model
+                  <input
+                    type="text"
+                    value={personaModel}
+                    onChange={(e) => setPersonaModel(e.target.value)}
+                    placeholder="Provider default"
+                    disabled={!personaProvider}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+                  />
+                </label>
+                <label className="text-sm text-gray-700">
+                  Temperature
+                  <input
+                    type="number"
+                    min={AI_TEMPERATURE_RANGE.min}
+                    max={AI_TEMPERATURE_RANGE.max}
+                    step="0.1"
+                    value={temperature}
+                    onChange={(e) => setTemperature(e.target.value)}
+                    placeholder="Default"
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </label>
+                <label className="text-sm text-gray-700">
+                  Max response tokens
+                  <input
+                    type="number"
+                    min={AI_MAX_TOKENS_RANGE.min}
+                    max={AI_MAX_TOKENS_RANGE.max}
+                    step="1"
+                    value={maxTokens}
+                    onChange={(e) => setMaxTokens(e.target.value)}
+                    placeholder="Default"
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </label>
+              </div>
+
+              <p className="text-xs text-gray-500">
+                Applied to every AI request in this room. /ask and compare mode still choose their own provider.
+              </p>
+              {personaError && (
+                <p className="text-sm text-red-600">{personaError}</p>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setShowPersona(false)}
+                  className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
+                >
+                  Back
+                </button>
+                <button
+                  onClick={handleSavePersona}
+                  disabled={isSaving}
+                  className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSaving ? 'Saving...' : 'Save Persona'}
+                </button>
+              </div>
+            </div>
+          ) : !selectedProvider ? (
             // Provider Selection
             <div className="space-y-3">
               <p className="text-sm text-gray-600 mb-4">
                 Select an AI provider to use for chat. You'll need to provide an API key for the selected provider.
               </p>
-              {providers.map(provider => (
+              {providers.map(provider => {
+                const key = vaultKeys[provider.id as AIProviderId];
+                return (
                 <button
                   key={provider.id}
                   onClick={() => handleProviderSelect(provider)}
-                  className="w-full p-3 bg-white border border-gray-200 rounded-lg hover:border-blue-500 hover:bg-blue-50 transition-colors text-left group"
+                  disabled={!isHost}
+                  className="w-full p-3 bg-white border border-gray-200 rounded-lg hover:border-blue-500 hover:bg-blue-50 transition-colors text-left group disabled:cursor-default disabled:hover:border-gray-200 disabled:hover:bg-white"
                 >
                   <div className="flex items-center justify-between">
                     <div>
@@ -138,19 +527,81 @@ export function AIProviderModal({ isOpen, onClose, roomId, userId }: AIProviderM
                       <div className="text-sm text-gray-600 mt-1">
                         {provider.description}
                       </div>
+                      {key && (
+                        <div className="text-xs text-gray-500 mt-1 font-mono">
+                          {key.masked}{key.fingerprint && ` · ${key.fingerprint}`}
+                        </div>
+                      )}
                     </div>
                     <Key className={`w-5 h-5 ${
                       provider.hasKey ? 'text-green-500' : 'text-gray-400 group-hover:text-blue-500'
                     }`} />
                   </div>
                 </button>
-              ))}
+                );
+              })}
+              {!isHost && (
+                <p className="text-xs text-gray-500">Only the host can add or change the room's API keys.</p>
+              )}
+              {localKeyCount > 0 && (
+                <div className="flex items-center justify-between p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                  <span>{localKeyCount} API {localKeyCount === 1 ? 'key is' : 'keys are'} still saved in this browser.</span>
+                  <button
+                    onClick={handleClearLocalKeys}
+                    className="px-2 py-1 text-xs font-medium rounded hover:bg-amber-100"
+                  >
+                    Clear local copies
+                  </button>
+                </div>
+              )}
+              {keyError && (
+                <p className="text-sm text-red-600">{keyError}</p>
+              )}
+              {isHost && roomId && (
+                <button
+                  onClick={() => setShowPersona(true)}
+                  className="w-full p-3 bg-white border border-gray-200 rounded-lg hover:border-blue-500 hover:bg-blue-50 transition-colors text-left group"
+                >
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="font-medium text-gray-900">Room Persona</div>
+                      <div className="text-sm text-gray-600 mt-1">
+                        {personaName || systemPrompt ? personaName || 'Custom instructions set' : 'Tell the assistant what this room is about'}
+                      </div>
+                    </div>
+                    <Sparkles className="w-5 h-5 text-gray-400 group-hover:text-blue-500" />
+                  </div>
+                </button>
+              )}
+              {isHost && roomId && (
+                <button
+                  onClick={() => setShowBudget(true)}
+                  className="w-full p-3 bg-white border border-gray-200 rounded-lg hover:border-blue-500 hover:bg-blue-50 transition-colors text-left group"
+                >
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="font-medium text-gray-900">Budget &amp; Usage</div>
+                      <div className="text-sm text-gray-600 mt-1">
+                        {usage ? `${formatUsd(usage.totalCostUsd)} spent in this room` : 'Limit what participants can spend on your keys'}
+                      </div>
+                    </div>
+                    <Wallet className="w-5 h-5 text-gray-400 group-hover:text-blue-500" />
+                  </div>
+                </button>
+              )}
             </div>
           ) : (
+            selectedProvider.id === 'local' ? (
+              <LocalEndpointSettings
+                onBack={() => setSelectedProvider(null)}
+                onChange={refreshProviders}
+              />
+            ) : (
             // API Key Input
             <div className="space-y-4">
               <div className="flex items-center justify-between">
                 <h4 className="font-medium text-gray-900">{selectedProvider.name} API Key</h4>
+                {selectedProvider.website && (
                 <a
                   href={selectedProvider.website}
                   target="_blank"
@@ -160,24 +611,52 @@ export function AIProviderModal({ isOpen, onClose, roomId, userId }: AIProviderM
                   Get API Key
                   <ExternalLink className="w-3 h-3" />
                 </a>
+                )}
               </div>
               
+              {selectedKey && (
+                <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm">
+                  <div className="font-mono text-gray-900">
+                    {selectedKey.masked}
+                    {selectedKey.fingerprint && <span className="text-gray-500"> · {selectedKey.fingerprint}</span>}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    Added {formatKeyDate(selectedKey.createdAt)}
+                    {selectedKey.rotatedAt && ` · rotated ${formatKeyDate(selectedKey.rotatedAt)}`}
+                    {` · last used ${formatKeyDate(selectedKey.lastUsedAt)}`}
+                  </div>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <input
                   type="password"
                   value={apiKey}
                   onChange={(e) => setApiKey(e.target.value)}
-                  placeholder="Enter your API key"
+                  placeholder={selectedKey ? 'Enter a new key to rotate' : 'Enter your API key'}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 />
                 <p className="text-xs text-gray-500">
-                  Your API key is stored locally in your browser and is never sent to our servers.
+                  The key is checked with {selectedProvider.name}, then stored encrypted for this room. It is never shown again.
                 </p>
+                {keyError && (
+                  <p className="text-sm text-red-600">{keyError}</p>
+                )}
               </div>
 
               <div className="flex justify-end gap-2">
+                {selectedKey && (
+                  <button
+                    onClick={handleRevokeKey}
+                    disabled={isSaving}
+                    className="mr-auto px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg flex items-center gap-1 disabled:opacity-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    Revoke
+                  </button>
+                )}
                 <button
-                  onClick={() => setSelectedProvider(null)}
+                  onClick={() => { setSelectedProvider(null); setKeyError(null); }}
                   className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
                 >
                   Back
@@ -187,10 +666,11 @@ export function AIProviderModal({ isOpen, onClose, roomId, userId }: AIProviderM
                   disabled={!apiKey.trim() || isSaving}
                   className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  {isSaving ? 'Saving...' : 'Save Key'}
+                  {isSaving ? 'Checking...' : selectedKey ? 'Rotate Key' : 'Save Key'}
                 </button>
               </div>
             </div>
+            )
           )}
         </div>
       </div>
@@ -1,16 +1,72 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Participant } from '../services/participantService';
 import { ParticipantService } from '../services/participantService';
+import { AI_PROVIDER_LABELS, isAIProviderId } from '../services/aiProviders';
+import { formatCitationLocation } from '../services/aiContextBuilder';
+import { MarkdownContent } from './MarkdownContent';
+import { Check, Copy, CornerDownRight, FileText, MessageSquare, Send } from 'lucide-react';
+import type { AIResponseReply } from '../types/room';
+import type { AIFileCitation } from '../types/ai';
+import type { CanvasInteractionStart } from '../lib/canvasGeometry';
+
+const DEFAULT_SIZE = { width: 300, height: 200 };
+
+// Numbered sources under an answer, each opening the cited file (PDFs at the cited page)
+const CitationList: React.FC<{ citations: AIFileCitation[] }> = ({ citations }) => (
+  <ol className="mt-2 space-y-0.5 text-xs text-gray-600">
+    {citations.map(citation => {
+      const label = formatCitationLocation(citation);
+      return (
+        <li key={citation.index} className="flex items-start gap-1">
+          <span className="shrink-0">[{citation.index}]</span>
+          <FileText className="w-3 h-3 mt-0.5 shrink-0" />
+          {citation.downloadUrl ? (
+            <a
+              href={citation.page !== null ? `${citation.downloadUrl}#page=${citation.page}` : citation.downloadUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="underline hover:text-blue-600 break-all"
+              title={citation.heading ?? undefined}
+            >
+              {label}
+            </a>
+          ) : (
+            <span className="break-all">{label}</span>
+          )}
+        </li>
+      );
+    })}
+  </ol>
+);
 
 interface AIResponseObjectProps {
   id: string;
   content: string;
   position: { x: number; y: number };
+  size?: { width: number; height: number };
   rotation: number;
   zIndex: number;
   fromUserId: string;
+  isStreaming?: boolean;
+  queuePosition?: number;
+  provider?: string;
+  latencyMs?: number;
+  // Room files the answer cites with [n] markers
+  citations?: AIFileCitation[];
+  // Follow-up thread, oldest first
+  replies?: AIResponseReply[];
+  onReply?: (id: string, prompt: string) => void;
+  // Another card answering the same compare-mode prompt is hovered
+  isGroupHighlighted?: boolean;
+  onHoverChange?: (isHovered: boolean) => void;
+  isSelected?: boolean;
+  // Pressed to drag it; the room decides what else is selected along with it
+  onSelect?: (id: string) => void;
+  onCancel?: (id: string) => void;
   onMove: (id: string, position: { x: number; y: number }) => void;
   onResize: (id: string, size: { width: number; height: number }) => void;
+  // A drag or resize has finished; gets where it started, so the whole gesture can be undone at once
+  onInteractionEnd?: (id: string, start: CanvasInteractionStart) => void;
   onClose: (id: string) => void;
 }
 
@@ -18,21 +74,56 @@ const AIResponseObject: React.FC<AIResponseObjectProps> = ({
   id,
   content,
   position,
+  size: sizeProp,
   rotation,
   zIndex,
   fromUserId,
+  isStreaming = false,
+  queuePosition,
+  provider,
+  latencyMs,
+  citations = [],
+  replies = [],
+  onReply,
+  isGroupHighlighted = false,
+  onHoverChange,
+  isSelected = false,
+  onSelect,
+  onCancel,
   onMove,
   onResize,
+  onInteractionEnd,
   onClose
 }) => {
   const [isHovered, setIsHovered] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [isResizing, setIsResizing] = useState(false);
-  const [size, setSize] = useState({ width: 300, height: 200 });
-  const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
-  const [resizeStart, setResizeStart] = useState({ x: 0, y: 0, width: 0, height: 0 });
+  const [size, setSize] = useState(sizeProp ?? DEFAULT_SIZE);
   const [participant, setParticipant] = useState<Participant | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [isReplying, setIsReplying] = useState(false);
+  const [replyText, setReplyText] = useState('');
   const elementRef = useRef<HTMLDivElement>(null);
+  // Document listeners outlive the render that attached them, so live values are read from refs
+  const interactionRef = useRef<{
+    mode: 'drag' | 'resize';
+    startX: number;
+    startY: number;
+    startPosition: { x: number; y: number };
+    startSize: { width: number; height: number };
+    scale: number;
+  } | null>(null);
+  const callbacksRef = useRef({ onMove, onResize, onInteractionEnd });
+  callbacksRef.current = { onMove, onResize, onInteractionEnd };
+
+  // Follow size changes made by other participants
+  const syncedWidth = sizeProp?.width;
+  const syncedHeight = sizeProp?.height;
+  useEffect(() => {
+    if (syncedWidth !== undefined && syncedHeight !== undefined && !interactionRef.current) {
+      setSize({ width: syncedWidth, height: syncedHeight });
+    }
+  }, [syncedWidth, syncedHeight]);
 
   useEffect(() => {
     const fetchParticipant = async () => {
@@ -44,85 +135,109 @@ const AIResponseObject: React.FC<AIResponseObjectProps> = ({
     fetchParticipant();
   }, [fromUserId]);
 
-  const handleMouseDown = (e: React.MouseEvent) => {
-    if (e.target instanceof HTMLElement && e.target.closest('.resize-handle')) {
-      handleResizeStart(e);
+  const handleMouseMove = useCallback((e: MouseEvent) => {
+    const interaction = interactionRef.current;
+    if (!interaction) return;
+    // Mouse deltas are in screen pixels; the card lives in the scaled canvas
+    const deltaX = (e.clientX - interaction.startX) / interaction.scale;
+    const deltaY = (e.clientY - interaction.startY) / interaction.scale;
+
+    if (interaction.mode === 'drag') {
+      callbacksRef.current.onMove(id, {
+        x: interaction.startPosition.x + deltaX,
+        y: interaction.startPosition.y + deltaY
+      });
     } else {
-      handleDragStart(e);
+      const newSize = {
+        width: Math.max(200, interaction.startSize.width + deltaX),
+        height: Math.max(150, interaction.startSize.height + deltaY)
+      };
+      setSize(newSize);
+      callbacksRef.current.onResize(id, newSize);
     }
-  };
+  }, [id]);
 
-  const handleDragStart = (e: React.MouseEvent) => {
-    if (e.button !== 0) return; // Only handle left mouse button
-    setIsDragging(true);
-    const rect = elementRef.current?.getBoundingClientRect();
-    if (rect) {
-      setDragOffset({
-        x: e.clientX - rect.left,
-        y: e.clientY - rect.top
+  const handleMouseUp = useCallback(() => {
+    const interaction = interactionRef.current;
+    if (interaction) {
+      callbacksRef.current.onInteractionEnd?.(id, {
+        mode: interaction.mode,
+        position: interaction.startPosition,
+        size: interaction.startSize
       });
     }
-    document.addEventListener('mousemove', handleDragMove);
-    document.addEventListener('mouseup', handleDragEnd);
-  };
+    interactionRef.current = null;
+    setIsDragging(false);
+    setIsResizing(false);
+    document.removeEventListener('mousemove', handleMouseMove);
+    document.removeEventListener('mouseup', handleMouseUp);
+  }, [id, handleMouseMove]);
 
-  const handleDragMove = (e: MouseEvent) => {
-    if (!isDragging || !elementRef.current) return;
-    const newX = e.clientX - dragOffset.x;
-    const newY = e.clientY - dragOffset.y;
-    onMove(id, { x: newX, y: newY });
+  const startInteraction = (e: React.MouseEvent, mode: 'drag' | 'resize') => {
+    if (e.button !== 0 || e.shiftKey) return; // Left button only; shift+drag pans the canvas
+    e.stopPropagation();
+    if (mode === 'drag') onSelect?.(id);
+    const element = elementRef.current;
+    const rect = element?.getBoundingClientRect();
+    interactionRef.current = {
+      mode,
+      startX: e.clientX,
+      startY: e.clientY,
+      startPosition: position,
+      startSize: size,
+      scale: element && rect && element.offsetWidth ? rect.width / element.offsetWidth : 1
+    };
+    if (mode === 'drag') {
+      setIsDragging(true);
+    } else {
+      setIsResizing(true);
+    }
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
   };
 
-  const handleDragEnd = () => {
-    setIsDragging(false);
-    document.removeEventListener('mousemove', handleDragMove);
-    document.removeEventListener('mouseup', handleDragEnd);
+  const handleMouseDown = (e: React.MouseEvent) => {
+    // Buttons, links, section toggles, the reply field and code (so it can be selected) keep their own mouse behavior
+    if (e.target instanceof HTMLElement && e.target.closest('button, a, summary, pre, input')) return;
+    startInteraction(e, 'drag');
   };
 
   const handleResizeStart = (e: React.MouseEvent) => {
-    if (e.button !== 0) return;
-    setIsResizing(true);
-    const rect = elementRef.current?.getBoundingClientRect();
-    if (rect) {
-      setResizeStart({
-        x: e.clientX,
-        y: e.clientY,
-        width: rect.width,
-        height: rect.height
-      });
-    }
-    document.addEventListener('mousemove', handleResizeMove);
-    document.addEventListener('mouseup', handleResizeEnd);
+    startInteraction(e, 'resize');
   };
 
-  const handleResizeMove = (e: MouseEvent) => {
-    if (!isResizing) return;
-    const deltaX = e.clientX - resizeStart.x;
-    const deltaY = e.clientY - resizeStart.y;
-    const newWidth = Math.max(200, resizeStart.width + deltaX);
-    const newHeight = Math.max(150, resizeStart.height + deltaY);
-    setSize({ width: newWidth, height: newHeight });
-    onResize(id, { width: newWidth, height: newHeight });
+  const isQueued = isStreaming && !!queuePosition && queuePosition > 0;
+  const providerLabel = provider && isAIProviderId(provider) ? AI_PROVIDER_LABELS[provider] : provider;
+  const latencyLabel = latencyMs !== undefined ? `${(latencyMs / 1000).toFixed(1)}s` : null;
+
+  const handleClose = () => {
+    onClose(id);
   };
 
-  const handleResizeEnd = () => {
-    setIsResizing(false);
-    document.removeEventListener('mousemove', handleResizeMove);
-    document.removeEventListener('mouseup', handleResizeEnd);
+  const handleReplySubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!replyText.trim() || !onReply) return;
+    onReply(id, replyText.trim());
+    setReplyText('');
+    setIsReplying(false);
   };
 
-  const handleClose = () => {
-    onClose(id);
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(content);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error('Failed to copy AI response:', error);
+    }
   };
 
   useEffect(() => {
     return () => {
-      document.removeEventListener('mousemove', handleDragMove);
-      document.removeEventListener('mouseup', handleDragEnd);
-      document.removeEventListener('mousemove', handleResizeMove);
-      document.removeEventListener('mouseup', handleResizeEnd);
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
     };
-  }, []);
+  }, [handleMouseMove, handleMouseUp]);
 
   return (
     <div
@@ -137,14 +252,25 @@ const AIResponseObject: React.FC<AIResponseObjectProps> = ({
         transformOrigin: 'center center',
         zIndex: isHovered ? 1000 : zIndex,
         transition: isDragging || isResizing ? 'none' : 'all 0.2s ease-in-out',
-        boxShadow: isHovered 
+        boxShadow: isSelected
+          ? '0 0 0 2px #2563eb, 0 4px 16px rgba(0, 0, 0, 0.1)'
+          : isHovered
           ? '0 8px 32px rgba(0, 0, 0, 0.2), 0 2px 8px rgba(0, 0, 0, 0.1)'
-          : '0 4px 16px rgba(0, 0, 0, 0.1)',
+          : isGroupHighlighted
+            ? '0 0 0 3px rgba(147, 51, 234, 0.6), 0 4px 16px rgba(0, 0, 0, 0.1)'
+            : '0 4px 16px rgba(0, 0, 0, 0.1)',
         cursor: isDragging ? 'grabbing' : 'grab',
         backgroundColor: participant?.userColor || '#ffffff'
       }}
-      onMouseEnter={() => setIsHovered(true)}
-      onMouseLeave={() => setIsHovered(false)}
+      data-board-item-id={id}
+      onMouseEnter={() => {
+        setIsHovered(true);
+        onHoverChange?.(true);
+      }}
+      onMouseLeave={() => {
+        setIsHovered(false);
+        onHoverChange?.(false);
+      }}
       onMouseDown={handleMouseDown}
     >
       <div 
@@ -160,8 +286,41 @@ const AIResponseObject: React.FC<AIResponseObjectProps> = ({
           <span className="text-sm font-medium text-white">
             {participant?.displayName || 'Unknown User'}
           </span>
+          {providerLabel && (
+            <span className="px-1.5 py-0.5 rounded bg-black/20 text-xs text-white">
+              {providerLabel}{latencyLabel && ` · ${latencyLabel}`}
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-1">
+          {isStreaming && onCancel && (
+            <button
+              onClick={() => onCancel(id)}
+              onMouseDown={e => e.stopPropagation()}
+              className="px-2 py-0.5 rounded-full text-xs font-medium text-white hover:bg-white/20 transition-colors"
+              title={isQueued ? 'Leave the queue' : 'Stop generating'}
+            >
+              {isQueued ? 'Cancel' : 'Stop'}
+            </button>
+          )}
+          {onReply && content && !isStreaming && (
+            <button
+              onClick={() => setIsReplying(prev => !prev)}
+              className="p-1 rounded-full hover:bg-white/20 transition-colors"
+              title="Ask a follow-up"
+            >
+              <MessageSquare className="w-4 h-4 text-white" />
+            </button>
+          )}
+          {content && !isStreaming && (
+            <button
+              onClick={handleCopy}
+              className="p-1 rounded-full hover:bg-white/20 transition-colors"
+              title="Copy answer as markdown"
+            >
+              {copied ? <Check className="w-4 h-4 text-white" /> : <Copy className="w-4 h-4 text-white" />}
+            </button>
+          )}
           <button
             onClick={handleClose}
             className="p-1 rounded-full hover:bg-white/20 transition-colors"
@@ -181,8 +340,60 @@ const AIResponseObject: React.FC<AIResponseObjectProps> = ({
             : '#ffffff'
         }}
       >
-        <div className="prose prose-sm max-w-none">
-          {content}
+        <div className="text-sm text-gray-900 break-words">
+          {isQueued && (
+            <span className="text-gray-500 italic">Waiting in queue (#{queuePosition})…</span>
+          )}
+          <MarkdownContent content={content} />
+          {isStreaming && !isQueued && (
+            <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-gray-500 animate-pulse" />
+          )}
+          {citations.length > 0 && <CitationList citations={citations} />}
+          {replies.map(reply => (
+            <div key={reply.id} className="mt-3 pt-3 border-t border-black/10">
+              <div className="flex items-start gap-1.5 mb-1 font-medium text-gray-700">
+                <CornerDownRight className="w-4 h-4 mt-0.5 shrink-0" />
+                <span className="flex-1">{reply.prompt}</span>
+                {reply.status === 'streaming' && onCancel && (
+                  <button
+                    onClick={() => onCancel(reply.id)}
+                    className="px-2 py-0.5 rounded-full text-xs text-gray-600 hover:bg-black/10 transition-colors"
+                    title="Stop generating"
+                  >
+                    Stop
+                  </button>
+                )}
+              </div>
+              <MarkdownContent content={reply.content} />
+              {reply.status === 'streaming' && (
+                <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-gray-500 animate-pulse" />
+              )}
+              {reply.citations && reply.citations.length > 0 && <CitationList citations={reply.citations} />}
+            </div>
+          ))}
+          {isReplying && (
+            <form onSubmit={handleReplySubmit} className="mt-3 flex items-center gap-1">
+              <input
+                autoFocus
+                type="text"
+                value={replyText}
+                onChange={e => setReplyText(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Escape') setIsReplying(false);
+                }}
+                placeholder="Ask a follow-up…"
+                className="flex-1 min-w-0 px-2 py-1 rounded border border-gray-300 bg-white text-sm outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={!replyText.trim()}
+                className="p-1.5 rounded text-blue-600 hover:bg-blue-100 disabled:text-gray-400 disabled:hover:bg-transparent"
+                title="Send follow-up"
+              >
+                <Send className="w-4 h-4" />
+              </button>
+            </form>
+          )}
         </div>
       </div>
       <div 
@@ -0,0 +1,318 @@
+import { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, ArrowRight, CornerDownRight, Minus, Spline, Trash2, type LucideIcon } from 'lucide-react';
+import { CANVAS_SIZE, type BoardBox } from '../lib/canvasGeometry';
+import {
+  CONNECTOR_SIDES,
+  anchorPoint,
+  boxAt,
+  nearestAnchor,
+  routeConnector
+} from '../lib/connectorGeometry';
+import type {
+  CanvasConnector,
+  CanvasConnectorUpdate,
+  ConnectorAnchor,
+  ConnectorArrowhead,
+  ConnectorRouting
+} from '../types/room';
+
+interface CanvasConnectorsProps {
+  connectors: CanvasConnector[];
+  // Everything a connector can end at, bottom to top
+  boxes: BoardBox[];
+  // The connector tool is picked: every item shows anchor handles, and dragging between them draws a connector
+  isConnecting?: boolean;
+  onCreate?: (fromId: string, fromAnchor: ConnectorAnchor, toId: string, toAnchor: ConnectorAnchor) => void;
+  onUpdate?: (id: string, update: CanvasConnectorUpdate) => void;
+  onDelete?: (id: string) => void;
+}
+
+const LINE_COLOR = '#6b7280';
+const SELECTED_COLOR = '#2563eb';
+
+// Board pixels from an anchor at which a dragged end snaps to it
+const ANCHOR_SNAP_DISTANCE = 20;
+
+// Above every object and card, so handles can be grabbed anywhere; below other people's cursors
+const HANDLE_LAYER_Z_INDEX = 998;
+
+const ROUTING_OPTIONS: Array<{ routing: ConnectorRouting; label: string; icon: LucideIcon }> = [
+  { routing: 'straight', label: 'Straight', icon: Minus },
+  { routing: 'elbow', label: 'Elbow', icon: CornerDownRight },
+  { routing: 'curved', label: 'Curved', icon: Spline }
+];
+
+const NEXT_ARROWHEAD: Record<ConnectorArrowhead, ConnectorArrowhead> = {
+  none: 'arrow',
+  arrow: 'triangle',
+  triangle: 'none'
+};
+
+// One marker per arrowhead kind and colour; orient="auto-start-reverse" points them outwards at either end
+function ArrowheadMarkers({ suffix, color }: { suffix: string; color: string }) {
+  return (
+    <>
+      <marker id={`canvas-connector-arrow${suffix}`} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+        <path d="M 1 1 L 9 5 L 1 9" fill="none" stroke={color} strokeWidth={1.5} strokeLinecap="round" strokeLinejoin="round" />
+      </marker>
+      <marker id={`canvas-connector-triangle${suffix}`} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+        <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+      </marker>
+    </>
+  );
+}
+
+const markerUrl = (arrowhead: ConnectorArrowhead, isSelected: boolean) =>
+  arrowhead === 'none' ? undefined : `url(#canvas-connector-${arrowhead}${isSelected ? '-selected' : ''})`;
+
+// Arrows between board items, drawn under them in canvas coordinates so they re-route as either end moves
+export function CanvasConnectors({ connectors, boxes, isConnecting = false, onCreate, onUpdate, onDelete }: CanvasConnectorsProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Connector being dragged out of an anchor handle, in board coordinates
+  const [draft, setDraft] = useState<{ fromId: string; fromSide: ConnectorAnchor; point: { x: number; y: number } } | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const toolbarRef = useRef<HTMLDivElement>(null);
+  const boxesById = new Map(boxes.map(box => [box.id, box]));
+
+  const selected = connectors.find(connector => connector.id === selectedId);
+  const selectedRoute = selected && boxesById.get(selected.fromCardId) && boxesById.get(selected.toCardId)
+    ? routeConnector(
+        boxesById.get(selected.fromCardId) as BoardBox,
+        boxesById.get(selected.toCardId) as BoardBox,
+        selected.fromAnchor,
+        selected.toAnchor,
+        selected.routing
+      )
+    : null;
+
+  // Clicking anywhere but the selected connector or its toolbar lets go of it
+  useEffect(() => {
+    if (!selectedId) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      const target = e.target;
+      if (target instanceof Element && (toolbarRef.current?.contains(target) || target.closest(`[data-connector-id="${selectedId}"]`))) return;
+      setSelectedId(null);
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => document.removeEventListener('pointerdown', handlePointerDown);
+  }, [selectedId]);
+
+  // Board coordinates of a pointer; the svg covers the board, so its box scales with the zoom
+  const toBoardPoint = (e: PointerEvent | React.PointerEvent) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    const scale = rect && rect.width ? rect.width / CANVAS_SIZE : 1;
+    return { x: (e.clientX - (rect?.left ?? 0)) / scale, y: (e.clientY - (rect?.top ?? 0)) / scale };
+  };
+
+  // Where a dragged end would land: a nearby anchor handle, or anywhere on an item for an automatic side
+  const dropTarget = (fromId: string, point: { x: number; y: number }) => {
+    const candidates = boxes.filter(box => box.id !== fromId);
+    const anchor = nearestAnchor(candidates, point, ANCHOR_SNAP_DISTANCE);
+    if (anchor) return { id: anchor.box.id, anchor: anchor.side as ConnectorAnchor };
+    const box = boxAt(candidates, point);
+    return box ? { id: box.id, anchor: 'auto' as ConnectorAnchor } : null;
+  };
+
+  const startDraft = (e: React.PointerEvent, fromId: string, fromSide: ConnectorAnchor) => {
+    if (e.button !== 0 || e.shiftKey) return; // Shift+drag still pans the canvas
+    e.preventDefault();
+    e.stopPropagation();
+    setDraft({ fromId, fromSide, point: toBoardPoint(e) });
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      setDraft(prev => prev && { ...prev, point: toBoardPoint(moveEvent) });
+    };
+    const handleUp = (upEvent: PointerEvent) => {
+      document.removeEventListener('pointermove', handleMove);
+      document.removeEventListener('pointerup', handleUp);
+      setDraft(null);
+      const target = dropTarget(fromId, toBoardPoint(upEvent));
+      if (target) onCreate?.(fromId, fromSide, target.id, target.anchor);
+    };
+    document.addEventListener('pointermove', handleMove);
+    document.addEventListener('pointerup', handleUp);
+  };
+
+  const draftStart = draft && boxesById.get(draft.fromId);
+  const draftTarget = draft && dropTarget(draft.fromId, draft.point);
+  const draftTargetBox = draftTarget && boxesById.get(draftTarget.id);
+
+  return (
+    <>
+      <svg
+        ref={svgRef}
+        className="absolute inset-0 pointer-events-none"
+        width="100%"
+        height="100%"
+        style={{ overflow: 'visible', zIndex: 0 }}
+      >
+        <defs>
+          <ArrowheadMarkers suffix="" color={LINE_COLOR} />
+          <ArrowheadMarkers suffix="-selected" color={SELECTED_COLOR} />
+        </defs>
+        {connectors.map(connector => {
+          const from = boxesById.get(connector.fromCardId);
+          const to = boxesById.get(connector.toCardId);
+          // One end is still loading, or was just removed
+          if (!from || !to) return null;
+
+          const route = routeConnector(from, to, connector.fromAnchor, connector.toAnchor, connector.routing);
+          const isSelected = connector.id === selectedId;
+          return (
+            <g key={connector.id} data-connector-id={connector.id}>
+              <path
+                d={route.path}
+                fill="none"
+                stroke={isSelected ? SELECTED_COLOR : LINE_COLOR}
+                strokeWidth={2}
+                strokeLinejoin="round"
+                markerStart={markerUrl(connector.startArrow, isSelected)}
+                markerEnd={markerUrl(connector.endArrow, isSelected)}
+              />
+              {/* Wider invisible stroke, so the connector is easy to click */}
+              {(onUpdate || onDelete) && (
+                <path
+                  d={route.path}
+                  fill="none"
+                  stroke="transparent"
+                  strokeWidth={12}
+                  className="pointer-events-auto cursor-pointer"
+                  onClick={() => setSelectedId(connector.id)}
+                  onDoubleClick={() => onDelete?.(connector.id)}
+                >
+                  <title>Click to edit, double-click to remove</title>
+                </path>
+              )}
+              {connector.label && (
+                <text
+                  x={route.labelAt.x}
+                  y={route.labelAt.y - 6}
+                  textAnchor="middle"
+                  className="text-xs"
+                  fill="#374151"
+                  stroke="#ffffff"
+                  strokeWidth={3}
+                  paintOrder="stroke"
+                >
+                  {connector.label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+
+      {/* Anchor handles while the connector tool is picked, and the connector being drawn */}
+      {isConnecting && (
+        <svg
+          className="absolute inset-0 pointer-events-none"
+          width="100%"
+          height="100%"
+          style={{ overflow: 'visible', zIndex: HANDLE_LAYER_Z_INDEX }}
+        >
+          {boxes.map(box => CONNECTOR_SIDES.map(side => {
+            const point = anchorPoint(box, side);
+            const isTarget = draftTarget?.id === box.id && (draftTarget.anchor === side || draftTarget.anchor === 'auto');
+            return (
+              <circle
+                key={`${box.id}-${side}`}
+                cx={point.x}
+                cy={point.y}
+                r={6}
+                fill={isTarget ? SELECTED_COLOR : '#ffffff'}
+                stroke={SELECTED_COLOR}
+                strokeWidth={2}
+                className="pointer-events-auto cursor-crosshair"
+                onPointerDown={e => startDraft(e, box.id, side)}
+              />
+            );
+          }))}
+          {draft && draftStart && (
+            draftTargetBox ? (
+              <path
+                d={routeConnector(draftStart, draftTargetBox, draft.fromSide, draftTarget.anchor, 'straight').path}
+                fill="none"
+                stroke={SELECTED_COLOR}
+                strokeWidth={2}
+                strokeDasharray="6 4"
+                markerEnd={markerUrl('arrow', true)}
+              />
+            ) : (
+              <line
+                x1={anchorPoint(draftStart, draft.fromSide === 'auto' ? 'right' : draft.fromSide).x}
+                y1={anchorPoint(draftStart, draft.fromSide === 'auto' ? 'right' : draft.fromSide).y}
+                x2={draft.point.x}
+                y2={draft.point.y}
+                stroke={SELECTED_COLOR}
+                strokeWidth={2}
+                strokeDasharray="6 4"
+              />
+            )
+          )}
+        </svg>
+      )}
+
+      {/* Routing, arrowheads and label of the selected connector */}
+      {selected && selectedRoute && onUpdate && (
+        <div
+          ref={toolbarRef}
+          className="absolute flex items-center gap-1 p-1 bg-white rounded-lg shadow-lg border border-gray-200"
+          style={{
+            left: selectedRoute.labelAt.x,
+            top: selectedRoute.labelAt.y + 12,
+            transform: 'translateX(-50%)',
+            zIndex: HANDLE_LAYER_Z_INDEX + 1
+          }}
+        >
+          {ROUTING_OPTIONS.map(({ routing, label, icon: Icon }) => (
+            <button
+              key={routing}
+              onClick={() => onUpdate(selected.id, { routing })}
+              className={`p-1.5 rounded ${selected.routing === routing ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-100'}`}
+              title={label}
+            >
+              <Icon className="w-4 h-4" />
+            </button>
+          ))}
+          <div className="w-px h-5 bg-gray-200 mx-0.5" />
+          <button
+            onClick={() => onUpdate(selected.id, { startArrow: NEXT_ARROWHEAD[selected.startArrow] })}
+            className={`p-1.5 rounded hover:bg-gray-100 ${selected.startArrow === 'none' ? 'text-gray-300' : 'text-gray-600'}`}
+            title={`Start: ${selected.startArrow}`}
+          >
+            <ArrowLeft className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => onUpdate(selected.id, { endArrow: NEXT_ARROWHEAD[selected.endArrow] })}
+            className={`p-1.5 rounded hover:bg-gray-100 ${selected.endArrow === 'none' ? 'text-gray-300' : 'text-gray-600'}`}
+            title={`End: ${selected.endArrow}`}
+          >
+            <ArrowRight className="w-4 h-4" />
+          </button>
+          <div className="w-px h-5 bg-gray-200 mx-0.5" />
+          <input
+            value={selected.label ?? ''}
+            onChange={e => onUpdate(selected.id, { label: e.target.value || undefined })}
+            onKeyDown={e => {
+              if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur();
+            }}
+            placeholder="Label"
+            className="w-28 px-1.5 py-1 rounded border border-gray-200 text-xs outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          {onDelete && (
+            <button
+              onClick={() => {
+                onDelete(selected.id);
+                setSelectedId(null);
+              }}
+              className="p-1.5 rounded text-gray-600 hover:bg-gray-100 hover:text-red-600"
+              title="Remove connector"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import {
+  Circle,
+  Diamond,
+  Eraser,
+  Frame,
+  Highlighter,
+  Image,
+  PenLine,
+  Redo2,
+  Square,
+  StickyNote,
+  Triangle,
+  Type,
+  Undo2,
+  Waypoints,
+  type LucideIcon
+} from 'lucide-react';
+import type { SketchTool } from './SketchLayer';
+import { INK_COLORS } from '../services/canvasObjectService';
+import type { CanvasObjectType, CanvasShapeKind, InkTool } from '../types/canvas';
+
+// A tool that stays picked until put down: ink, the eraser, or drawing connectors between items
+export type BoardTool = SketchTool | 'connector';
+
+// What a palette button asks the room to place
+export interface CanvasObjectRequest {
+  // Strokes are drawn, not placed
+  type: Exclude<CanvasObjectType, 'stroke'>;
+  shape?: CanvasShapeKind;
+  src?: string;
+}
+
+interface CanvasObjectPaletteProps {
+  onAdd: (request: CanvasObjectRequest) => void;
+  tool: BoardTool | null;
+  onToolChange: (tool: BoardTool | null) => void;
+  inkColors: Record<InkTool, string>;
+  onInkColorChange: (tool: InkTool, color: string) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+// Shortcut hints follow the platform's modifier key
+const MOD_KEY = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform) ? '⌘' : 'Ctrl+';
+
+const BOARD_TOOLS: Array<{ label: string; icon: LucideIcon; tool: BoardTool }> = [
+  { label: 'Pen', icon: PenLine, tool: 'pen' },
+  { label: 'Highlighter', icon: Highlighter, tool: 'highlighter' },
+  { label: 'Eraser', icon: Eraser, tool: 'eraser' },
+  { label: 'Connector', icon: Waypoints, tool: 'connector' }
+];
+
+const TOOLS: Array<{ label: string; icon: LucideIcon; request: CanvasObjectRequest }> = [
+  { label: 'Sticky note', icon: StickyNote, request: { type: 'sticky_note' } },
+  { label: 'Text', icon: Type, request: { type: 'text' } },
+  { label: 'Rectangle', icon: Square, request: { type: 'shape', shape: 'rectangle' } },
+  { label: 'Ellipse', icon: Circle, request: { type: 'shape', shape: 'ellipse' } },
+  { label: 'Triangle', icon: Triangle, request: { type: 'shape', shape: 'triangle' } },
+  { label: 'Diamond', icon: Diamond, request: { type: 'shape', shape: 'diamond' } },
+  { label: 'Frame', icon: Frame, request: { type: 'frame' } }
+];
+
+// Buttons down the left edge that drop a new object in the middle of the view, or pick a tool to draw with
+export const CanvasObjectPalette: React.FC<CanvasObjectPaletteProps> = ({
+  onAdd,
+  tool: activeTool,
+  onToolChange,
+  inkColors,
+  onInkColorChange,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo
+}) => {
+  const [isAskingForImage, setIsAskingForImage] = useState(false);
+  const [imageUrl, setImageUrl] = useState('');
+
+  const handleImageSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!imageUrl.trim()) return;
+    onAdd({ type: 'image', src: imageUrl.trim() });
+    setImageUrl('');
+    setIsAskingForImage(false);
+  };
+
+  return (
+    <div className="absolute left-4 top-1/2 transform -translate-y-1/2 z-40 flex items-start gap-2">
+      <div className="flex flex-col gap-1 p-1.5 bg-white rounded-xl shadow-lg border border-gray-200">
+        {TOOLS.map(({ label, icon: Icon, request }) => (
+          <button
+            key={label}
+            onClick={() => onAdd(request)}
+            className="p-2 rounded-lg text-gray-700 hover:bg-gray-100 transition-colors"
+            title={label}
+          >
+            <Icon className="w-5 h-5" />
+          </button>
+        ))}
+        <button
+          onClick={() => setIsAskingForImage(prev => !prev)}
+          className={`p-2 rounded-lg transition-colors ${isAskingForImage ? 'bg-blue-100 text-blue-700' : 'text-gray-700 hover:bg-gray-100'}`}
+          title="Image from a URL"
+        >
+          <Image className="w-5 h-5" />
+        </button>
+        <div className="my-1 border-t border-gray-200" />
+        {BOARD_TOOLS.map(({ label, icon: Icon, tool }) => (
+          <button
+            key={tool}
+            onClick={() => onToolChange(activeTool === tool ? null : tool)}
+            className={`p-2 rounded-lg transition-colors ${activeTool === tool ? 'bg-blue-100 text-blue-700' : 'text-gray-700 hover:bg-gray-100'}`}
+            title={activeTool === tool ? `${label} (Esc to stop)` : label}
+          >
+            <Icon className="w-5 h-5" />
+          </button>
+        ))}
+        <div className="my-1 border-t border-gray-200" />
+        <button
+          onClick={onUndo}
+          disabled={!canUndo}
+          className="p-2 rounded-lg text-gray-700 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent transition-colors"
+          title={`Undo (${MOD_KEY}Z)`}
+        >
+          <Undo2 className="w-5 h-5" />
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={!canRedo}
+          className="p-2 rounded-lg text-gray-700 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent transition-colors"
+          title={`Redo (${MOD_KEY}Shift+Z)`}
+        >
+          <Redo2 className="w-5 h-5" />
+        </button>
+      </div>
+      {(activeTool === 'pen' || activeTool === 'highlighter') && (
+        <div className="flex flex-col gap-1 p-1.5 bg-white rounded-xl shadow-lg border border-gray-200">
+          {INK_COLORS[activeTool].map(color => (
+            <button
+              key={color}
+              onClick={() => onInkColorChange(activeTool, color)}
+              className={`w-6 h-6 rounded-full border-2 ${inkColors[activeTool] === color ? 'border-blue-500' : 'border-white shadow'}`}
+              style={{ backgroundColor: color }}
+              title={color}
+            />
+          ))}
+        </div>
+      )}
+      {isAskingForImage && (
+        <form onSubmit={handleImageSubmit} className="flex items-center gap-1 p-2 bg-white rounded-xl shadow-lg border border-gray-200">
+          <input
+            autoFocus
+            type="url"
+            value={imageUrl}
+            onChange={e => setImageUrl(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Escape') setIsAskingForImage(false);
+            }}
+            placeholder="https://…"
+            className="w-64 px-2 py-1 rounded border border-gray-300 text-sm outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={!imageUrl.trim()}
+            className="px-2 py-1 rounded text-sm text-blue-600 hover:bg-blue-100 disabled:text-gray-400 disabled:hover:bg-transparent"
+          >
+            Add
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
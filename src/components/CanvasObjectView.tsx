@@ -0,0 +1,297 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import type { CanvasObject, CanvasObjectUpdate, ShapeObject } from '../types/canvas';
+import type { CanvasInteractionStart } from '../lib/canvasGeometry';
+import { inkPadding, strokeNaturalSize } from '../lib/inkGeometry';
+import { InkStroke } from './InkStroke';
+
+// Smallest size a resize can shrink an object to
+const MIN_OBJECT_SIZE = { width: 40, height: 24 };
+
+// Colours offered under a hovered object: fills for notes, shapes and frames, ink for plain text and strokes
+const FILL_SWATCHES = ['#fef08a', '#fbcfe8', '#bbf7d0', '#bfdbfe', '#e9d5ff', '#ffffff'];
+const TEXT_SWATCHES = ['#111827', '#dc2626', '#2563eb', '#16a34a', '#9333ea'];
+
+// Shape outlines drawn into a 100x100 viewBox stretched over the object
+const ShapeOutline: React.FC<{ object: ShapeObject }> = ({ object }) => {
+  const { fill = 'transparent', stroke = '#3b82f6', strokeWidth = 2 } = object.style;
+  const common = { fill, stroke, strokeWidth, vectorEffect: 'non-scaling-stroke' as const };
+  return (
+    <svg className="absolute inset-0 w-full h-full" viewBox="0 0 100 100" preserveAspectRatio="none">
+      {object.shape === 'ellipse' && <ellipse cx="50" cy="50" rx="49" ry="49" {...common} />}
+      {object.shape === 'triangle' && <polygon points="50,1 99,99 1,99" {...common} />}
+      {object.shape === 'diamond' && <polygon points="50,1 99,50 50,99 1,50" {...common} />}
+      {object.shape === 'rectangle' && <rect x="1" y="1" width="98" height="98" rx="4" {...common} />}
+    </svg>
+  );
+};
+
+interface CanvasObjectViewProps {
+  object: CanvasObject;
+  isSelected?: boolean;
+  // Pressed to drag it; the room decides what else is selected along with it
+  onSelect?: (id: string) => void;
+  onMove: (id: string, position: { x: number; y: number }) => void;
+  onResize: (id: string, size: { width: number; height: number }) => void;
+  // A drag or resize has finished; gets where it started, so the whole gesture can be undone at once
+  onInteractionEnd?: (id: string, start: CanvasInteractionStart) => void;
+  onChange: (id: string, update: CanvasObjectUpdate) => void;
+  onDelete: (id: string) => void;
+}
+
+// One whiteboard object: drag to move, drag the corner to resize, double-click to edit its text
+const CanvasObjectView: React.FC<CanvasObjectViewProps> = ({
+  object,
+  isSelected = false,
+  onSelect,
+  onMove,
+  onResize,
+  onInteractionEnd,
+  onChange,
+  onDelete
+}) => {
+  const [isHovered, setIsHovered] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const elementRef = useRef<HTMLDivElement>(null);
+  // Document listeners outlive the render that attached them, so live values are read from refs
+  const interactionRef = useRef<{
+    mode: 'drag' | 'resize';
+    startX: number;
+    startY: number;
+    startPosition: { x: number; y: number };
+    startSize: { width: number; height: number };
+    scale: number;
+  } | null>(null);
+  const callbacksRef = useRef({ onMove, onResize, onInteractionEnd });
+  callbacksRef.current = { onMove, onResize, onInteractionEnd };
+  const { id, position, size, rotation, zIndex, style } = object;
+
+  const handleMouseMove = useCallback((e: MouseEvent) => {
+    const interaction = interactionRef.current;
+    if (!interaction) return;
+    // Mouse deltas are in screen pixels; the object lives in the scaled canvas
+    const deltaX = (e.clientX - interaction.startX) / interaction.scale;
+    const deltaY = (e.clientY - interaction.startY) / interaction.scale;
+
+    if (interaction.mode === 'drag') {
+      callbacksRef.current.onMove(id, {
+        x: interaction.startPosition.x + deltaX,
+        y: interaction.startPosition.y + deltaY
+      });
+    } else {
+      callbacksRef.current.onResize(id, {
+        width: Math.max(MIN_OBJECT_SIZE.width, interaction.startSize.width + deltaX),
+        height: Math.max(MIN_OBJECT_SIZE.height, interaction.startSize.height + deltaY)
+      });
+    }
+  }, [id]);
+
+  const handleMouseUp = useCallback(() => {
+    const interaction = interactionRef.current;
+    if (interaction) {
+      callbacksRef.current.onInteractionEnd?.(id, {
+        mode: interaction.mode,
+        position: interaction.startPosition,
+        size: interaction.startSize
+      });
+    }
+    interactionRef.current = null;
+    setIsDragging(false);
+    document.removeEventListener('mousemove', handleMouseMove);
+    document.removeEventListener('mouseup', handleMouseUp);
+  }, [id, handleMouseMove]);
+
+  const startInteraction = (e: React.MouseEvent, mode: 'drag' | 'resize') => {
+    if (e.button !== 0 || e.shiftKey) return; // Left button only; shift+drag pans the canvas
+    e.stopPropagation();
+    if (mode === 'drag') onSelect?.(id);
+    const element = elementRef.current;
+    const rect = element?.getBoundingClientRect();
+    interactionRef.current = {
+      mode,
+      startX: e.clientX,
+      startY: e.clientY,
+      startPosition: position,
+      startSize: size,
+      scale: element && rect && element.offsetWidth ? rect.width / element.offsetWidth : 1
+    };
+    setIsDragging(true);
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    // Editing fields and buttons keep their own mouse behavior
+    if (e.target instanceof HTMLElement && e.target.closest('button, a, textarea, input')) return;
+    startInteraction(e, 'drag');
+  };
+
+  useEffect(() => {
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [handleMouseMove, handleMouseUp]);
+
+  const textStyle: React.CSSProperties = {
+    color: style.textColor,
+    fontSize: style.fontSize
+  };
+
+  // Images and strokes have no text; frames edit their title, everything else its body
+  const editableText = object.type === 'frame'
+    ? object.title
+    : object.type === 'image' || object.type === 'stroke' ? null : object.text;
+  const saveText = (value: string) => {
+    onChange(id, object.type === 'frame' ? { title: value } : { text: value });
+  };
+
+  const renderText = (className: string) => {
+    if (editableText === null) return null;
+    if (isEditing) {
+      return (
+        <textarea
+          autoFocus
+          // Every keystroke is merged character by character, so others can type in the same text at once
+          value={editableText}
+          onChange={e => saveText(e.target.value)}
+          onBlur={() => setIsEditing(false)}
+          onKeyDown={e => {
+            if (e.key === 'Escape' || (e.key === 'Enter' && (e.metaKey || e.ctrlKey))) {
+              e.currentTarget.blur();
+            }
+          }}
+          className={`${className} w-full h-full resize-none bg-transparent outline-none`}
+          style={textStyle}
+        />
+      );
+    }
+    return (
+      <div className={`${className} whitespace-pre-wrap break-words`} style={textStyle}>
+        {editableText || (isHovered && <span className="opacity-40">Double-click to edit</span>)}
+      </div>
+    );
+  };
+
+  // Images have nothing to colour
+  const swatchStyleKey = object.type === 'image'
+    ? null
+    : object.type === 'text' ? 'textColor' : object.type === 'stroke' ? 'stroke' : 'fill';
+  const renderSwatches = () => {
+    if (!swatchStyleKey) return null;
+    const swatches = swatchStyleKey === 'fill' ? FILL_SWATCHES : TEXT_SWATCHES;
+    return (
+      <div className="absolute top-full left-0 pt-1">
+        <div className="flex gap-1 p-1 bg-white rounded-full shadow border border-gray-200">
+          {swatches.map(color => (
+            <button
+              key={color}
+              onClick={() => onChange(id, { style: { ...style, [swatchStyleKey]: color } })}
+              className={`w-4 h-4 rounded-full border ${style[swatchStyleKey] === color ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-300'}`}
+              style={{ backgroundColor: color }}
+              title={color}
+            />
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderBody = () => {
+    switch (object.type) {
+      case 'sticky_note':
+        return (
+          <div className="w-full h-full p-3 shadow-md" style={{ backgroundColor: style.fill }}>
+            {renderText('w-full h-full')}
+          </div>
+        );
+      case 'text':
+        return renderText('w-full h-full');
+      case 'shape':
+        return (
+          <>
+            <ShapeOutline object={object} />
+            <div className="relative w-full h-full flex items-center justify-center p-2 text-center">
+              {renderText('w-full')}
+            </div>
+          </>
+        );
+      case 'image':
+        return object.src ? (
+          <img src={object.src} alt={object.alt} draggable={false} className="w-full h-full object-contain select-none" />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center bg-gray-100 text-sm text-gray-500">No image</div>
+        );
+      case 'frame':
+        return (
+          <div
+            className="w-full h-full rounded-lg"
+            style={{ border: `${style.strokeWidth ?? 2}px dashed ${style.stroke ?? '#9ca3af'}`, backgroundColor: style.fill }}
+          >
+            <div className="absolute -top-7 left-0 h-6 max-w-full">{renderText('px-1 truncate font-medium')}</div>
+          </div>
+        );
+      case 'stroke': {
+        // Points are in the space the stroke was drawn in, which stretches with the object
+        const natural = strokeNaturalSize(object.points, inkPadding(style.strokeWidth ?? 4));
+        return (
+          <InkStroke tool={object.tool} points={object.points} style={style} viewBox={`0 0 ${natural.width} ${natural.height}`} />
+        );
+      }
+    }
+  };
+
+  return (
+    <div
+      ref={elementRef}
+      className="absolute"
+      style={{
+        left: position.x,
+        top: position.y,
+        width: size.width,
+        height: size.height,
+        transform: `rotate(${rotation}deg)`,
+        transformOrigin: 'center center',
+        zIndex,
+        opacity: style.opacity,
+        cursor: isEditing ? 'text' : isDragging ? 'grabbing' : 'grab',
+        outline: isSelected
+          ? '2px solid #2563eb'
+          : isHovered && !isEditing ? '1px solid rgba(59, 130, 246, 0.6)' : undefined
+      }}
+      data-board-item-id={id}
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+      onMouseDown={handleMouseDown}
+      onDoubleClick={() => {
+        if (editableText !== null) setIsEditing(true);
+      }}
+    >
+      {renderBody()}
+      {isHovered && !isEditing && (
+        <>
+          <button
+            onClick={() => onDelete(id)}
+            className="absolute -top-3 -right-3 w-6 h-6 rounded-full bg-white shadow border border-gray-200 flex items-center justify-center text-gray-500 hover:text-red-600"
+            title="Delete"
+          >
+            <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+          <div
+            className="absolute bottom-0 right-0 w-4 h-4 cursor-se-resize"
+            onMouseDown={e => startInteraction(e, 'resize')}
+          >
+            <svg className="w-4 h-4 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16l8-8M8 8h8v8" />
+            </svg>
+          </div>
+          {renderSwatches()}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CanvasObjectView;
@@ -1,25 +1,117 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Send } from 'lucide-react';
+import { Send, Columns2, Hand, X } from 'lucide-react';
+import { CommandRegistry, parseCommand } from '../services/commandRegistry';
+import { ChatInputService, type ChatTurn } from '../services/chatInputService';
+import { AIPersonaService } from '../services/aiPersonaService';
+import type { CommandContext } from '../types/commands';
 
 interface CommandInputProps {
   onSubmit: (message: string) => void;
+  // Compare mode sends the prompt to every provider; rejects with a message to show
+  onCompare?: (message: string) => Promise<void>;
+  // Slash commands run against this instead of going to the AI as a prompt
+  commandContext: CommandContext;
   onClose: () => void;
   roomId: string;
   userId: string;
-  isLocked?: boolean;
-  lockedBy?: string | null;
+  // The host can move people to the front of the turn queue or take them out
+  isHost?: boolean;
+  participants?: Array<{ userId: string; displayName: string }>;
 }
 
 export const CommandInput: React.FC<CommandInputProps> = ({
   onSubmit,
+  onCompare,
+  commandContext,
   onClose,
   roomId,
   userId,
-  isLocked = false,
-  lockedBy = null
+  isHost = false,
+  participants = []
 }) => {
   const [message, setMessage] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [isCompareMode, setIsCompareMode] = useState(false);
+  const [queue, setQueue] = useState<ChatTurn[]>([]);
+  const [personaName, setPersonaName] = useState('');
   const inputRef = useRef<HTMLInputElement>(null);
+  const chatInputRef = useRef<ChatInputService | null>(null);
+
+  // Only the participant at the front of the queue can ask
+  const position = queue.findIndex(turn => turn.userId === userId);
+  const isLocked = position !== 0;
+  const holder = queue[0];
+  const nameOf = (id: string) =>
+    id === userId ? 'You' : participants.find(p => p.userId === id)?.displayName ?? 'Someone';
+
+  // Take the input straight away when nobody holds it; otherwise wait for a raised hand
+  useEffect(() => {
+    const service = new ChatInputService(roomId, userId, isHost);
+    chatInputRef.current = service;
+    let isFirstLoad = true;
+
+    const unsubscribe = service.subscribeToChatInputState((turns) => {
+      setQueue(turns);
+      if (isFirstLoad) {
+        isFirstLoad = false;
+        if (turns.length === 0) {
+          service.raiseHand().catch(() => {});
+        }
+      }
+    });
+    service.startPolling(() => {
+      setError('You were idle, so the turn passed on. Raise your hand to ask again.');
+    });
+
+    return () => {
+      unsubscribe();
+      service.lowerHand().catch(() => {});
+      service.cleanup();
+      if (chatInputRef.current === service) {
+        chatInputRef.current = null;
+      }
+    };
+  }, [roomId, userId, isHost]);
+
+  // Name the room's persona in the placeholder so everyone knows who they are asking
+  useEffect(() => {
+    AIPersonaService.getPersona(roomId)
+      .then(persona => setPersonaName(persona.name))
+      .catch(error => console.error('Failed to load AI persona:', error));
+    const channel = AIPersonaService.subscribeToPersona(roomId, persona => setPersonaName(persona.name));
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [roomId]);
+
+  useEffect(() => {
+    if (!isLocked) {
+      inputRef.current?.focus();
+    }
+  }, [isLocked]);
+
+  const handleRaiseHand = async () => {
+    try {
+      setError(null);
+      await chatInputRef.current?.raiseHand();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to join the queue');
+    }
+  };
+
+  const handleQueueAction = async (action: () => Promise<void> | undefined) => {
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the queue');
+    }
+  };
+
+  // Suggest commands while the first word is still being typed
+  const typedCommand = message.match(/^\/(\S*)$/);
+  const suggestions = typedCommand ? CommandRegistry.search(typedCommand[1]) : [];
+  const activeIndex = Math.min(selectedIndex, Math.max(suggestions.length - 1, 0));
 
   useEffect(() => {
     if (inputRef.current) {
@@ -27,20 +119,62 @@ export const CommandInput: React.FC<CommandInputProps> = ({
     }
   }, []);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const completeCommand = (name: string) => {
+    setMessage(`/${name} `);
+    setSelectedIndex(0);
+    inputRef.current?.focus();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!message.trim() || isLocked) return;
-    onSubmit(message.trim());
+
+    const parsed = parseCommand(message);
+    if (parsed) {
+      const command = CommandRegistry.get(parsed.name);
+      if (!command) {
+        setError(`Unknown command /${parsed.name}`);
+        return;
+      }
+      try {
+        await command.execute(parsed.args, commandContext);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : `/${parsed.name} failed`);
+        return;
+      }
+    } else if (isCompareMode && onCompare) {
+      try {
+        await onCompare(message.trim());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Compare failed');
+        return;
+      }
+    } else {
+      onSubmit(message.trim());
+    }
     setMessage('');
+    // Pass the turn to whoever is next
+    chatInputRef.current?.stopTyping();
     onClose();
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Escape') {
       onClose();
+    } else if (suggestions.length > 0 && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setSelectedIndex((activeIndex + step + suggestions.length) % suggestions.length);
+    } else if (suggestions.length > 0 && e.key === 'Tab') {
+      e.preventDefault();
+      completeCommand(suggestions[activeIndex].name);
     } else if (e.key === 'Enter') {
       e.preventDefault();
-      if (message.trim() && !isLocked) {
+      // Enter on a partly typed command picks the highlighted suggestion first
+      const exactMatch = typedCommand && CommandRegistry.get(typedCommand[1]);
+      if (suggestions.length > 0 && !exactMatch) {
+        completeCommand(suggestions[activeIndex].name);
+      } else if (message.trim() && !isLocked) {
         handleSubmit(e as unknown as React.FormEvent);
       }
     }
@@ -51,6 +185,71 @@ export const CommandInput: React.FC<CommandInputProps> = ({
       className="fixed z-50 left-1/2 bottom-24 transform -translate-x-1/2 flex flex-col items-center w-full"
       style={{ minWidth: 0 }}
     >
+      {suggestions.length > 0 && (
+        <ul
+          className="w-full max-w-3xl mb-2 bg-white rounded-lg shadow border border-gray-200 py-1 overflow-hidden"
+          style={{ minWidth: 420, maxWidth: 700 }}
+        >
+          {suggestions.map((command, index) => (
+            <li key={command.name}>
+              <button
+                type="button"
+                onMouseDown={e => e.preventDefault()}
+                onClick={() => completeCommand(command.name)}
+                className={`w-full flex items-baseline gap-3 px-4 py-2 text-left ${
+                  index === activeIndex ? 'bg-blue-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <span className="font-medium text-gray-900">/{command.name}</span>
+                {command.usage && <span className="text-sm text-gray-400">{command.usage}</span>}
+                <span className="ml-auto text-sm text-gray-500">{command.description}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {queue.length > 0 && (
+        <div
+          className="w-full max-w-3xl mb-2 flex flex-wrap items-center gap-2 text-sm"
+          style={{ minWidth: 420, maxWidth: 700 }}
+        >
+          {queue.map((turn, index) => (
+            <span
+              key={turn.userId}
+              className={`flex items-center gap-1 px-2.5 py-1 rounded-full border ${
+                index === 0 ? 'bg-green-50 border-green-200 text-green-700' : 'bg-white border-gray-200 text-gray-600'
+              }`}
+            >
+              {index === 0 ? (turn.isTyping ? '✍️' : '🎤') : `#${index}`} {nameOf(turn.userId)}
+              {isHost && index > 0 && (
+                <button
+                  type="button"
+                  onClick={() => handleQueueAction(() => chatInputRef.current?.giveTurnTo(turn.userId))}
+                  className="ml-1 text-xs text-blue-600 hover:underline"
+                  title="Let them ask now"
+                >
+                  Give turn
+                </button>
+              )}
+              {isHost && turn.userId !== userId && (
+                <button
+                  type="button"
+                  onClick={() => handleQueueAction(() => chatInputRef.current?.removeFromQueue(turn.userId))}
+                  className="text-gray-400 hover:text-gray-700"
+                  title="Remove from queue"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
+      {error && (
+        <div className="mb-2 px-3 py-1.5 rounded-lg bg-red-50 border border-red-100 text-sm text-red-600">
+          {error}
+        </div>
+      )}
       <form
         onSubmit={handleSubmit}
         className="flex items-center w-full max-w-3xl bg-white rounded-lg shadow border border-gray-200 px-4 py-3"
@@ -60,13 +259,53 @@ export const CommandInput: React.FC<CommandInputProps> = ({
           ref={inputRef}
           type="text"
           value={message}
-          onChange={e => setMessage(e.target.value)}
+          onChange={e => {
+            setMessage(e.target.value);
+            setError(null);
+            if (!message && e.target.value) {
+              chatInputRef.current?.startTyping();
+            } else {
+              chatInputRef.current?.updateActivity();
+            }
+          }}
           onKeyDown={handleKeyDown}
-          placeholder={isLocked ? (lockedBy ? `Locked by ${lockedBy}` : 'Input locked') : 'Ask the AI assistant…'}
+          placeholder={isLocked
+            ? position > 0
+              ? `You're #${position} in line${holder ? ` · ${nameOf(holder.userId)} is asking` : ''}`
+              : holder ? `${nameOf(holder.userId)} is asking · raise your hand to go next` : 'Waiting for a turn…'
+            : isCompareMode ? 'Ask every AI provider…' : `Ask ${personaName || 'the AI assistant'}… or type / for commands`}
           disabled={isLocked}
           className="flex-1 bg-transparent outline-none border-none text-lg placeholder-gray-400 px-4 h-14"
           style={{ minWidth: 0 }}
         />
+        {isLocked && (
+          <button
+            type="button"
+            onClick={position > 0 ? () => handleQueueAction(() => chatInputRef.current?.lowerHand()) : handleRaiseHand}
+            className={`ml-2 px-3 h-12 rounded-lg transition-colors flex items-center gap-1.5 text-sm font-medium ${
+              position > 0 ? 'bg-amber-100 text-amber-700 hover:bg-amber-200' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+            title={position > 0 ? 'Leave the queue' : 'Ask to go next'}
+          >
+            <Hand className="w-5 h-5" />
+            {position > 0 ? 'Lower hand' : 'Raise hand'}
+          </button>
+        )}
+        {onCompare && (
+          <button
+            type="button"
+            onClick={() => {
+              setIsCompareMode(prev => !prev);
+              inputRef.current?.focus();
+            }}
+            className={`ml-2 p-3 rounded-lg transition-colors flex items-center justify-center h-12 w-12 ${
+              isCompareMode ? 'bg-purple-100 text-purple-600 hover:bg-purple-200' : 'text-gray-400 hover:text-gray-700 hover:bg-gray-100'
+            }`}
+            title={isCompareMode ? 'Compare mode on: every provider answers' : 'Compare providers'}
+          >
+            <Columns2 className="w-6 h-6" />
+          </button>
+        )}
         <button
           type="submit"
           disabled={!message.trim() || isLocked}
@@ -1,27 +1,38 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Video, VideoOff, Bot, Loader2 } from 'lucide-react';
+import React, { useState } from 'react';
+import { Video, VideoOff, Bot, Loader2, Settings } from 'lucide-react';
 import { CommandInput } from './CommandInput';
 import { RecordingShareModal } from './RecordingShareModal';
-import { AIService } from '../services/apiService';
+import { AIProviderModal } from './AIProviderModal';
+import { AIService, AIRequestError } from '../services/apiService';
+import type { AIResponseUpdate } from '../types/room';
+import type { AskAIOptions, CommandContext } from '../types/commands';
 import { useScreenRecording } from '../hooks/useScreenRecording';
 
 interface FloatingToolbarProps {
   isHost: boolean;
   roomId: string;
   userId: string;
-  onAIResponse: (response: { content: string; fromUserId: string }) => void;
-  apiKey?: string; // Optional API key for host
+  // Names for the turn queue shown above the command input
+  participants?: Array<{ userId: string; displayName: string }>;
+  aiService: React.MutableRefObject<AIService | null>;
+  onAIResponse: (response: AIResponseUpdate) => void;
+  onClearMyAIResponses?: () => void;
+  // Called after the host closes the provider modal, which may have changed keys
+  onAISettingsChange?: () => void;
 }
 
 export const FloatingToolbar: React.FC<FloatingToolbarProps> = ({
   isHost,
   roomId,
   userId,
+  participants,
+  aiService,
   onAIResponse,
-  apiKey
+  onClearMyAIResponses,
+  onAISettingsChange
 }) => {
   const [isCommandInputOpen, setIsCommandInputOpen] = useState(false);
-  const aiService = useRef<AIService | null>(null);
+  const [isAISettingsOpen, setIsAISettingsOpen] = useState(false);
 
   // Use the new screen recording hook
   const {
@@ -33,13 +44,93 @@ export const FloatingToolbar: React.FC<FloatingToolbarProps> = ({
     clearRecording
   } = useScreenRecording();
 
-  useEffect(() => {
-    // Initialize AI service
-    aiService.current = new AIService(roomId, userId, isHost, apiKey);
-    return () => {
-      aiService.current?.cleanup();
-    };
-  }, [roomId, userId, isHost, apiKey]);
+  // Stream an answer into a new card, reporting queue position, cancellation and errors
+  const askAI = async (message: string, options: AskAIOptions & { groupId?: string; groupIndex?: number } = {}) => {
+    const id = crypto.randomUUID();
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    const { groupId, groupIndex } = options;
+    const startedAt = performance.now();
+    let streamed = '';
+    onAIResponse({
+      id,
+      content: '',
+      fromUserId: userId,
+      status: 'streaming',
+      prompt: message,
+      provider: options.provider,
+      groupId,
+      groupIndex,
+      cancel
+    });
+    try {
+      if (!aiService.current) throw new Error('AI service not initialized');
+      const result = await aiService.current.sendRequest(message, {
+        signal: controller.signal,
+        provider: options.provider,
+        // Compare-mode answers stay text-only, so one prompt does not change the board once per provider
+        canvasTools: !groupId,
+        onQueuePosition: (position) => {
+          onAIResponse({ id, content: streamed, fromUserId: userId, status: 'streaming', queuePosition: position, cancel });
+        },
+        onChunk: (_delta, content) => {
+          streamed = content;
+          onAIResponse({ id, content, fromUserId: userId, status: 'streaming', cancel });
+        }
+      });
+      onAIResponse({
+        id,
+        content: result.content,
+        fromUserId: userId,
+        status: 'done',
+        provider: result.provider,
+        latencyMs: Math.round(performance.now() - startedAt),
+        citations: result.citations
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        onAIResponse({ id, content: streamed, fromUserId: userId, status: 'cancelled' });
+        return;
+      }
+      console.error('Failed to send AI request:', error);
+      const content = error instanceof AIRequestError
+        ? error.message
+        : 'Failed to send AI request. Please try again.';
+      onAIResponse({ id, content, fromUserId: userId, status: 'error' });
+    }
+  };
+
+  // Fan one prompt out to every provider with a key; the answers land side by side as one group
+  const compareAI = async (message: string) => {
+    const providers = await aiService.current?.getAvailableProviders() ?? [];
+    if (providers.length < 2) {
+      throw new Error('Compare mode needs keys for at least two AI providers.');
+    }
+    const groupId = crypto.randomUUID();
+    providers.forEach((provider, groupIndex) => {
+      askAI(message, { provider, groupId, groupIndex });
+    });
+  };
+
+  const commandContext: CommandContext = {
+    roomId,
+    userId,
+    askAI: (prompt, options) => {
+      askAI(prompt, options);
+    },
+    compareAI,
+    createNote: (content) => {
+      onAIResponse({ id: crypto.randomUUID(), content, fromUserId: userId, status: 'done' });
+    },
+    clearMyCards: () => {
+      onClearMyAIResponses?.();
+    }
+  };
+
+  const handleAISettingsClose = () => {
+    setIsAISettingsOpen(false);
+    onAISettingsChange?.();
+  };
 
   // Add a handler for when the modal is closed
   const handleRecordingModalClose = () => {
@@ -94,35 +185,40 @@ export const FloatingToolbar: React.FC<FloatingToolbarProps> = ({
             <Video className="w-5 h-5" />
           )}
         </button>
+        <button
+          onClick={() => setIsCommandInputOpen(true)}
+          className="p-2 rounded-full bg-blue-100 text-blue-600 hover:bg-blue-200 transition-colors"
+          title="Ask AI"
+        >
+          <Bot className="w-5 h-5" />
+        </button>
         {isHost && (
           <button
-            onClick={() => setIsCommandInputOpen(true)}
-            className="p-2 rounded-full bg-blue-100 text-blue-600 hover:bg-blue-200 transition-colors"
-            title="Ask AI"
+            onClick={() => setIsAISettingsOpen(true)}
+            className="p-2 rounded-full bg-gray-100 text-gray-600 hover:bg-gray-200 transition-colors"
+            title="AI Settings"
           >
-            <Bot className="w-5 h-5" />
+            <Settings className="w-5 h-5" />
           </button>
         )}
       </div>
+      <AIProviderModal
+        isOpen={isAISettingsOpen}
+        onClose={handleAISettingsClose}
+        roomId={roomId}
+        userId={userId}
+        isHost={isHost}
+      />
       {isCommandInputOpen && (
         <CommandInput
-          onSubmit={async (message: string) => {
-            if (import.meta.env.DEV) {
-              onAIResponse({ content: `Test response card: ${message}`, fromUserId: userId });
-              return;
-            }
-            try {
-              if (!aiService.current) throw new Error('AI service not initialized');
-              const response = await aiService.current.sendRequest(message);
-              onAIResponse({ content: response, fromUserId: userId });
-            } catch (error) {
-              console.error('Failed to send AI request:', error);
-              alert('Failed to send AI request. Please try again.');
-            }
-          }}
+          onSubmit={message => askAI(message)}
+          onCompare={compareAI}
+          commandContext={commandContext}
           onClose={() => setIsCommandInputOpen(false)}
           roomId={roomId}
           userId={userId}
+          isHost={isHost}
+          participants={participants}
         />
       )}
       {recordedBlob && (
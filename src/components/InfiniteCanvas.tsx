@@ -1,5 +1,17 @@
 import React, { useRef, useState, useCallback, useEffect } from 'react';
 import type { CursorPosition } from '../services/cursorService';
+import {
+  CANVAS_SIZE,
+  MAX_CANVAS_SCALE,
+  MIN_CANVAS_SCALE,
+  centeredOn,
+  fitTransform,
+  visibleArea,
+  type BoardBox,
+  type CanvasTransform
+} from '../lib/canvasGeometry';
+import { boundsOf, rectBetween, type BoardRect } from '../lib/selectionGeometry';
+import { Minimap } from './Minimap';
 
 // HybridCursorTracker interface for TypeScript
 interface HybridCursorTracker {
@@ -29,21 +41,48 @@ interface InfiniteCanvasProps {
   cursorTracker?: HybridCursorTracker | null;
   otherCursors?: CursorPosition[];
   onCursorUpdate?: (cursors: CursorPosition[]) => void;
+  // Called after every pan and zoom, e.g. to place new objects in view
+  onTransformChange?: (transform: CanvasTransform) => void;
+  // Dragging across empty board draws a marquee; gets the area it covered, in board coordinates
+  onMarqueeSelect?: (rect: BoardRect) => void;
+  // A press that did not drag: plainly on empty board (null), or with shift on an element marked data-board-item-id
+  onSelectionClick?: (itemId: string | null, additive: boolean) => void;
+  // Everything on the board, for the minimap and zooming to fit; no minimap without it
+  contentBoxes?: BoardBox[];
 }
 
-interface Transform {
-  x: number;
-  y: number;
-  scale: number;
-}
+// Screen pixels a press may move and still count as a click
+const CLICK_SLOP = 4;
+
+// Board space kept around the content when zooming to fit it
+const FIT_MARGIN = 80; // px
 
-export function InfiniteCanvas({ roomId, userId, currentUser, children, onMouseMove, cursorTracker, otherCursors = [] }: InfiniteCanvasProps) {
+export function InfiniteCanvas({ roomId, userId, currentUser, children, onMouseMove, cursorTracker, otherCursors = [], onTransformChange, onMarqueeSelect, onSelectionClick, contentBoxes }: InfiniteCanvasProps) {
   console.log('🚀 InfiniteCanvas rendering');
   
   const containerRef = useRef<HTMLDivElement>(null);
-  const [transform, setTransform] = useState<Transform>({ x: 0, y: 0, scale: 1 });
+  const boardRef = useRef<HTMLDivElement>(null);
+  const [transform, setTransform] = useState<CanvasTransform>({ x: 0, y: 0, scale: 1 });
+  const onTransformChangeRef = useRef(onTransformChange);
+  onTransformChangeRef.current = onTransformChange;
+
+  useEffect(() => {
+    onTransformChangeRef.current?.(transform);
+  }, [transform]);
   const [isPanning, setIsPanning] = useState(false);
   const [lastPanPoint, setLastPanPoint] = useState({ x: 0, y: 0 });
+  // Where the current press began on screen, and the item under it, to tell clicks from drags
+  const pressRef = useRef<{ x: number; y: number; itemId: string | null } | null>(null);
+  // Corners of the marquee being dragged, in board coordinates
+  const [marquee, setMarquee] = useState<{ start: { x: number; y: number }; end: { x: number; y: number } } | null>(null);
+  // The container fills the window; its size decides how much of the board is in view
+  const [screenSize, setScreenSize] = useState({ width: window.innerWidth, height: window.innerHeight });
+
+  useEffect(() => {
+    const handleResize = () => setScreenSize({ width: window.innerWidth, height: window.innerHeight });
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
   const [currentCursorPos, setCurrentCursorPos] = useState<{ x: number; y: number } | null>(null);
   
   // Get connection status for debug display
@@ -58,7 +97,7 @@ export function InfiniteCanvas({ roomId, userId, currentUser, children, onMouseM
     e.preventDefault();
     const zoomFactor = 1 - e.deltaY * 0.0003; // Much more reduced sensitivity
     setTransform(prev => {
-      const newScale = Math.max(1.0, Math.min(5, prev.scale * zoomFactor));
+      const newScale = Math.max(MIN_CANVAS_SCALE, Math.min(MAX_CANVAS_SCALE, prev.scale * zoomFactor));
       const scaleChange = newScale / prev.scale;
       const newX = e.clientX - (e.clientX - prev.x) * scaleChange;
       const newY = e.clientY - (e.clientY - prev.y) * scaleChange;
@@ -66,15 +105,52 @@ export function InfiniteCanvas({ roomId, userId, currentUser, children, onMouseM
     });
   };
   
+  // Board coordinates of a point on screen; the board div's box scales with the zoom
+  const toBoardPoint = (clientX: number, clientY: number) => {
+    const rect = boardRef.current?.getBoundingClientRect();
+    const scale = rect && rect.width ? rect.width / CANVAS_SIZE : 1;
+    return { x: (clientX - (rect?.left ?? 0)) / scale, y: (clientY - (rect?.top ?? 0)) / scale };
+  };
+
   const handleMouseDown = (e: React.MouseEvent) => {
-    if (e.shiftKey && e.button === 0) {
+    if (e.button !== 0) return;
+    if (e.shiftKey) {
+      const item = e.target instanceof Element ? e.target.closest<HTMLElement>('[data-board-item-id]') : null;
+      pressRef.current = { x: e.clientX, y: e.clientY, itemId: item?.dataset.boardItemId ?? null };
       setIsPanning(true);
       setLastPanPoint({ x: e.clientX, y: e.clientY });
       e.preventDefault();
+    } else if (e.target === containerRef.current || e.target === boardRef.current) {
+      // Only empty board starts a marquee; items, tool layers and overlays handle their own presses
+      pressRef.current = { x: e.clientX, y: e.clientY, itemId: null };
+      const start = toBoardPoint(e.clientX, e.clientY);
+      setMarquee({ start, end: start });
+      e.preventDefault();
     }
   };
+
+  const wasClick = (e: React.MouseEvent) => {
+    const press = pressRef.current;
+    return !!press && Math.hypot(e.clientX - press.x, e.clientY - press.y) < CLICK_SLOP;
+  };
+
+  // Finish a marquee: a drag selects what it covered, a click on empty board lets go of everything
+  const finishMarquee = (e: React.MouseEvent) => {
+    if (!marquee) return;
+    if (wasClick(e)) {
+      onSelectionClick?.(null, false);
+    } else {
+      onMarqueeSelect?.(rectBetween(marquee.start, toBoardPoint(e.clientX, e.clientY)));
+    }
+    setMarquee(null);
+    pressRef.current = null;
+  };
   
   const handleMouseMove = (e: React.MouseEvent) => {
+    if (marquee) {
+      const end = toBoardPoint(e.clientX, e.clientY);
+      setMarquee(prev => prev && { ...prev, end });
+    }
     if (isPanning) {
       const deltaX = e.clientX - lastPanPoint.x;
       const deltaY = e.clientY - lastPanPoint.y;
@@ -100,16 +176,38 @@ export function InfiniteCanvas({ roomId, userId, currentUser, children, onMouseM
     }
   };
   
-  const handleMouseUp = () => {
-    if (isPanning) setIsPanning(false);
+  const handleMouseUp = (e: React.MouseEvent) => {
+    if (isPanning) {
+      // Shift+click without dragging adds an item to the selection, or takes it out
+      if (wasClick(e) && pressRef.current?.itemId) onSelectionClick?.(pressRef.current.itemId, true);
+      pressRef.current = null;
+      setIsPanning(false);
+    }
+    finishMarquee(e);
   };
 
-  const handleMouseLeave = () => {
+  const handleMouseLeave = (e: React.MouseEvent) => {
     if (isPanning) setIsPanning(false);
+    finishMarquee(e);
     // Hide current user's cursor when mouse leaves canvas
     setCurrentCursorPos(null);
   };
 
+  const marqueeRect = marquee && rectBetween(marquee.start, marquee.end);
+
+  const viewport = visibleArea(transform, screenSize);
+
+  // Centre the view on a point picked on the minimap, keeping the zoom
+  const handleNavigate = (point: { x: number; y: number }) => {
+    setTransform(prev => centeredOn(point, prev.scale));
+  };
+
+  // Show everything on the board; an empty board goes back to where the view starts
+  const handleZoomToFit = () => {
+    const content = boundsOf(contentBoxes ?? []);
+    setTransform(content ? fitTransform(content, screenSize, FIT_MARGIN) : { x: 0, y: 0, scale: 1 });
+  };
+
   return (
     <div 
       ref={containerRef}
@@ -134,6 +232,7 @@ export function InfiniteCanvas({ roomId, userId, currentUser, children, onMouseM
         <div className="mt-2 text-yellow-300">
           <div>🔍 Scroll: Zoom</div>
           <div>📍 Shift+Drag: Pan</div>
+          <div>⬚ Drag: Select · Shift+Click: Add</div>
         </div>
         <div className="mt-2 text-green-300">
           <div>🔗 Connection: {connectionStatus.webrtcConnected ? 'WebRTC' : 'Supabase'}</div>
@@ -172,8 +271,29 @@ export function InfiniteCanvas({ roomId, userId, currentUser, children, onMouseM
         </div>
       )}
       
+      {contentBoxes && (
+        <Minimap
+          boxes={contentBoxes}
+          cursors={[
+            ...otherCursors.map(cursor => ({ userId: cursor.userId, x: cursor.x, y: cursor.y, color: cursor.userColor })),
+            ...(currentCursorPos && currentUser
+              ? [{
+                  userId: currentUser.userId,
+                  x: viewport.x + currentCursorPos.x / transform.scale,
+                  y: viewport.y + currentCursorPos.y / transform.scale,
+                  color: currentUser.userColor
+                }]
+              : [])
+          ]}
+          viewport={viewport}
+          onNavigate={handleNavigate}
+          onZoomToFit={handleZoomToFit}
+        />
+      )}
+
       {/* INFINITE CANVAS CONTENT */}
       <div
+        ref={boardRef}
         className="absolute bg-white"
         style={{
           width: '25000px',
@@ -224,6 +344,20 @@ export function InfiniteCanvas({ roomId, userId, currentUser, children, onMouseM
         ))}
         
         {children}
+
+        {/* Marquee being dragged across empty board */}
+        {marqueeRect && (
+          <div
+            className="absolute pointer-events-none border border-blue-500 bg-blue-500/10"
+            style={{
+              left: marqueeRect.x,
+              top: marqueeRect.y,
+              width: marqueeRect.width,
+              height: marqueeRect.height,
+              zIndex: 999
+            }}
+          />
+        )}
       </div>
     </div>
   );
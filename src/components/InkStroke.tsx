@@ -0,0 +1,38 @@
+import React from 'react';
+import { strokeCenterPath, strokeOutlinePath } from '../lib/inkGeometry';
+import type { CanvasObjectStyle, InkTool, StrokePoint } from '../types/canvas';
+
+interface InkStrokeProps {
+  tool: InkTool;
+  points: StrokePoint[];
+  style: CanvasObjectStyle;
+  // Area of the points' coordinate space the svg shows, stretched over its box
+  viewBox: string;
+}
+
+// Pens draw a filled outline that swells with pressure; highlighters a flat, even line that darkens what is under it
+export const InkStroke: React.FC<InkStrokeProps> = ({ tool, points, style, viewBox }) => {
+  const color = style.stroke ?? '#111827';
+  const width = style.strokeWidth ?? 4;
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full overflow-visible pointer-events-none"
+      viewBox={viewBox}
+      preserveAspectRatio="none"
+      style={tool === 'highlighter' ? { mixBlendMode: 'multiply' } : undefined}
+    >
+      {tool === 'highlighter' ? (
+        <path
+          d={strokeCenterPath(points)}
+          fill="none"
+          stroke={color}
+          strokeWidth={width}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      ) : (
+        <path d={strokeOutlinePath(points, width)} fill={color} />
+      )}
+    </svg>
+  );
+};
@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { RefreshCw, Trash2 } from 'lucide-react';
+import { getLocalEndpoint, listLocalModels, setLocalEndpoint } from '../services/aiProviders';
+
+interface LocalEndpointSettingsProps {
+  onBack: () => void;
+  // Called after the endpoint is saved or removed
+  onChange: () => void;
+}
+
+// Points the local provider at an OpenAI-compatible server; saving requires it to answer /models
+export function LocalEndpointSettings({ onBack, onChange }: LocalEndpointSettingsProps) {
+  const existing = getLocalEndpoint();
+  const [baseUrl, setBaseUrl] = useState(existing?.baseUrl ?? 'http://localhost:11434/v1');
+  const [apiKey, setApiKey] = useState(existing?.apiKey ?? '');
+  const [model, setModel] = useState(existing?.model ?? '');
+  const [models, setModels] = useState<string[] | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const config = () => ({
+    baseUrl: baseUrl.trim().replace(/\/+$/, ''),
+    apiKey: apiKey.trim() || undefined,
+    model: model.trim() || undefined
+  });
+
+  // Reaching /models proves the URL is right and fills the model picker
+  const loadModels = async (): Promise<string[] | null> => {
+    setIsChecking(true);
+    setError(null);
+    try {
+      const available = await listLocalModels(config());
+      setModels(available);
+      if (!model && available.length > 0) {
+        setModel(available[0]);
+      }
+      return available;
+    } catch (err) {
+      console.error('Failed to list local models:', err);
+      setModels(null);
+      setError(`Could not reach ${baseUrl}. Check the URL and that the server allows requests from this page.`);
+      return null;
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!baseUrl.trim()) return;
+    if (!(await loadModels())) return;
+    setLocalEndpoint(config());
+    onChange();
+    onBack();
+  };
+
+  const handleRemove = () => {
+    setLocalEndpoint(null);
+    onChange();
+    onBack();
+  };
+
+  return (
+    <div className="space-y-4">
+      <h4 className="font-medium text-gray-900">Local Model Endpoint</h4>
+
+      <label className="block text-sm text-gray-700">
+        Base URL
+        <input
+          type="url"
+          value={baseUrl}
+          onChange={(e) => {
+            setBaseUrl(e.target.value);
+            setModels(null);
+          }}
+          placeholder="http://localhost:8080/v1"
+          className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+      </label>
+
+      <label className="block text-sm text-gray-700">
+        API key (optional)
+        <input
+          type="password"
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+          placeholder="Only if the server asks for one"
+          className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+      </label>
+
+      <div className="text-sm text-gray-700">
+        <div className="flex items-center justify-between">
+          <span>Model</span>
+          <button
+            onClick={loadModels}
+            disabled={isChecking || !baseUrl.trim()}
+            className="flex items-center gap-1 text-blue-500 hover:text-blue-600 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-3 h-3 ${isChecking ? 'animate-spin' : ''}`} />
+            Load models
+          </button>
+        </div>
+        {models && models.length > 0 ? (
+          <select
+            value={model}
+            onChange={(e) => setModel(e.target.value)}
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {models.map(id => (
+              <option key={id} value={id}>{id}</option>
+            ))}
+          </select>
+        ) : (
+          <input
+            type="text"
+            value={model}
+            onChange={(e) => setModel(e.target.value)}
+            placeholder="Server default"
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Prompts go straight from this browser to the server, never to a hosted AI vendor. While you are the AI relay,
+        other participants' questions are answered by it too.
+      </p>
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {existing && (
+          <button
+            onClick={handleRemove}
+            className="mr-auto px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg flex items-center gap-1"
+          >
+            <Trash2 className="w-4 h-4" />
+            Remove
+          </button>
+        )}
+        <button
+          onClick={onBack}
+          className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
+        >
+          Back
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!baseUrl.trim() || isChecking}
+          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isChecking ? 'Checking...' : 'Save Endpoint'}
+        </button>
+      </div>
+    </div>
+  );
+}
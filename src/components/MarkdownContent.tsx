@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeSanitize from 'rehype-sanitize';
+import rehypeHighlight from 'rehype-highlight';
+import type { Element, ElementContent, Root, RootContent } from 'hast';
+import { Check, Copy } from 'lucide-react';
+import 'highlight.js/styles/github.css';
+
+// Code blocks longer than this start collapsed
+const COLLAPSED_CODE_LINES = 15;
+// Heading sections with more text than this start collapsed, except the first
+const LONG_SECTION_CHARS = 800;
+
+const textOf = (node: Root | RootContent | ElementContent): string => {
+  if (node.type === 'text') return node.value;
+  if ('children' in node) return node.children.map(textOf).join('');
+  return '';
+};
+
+const isSectionHeading = (node: RootContent): node is Element =>
+  node.type === 'element' && ['h1', 'h2', 'h3'].includes(node.tagName);
+
+/**
+ * Wrap each long heading section in <details> so readers can fold it away. Runs after
+ * sanitizing, so the elements it adds are not stripped.
+ */
+function rehypeCollapsibleSections() {
+  return (tree: Root) => {
+    const children: RootContent[] = [];
+    let heading: Element | null = null;
+    let section: RootContent[] = [];
+    let sectionCount = 0;
+
+    const flush = () => {
+      if (!heading) {
+        children.push(...section);
+      } else if (section.map(textOf).join('').length > LONG_SECTION_CHARS) {
+        children.push({
+          type: 'element',
+          tagName: 'details',
+          properties: { open: sectionCount === 0 },
+          children: [
+            { type: 'element', tagName: 'summary', properties: {}, children: [heading] },
+            ...(section as ElementContent[])
+          ]
+        });
+        sectionCount++;
+      } else {
+        children.push(heading, ...section);
+        sectionCount++;
+      }
+      heading = null;
+      section = [];
+    };
+
+    tree.children.forEach(node => {
+      if (isSectionHeading(node)) {
+        flush();
+        heading = node;
+      } else {
+        section.push(node);
+      }
+    });
+    flush();
+
+    tree.children = children;
+  };
+}
+
+const CodeBlock: React.FC<{ code: string; language?: string; children: React.ReactNode }> = ({ code, language, children }) => {
+  const [copied, setCopied] = useState(false);
+  const lineCount = code.split('\n').length;
+  const [isExpanded, setIsExpanded] = useState(lineCount <= COLLAPSED_CODE_LINES);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error('Failed to copy code:', error);
+    }
+  };
+
+  return (
+    <div className="my-2 rounded-md border border-gray-200 bg-gray-50 overflow-hidden">
+      <div className="flex items-center justify-between px-2 py-1 border-b border-gray-200 text-xs text-gray-500">
+        <span>{language ?? 'code'}</span>
+        <button
+          onClick={handleCopy}
+          className="flex items-center gap-1 px-1.5 py-0.5 rounded hover:bg-gray-200 hover:text-gray-700 transition-colors"
+          title="Copy code"
+        >
+          {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre
+        className="px-3 py-2 text-xs leading-relaxed overflow-x-auto"
+        style={isExpanded ? undefined : { maxHeight: `${COLLAPSED_CODE_LINES * 1.625}em`, overflow: 'hidden' }}
+      >
+        {children}
+      </pre>
+      {lineCount > COLLAPSED_CODE_LINES && (
+        <button
+          onClick={() => setIsExpanded(prev => !prev)}
+          className="w-full py-1 border-t border-gray-200 text-xs text-blue-600 hover:bg-gray-100"
+        >
+          {isExpanded ? 'Show less' : `Show all ${lineCount} lines`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+const components: Components = {
+  pre: ({ node, children }) => {
+    const code = node?.children.find((child): child is Element => child.type === 'element' && child.tagName === 'code');
+    const classNames = (code?.properties.className as string[] | undefined) ?? [];
+    const language = classNames.find(name => name.startsWith('language-'))?.replace('language-', '');
+    return (
+      <CodeBlock code={code ? textOf(code).replace(/\n$/, '') : ''} language={language}>
+        {children}
+      </CodeBlock>
+    );
+  },
+  code: ({ className, children }) => (
+    className
+      ? <code className={className}>{children}</code>
+      : <code className="px-1 py-0.5 rounded bg-black/5 text-[0.85em] font-mono">{children}</code>
+  ),
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline">
+      {children}
+    </a>
+  ),
+  table: ({ children }) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="min-w-full text-xs border-collapse">{children}</table>
+    </div>
+  ),
+  th: ({ children, style }) => (
+    <th className="border border-gray-300 bg-gray-100 px-2 py-1 text-left font-semibold" style={style}>{children}</th>
+  ),
+  td: ({ children, style }) => (
+    <td className="border border-gray-300 px-2 py-1 align-top" style={style}>{children}</td>
+  ),
+  h1: ({ children }) => <h1 className="text-base font-bold mt-3 mb-1">{children}</h1>,
+  h2: ({ children }) => <h2 className="text-sm font-bold mt-3 mb-1">{children}</h2>,
+  h3: ({ children }) => <h3 className="text-sm font-semibold mt-2 mb-1">{children}</h3>,
+  p: ({ children }) => <p className="my-1.5">{children}</p>,
+  ul: ({ children }) => <ul className="my-1.5 pl-5 list-disc">{children}</ul>,
+  ol: ({ children }) => <ol className="my-1.5 pl-5 list-decimal">{children}</ol>,
+  blockquote: ({ children }) => (
+    <blockquote className="my-2 pl-3 border-l-4 border-gray-300 text-gray-600">{children}</blockquote>
+  ),
+  details: ({ children, open }) => <details open={open} className="my-1">{children}</details>,
+  summary: ({ children }) => (
+    <summary className="cursor-pointer select-none [&>*]:inline">{children}</summary>
+  )
+};
+
+interface MarkdownContentProps {
+  content: string;
+}
+
+// Renders AI answers as GitHub-flavored markdown. Raw HTML is never rendered and links are sanitized.
+export const MarkdownContent: React.FC<MarkdownContentProps> = ({ content }) => (
+  <ReactMarkdown
+    remarkPlugins={[remarkGfm]}
+    rehypePlugins={[rehypeSanitize, [rehypeHighlight, { detect: false }], rehypeCollapsibleSections]}
+    components={components}
+  >
+    {content}
+  </ReactMarkdown>
+);
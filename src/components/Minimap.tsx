@@ -0,0 +1,128 @@
+import React, { useRef, useState } from 'react';
+import { Scan } from 'lucide-react';
+import type { BoardBox } from '../lib/canvasGeometry';
+import { boundsOf, type BoardRect } from '../lib/selectionGeometry';
+
+interface MinimapCursor {
+  userId: string;
+  x: number;
+  y: number;
+  color: string;
+}
+
+interface MinimapProps {
+  // Everything on the board, in board coordinates
+  boxes: BoardBox[];
+  cursors: MinimapCursor[];
+  // The part of the board on screen
+  viewport: BoardRect;
+  // Clicked or dragged to a board point, which the view should centre on
+  onNavigate: (point: { x: number; y: number }) => void;
+  onZoomToFit: () => void;
+}
+
+const MINIMAP_SIZE = { width: 220, height: 150 }; // px
+// Board space shown around the content and the viewport, so neither touches the edge
+const MINIMAP_PADDING = 200; // board px
+
+// Small overview of the whole board in a corner of the screen: content, everyone's cursor and what is in view
+export const Minimap: React.FC<MinimapProps> = ({ boxes, cursors, viewport, onNavigate, onZoomToFit }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  // The area shown stays put while dragging, so the map does not slide away under the pointer
+  const [frozenArea, setFrozenArea] = useState<BoardRect | null>(null);
+
+  const cursorBoxes = cursors.map(cursor => ({ id: cursor.userId, position: cursor, size: { width: 0, height: 0 } }));
+  const content = boundsOf([...boxes, ...cursorBoxes, { id: 'viewport', position: viewport, size: viewport }]) ?? viewport;
+  const area = frozenArea ?? {
+    x: content.x - MINIMAP_PADDING,
+    y: content.y - MINIMAP_PADDING,
+    width: content.width + MINIMAP_PADDING * 2,
+    height: content.height + MINIMAP_PADDING * 2
+  };
+  // One scale for both axes, so shapes keep their proportions
+  const scale = Math.min(MINIMAP_SIZE.width / area.width, MINIMAP_SIZE.height / area.height);
+  const offsetX = (MINIMAP_SIZE.width - area.width * scale) / 2;
+  const offsetY = (MINIMAP_SIZE.height - area.height * scale) / 2;
+  const toMap = (x: number, y: number) => ({ x: offsetX + (x - area.x) * scale, y: offsetY + (y - area.y) * scale });
+
+  const navigateTo = (e: React.PointerEvent) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    onNavigate({
+      x: area.x + (e.clientX - rect.left - offsetX) / scale,
+      y: area.y + (e.clientY - rect.top - offsetY) / scale
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setFrozenArea(area);
+    navigateTo(e);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!frozenArea) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    setFrozenArea(null);
+  };
+
+  const view = toMap(viewport.x, viewport.y);
+
+  return (
+    <div
+      className="absolute bottom-6 right-6 z-40 bg-white rounded-xl shadow-lg border border-gray-200 overflow-hidden"
+      // The canvas underneath must not start a pan or marquee from here
+      onMouseDown={e => e.stopPropagation()}
+    >
+      <svg
+        ref={svgRef}
+        width={MINIMAP_SIZE.width}
+        height={MINIMAP_SIZE.height}
+        className="block bg-gray-50 cursor-pointer"
+        onPointerDown={handlePointerDown}
+        onPointerMove={e => {
+          if (frozenArea) navigateTo(e);
+        }}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {boxes.map(box => {
+          const corner = toMap(box.position.x, box.position.y);
+          return (
+            <rect
+              key={box.id}
+              x={corner.x}
+              y={corner.y}
+              width={Math.max(1, box.size.width * scale)}
+              height={Math.max(1, box.size.height * scale)}
+              fill="#9ca3af"
+              opacity={0.6}
+            />
+          );
+        })}
+        <rect
+          x={view.x}
+          y={view.y}
+          width={viewport.width * scale}
+          height={viewport.height * scale}
+          fill="rgba(59, 130, 246, 0.1)"
+          stroke="#3b82f6"
+          strokeWidth={1.5}
+        />
+        {cursors.map(cursor => {
+          const point = toMap(cursor.x, cursor.y);
+          return <circle key={cursor.userId} cx={point.x} cy={point.y} r={3} fill={cursor.color} stroke="#ffffff" strokeWidth={1} />;
+        })}
+      </svg>
+      <button
+        onClick={onZoomToFit}
+        className="w-full flex items-center justify-center gap-1.5 py-1.5 border-t border-gray-200 text-xs text-gray-600 hover:bg-gray-100"
+        title="Zoom to fit all content"
+      >
+        <Scan className="w-3.5 h-3.5" />
+        Zoom to fit
+      </button>
+    </div>
+  );
+};
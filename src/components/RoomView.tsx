@@ -1,11 +1,47 @@
 import React, { useEffect, useState, useRef, useCallback } from 'react';
-import { Users, Share2, LogOut, Loader2 } from 'lucide-react';
+import { Users, Share2, LogOut, Loader2, Undo2 } from 'lucide-react';
 import { ShareModal } from './ShareModal';
 import { FloatingToolbar } from './FloatingToolbar';
 import { InfiniteCanvas } from './InfiniteCanvas';
 import AIResponseObject from './AIResponseObject';
+import { CanvasConnectors } from './CanvasConnectors';
+import CanvasObjectView from './CanvasObjectView';
+import { CanvasObjectPalette, type BoardTool, type CanvasObjectRequest } from './CanvasObjectPalette';
+import { SketchLayer } from './SketchLayer';
+import { SelectionLayer } from './SelectionLayer';
 import { RoomService } from '../services/roomService';
-import { RoomDetailsResponse, AIResponse } from '../types/room';
+import { AIResponseService } from '../services/aiResponseService';
+import { CanvasConnectorService, CONNECTOR_DEFAULTS } from '../services/canvasConnectorService';
+import { CANVAS_OBJECT_DEFAULTS, INK_COLORS } from '../services/canvasObjectService';
+import { AIRequestError } from '../services/apiService';
+import { canvasActionSteps, runCanvasToolCalls, type AICanvasActions } from '../services/aiCanvasTools';
+import { CanvasHistory, type CanvasHistoryEntry } from '../services/canvasHistory';
+import { useAIService, type AIRelayHandoff } from '../hooks/useAIService';
+import { useCanvasSync } from '../hooks/useCanvasSync';
+import {
+  RoomDetailsResponse,
+  AIResponse,
+  AIResponseReply,
+  AIResponseUpdate,
+  CanvasConnector,
+  CanvasConnectorUpdate,
+  ConnectorAnchor,
+  ConnectorRouting
+} from '../types/room';
+import type { AICanvasAction, AIChatMessage, AIToolCall } from '../types/ai';
+import type { CanvasObject, CanvasObjectUpdate, InkTool, LiveStroke, StrokeObject } from '../types/canvas';
+import { viewportCenter, type BoardBox, type CanvasInteractionStart, type CanvasTransform } from '../lib/canvasGeometry';
+import { anchorStroke, inkPadding } from '../lib/inkGeometry';
+import {
+  alignBoxes,
+  boundsOf,
+  boxesInside,
+  distributeBoxes,
+  scaleBoxes,
+  type AlignEdge,
+  type BoardRect,
+  type DistributeAxis
+} from '../lib/selectionGeometry';
 import { subscribeToRoomParticipants } from '../lib/supabase';
 import { HybridCursorTracker } from '../lib/hybridCursorTracker';
 import type { CursorPosition } from '../services/cursorService';
@@ -13,6 +49,19 @@ import WebRTCPanel from './WebRTCPanel';
 import { useParams, useNavigate } from 'react-router-dom';
 import { ParticipantService } from '../services/participantService';
 
+// How long remote echoes are ignored for a card we just moved or resized, or a connector we just edited
+const AI_LOCAL_EDIT_GRACE = 1000; // ms
+const AI_COMPARE_CARD_GAP = 24; // px between compare-mode cards
+const AI_CARD_SIZE = { width: 300, height: 200 }; // new cards, and cards saved without a size
+const AI_RELAY_NOTICE_MS = 6000; // how long the relay handoff notice stays up
+const AI_ACTION_NOTICE_MS = 10000; // how long the undo offer for an AI board change stays up
+
+// Whether the values a history entry set are still what the board shows
+const showsValues = (current: object, values: object) =>
+  Object.entries(values).every(([key, value]) =>
+    JSON.stringify((current as Record<string, unknown>)[key]) === JSON.stringify(value)
+  );
+
 interface RoomViewProps {
   roomCode: string;
   userId: string;
@@ -36,6 +85,64 @@ export function RoomView({ roomCode, userId, onLeaveRoom }: RoomViewProps) {
     averageLatency: 0
   });
   const [aiResponses, setAIResponses] = useState<AIResponse[]>([]);
+  // Compare-mode cards light up together while one of them is hovered
+  const [hoveredGroupId, setHoveredGroupId] = useState<string | null>(null);
+  const aiCancelHandlersRef = useRef<Map<string, () => void>>(new Map());
+  // Last local drag/resize per card, so our own echoed row updates don't snap it back
+  const aiLocalEditsRef = useRef<Map<string, number>>(new Map());
+  // Latest cards for AI board actions, which run outside React's render cycle
+  const aiResponsesRef = useRef<AIResponse[]>([]);
+  aiResponsesRef.current = aiResponses;
+  // Row insert of each card this browser started, so updates that arrive before the next render find the
+  // card, and the finished answer is only written once its row exists
+  const aiCardInsertsRef = useRef<Map<string, Promise<void>>>(new Map());
+  const [connectors, setConnectors] = useState<CanvasConnector[]>([]);
+  const connectorsRef = useRef<CanvasConnector[]>([]);
+  connectorsRef.current = connectors;
+  // Last local edit per connector, so echoes of earlier label keystrokes don't overwrite later ones
+  const connectorLocalEditsRef = useRef<Map<string, number>>(new Map());
+  const canvasTransformRef = useRef<CanvasTransform>({ x: 0, y: 0, scale: 1 });
+  const canvasHistoryRef = useRef(new CanvasHistory());
+  const [historyState, setHistoryState] = useState({ canUndo: false, canRedo: false });
+  // Board items this participant has selected: whiteboard objects and AI cards alike
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const selectedIdsRef = useRef<string[]>([]);
+  // Where each selected item stood when a drag or resize of the whole selection began
+  const selectionGestureRef = useRef<BoardBox[] | null>(null);
+  const [boardTool, setBoardTool] = useState<BoardTool | null>(null);
+  const [inkColors, setInkColors] = useState<Record<InkTool, string>>({
+    pen: INK_COLORS.pen[0],
+    highlighter: INK_COLORS.highlighter[0]
+  });
+  // Latest AI board change, offered for undo for a few seconds
+  const [aiActionNotice, setAIActionNotice] = useState<CanvasHistoryEntry | null>(null);
+
+  const isHost = roomDetails?.participants.find(p => p.userId === userId)?.isHost || false;
+  const hostUserId = roomDetails?.participants.find(p => p.isHost)?.userId;
+  const { aiService, reloadProvider, relayHandoff } = useAIService({
+    roomId: roomDetails?.room.id,
+    userId,
+    isHost,
+    hostUserId,
+    onCanvasToolCalls: (calls, requesterId) => handleCanvasToolCalls(calls, requesterId),
+    onCanvasActions: (actions) => handleAICanvasActions(actions)
+  });
+  // Whiteboard objects in stacking order
+  const {
+    objects: canvasObjects,
+    liveStrokes,
+    remoteSelections,
+    streamStroke,
+    endStroke,
+    shareSelection,
+    createObject: createCanvasObject,
+    updateObject: updateCanvasObject,
+    deleteObject: deleteCanvasObject,
+    restoreObject: restoreCanvasObject,
+    getObject: getCanvasObject
+  } = useCanvasSync(roomDetails?.room.id, userId);
+  // Handoff announced at the top of the room for a few seconds
+  const [relayNotice, setRelayNotice] = useState<AIRelayHandoff | null>(null);
 
   // Hybrid cursor tracking state
   const hybridCursorTrackerRef = useRef<HybridCursorTracker | null>(null);
@@ -59,6 +166,173 @@ export function RoomView({ roomCode, userId, onLeaveRoom }: RoomViewProps) {
     };
   }, [roomDetails?.room.id]);
 
+  useEffect(() => {
+    if (!relayHandoff) return;
+    setRelayNotice(relayHandoff);
+    const timer = setTimeout(() => setRelayNotice(null), AI_RELAY_NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [relayHandoff]);
+
+  // Everyone else sees what we have selected
+  useEffect(() => {
+    shareSelection(selectedIds);
+  }, [selectedIds, shareSelection]);
+
+  useEffect(() => {
+    if (!aiActionNotice) return;
+    const timer = setTimeout(() => setAIActionNotice(null), AI_ACTION_NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [aiActionNotice]);
+
+  useEffect(() => {
+    const history = canvasHistoryRef.current;
+    history.setChangeHandler(() => {
+      setHistoryState({ canUndo: history.canUndo(userId), canRedo: history.canRedo(userId) });
+    });
+    return () => history.setChangeHandler(null);
+  }, [userId]);
+
+  // Ctrl/Cmd+Z undoes this participant's last board change; Ctrl/Cmd+Shift+Z or Ctrl+Y redoes it; Esc puts the
+  // tool down and lets go of the selection
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Text fields keep their own undo
+      const target = e.target;
+      if (target instanceof HTMLElement && (target.isContentEditable || target.closest('input, textarea, select'))) return;
+      if (e.key === 'Escape') {
+        setBoardTool(null);
+        selectedIdsRef.current = [];
+        setSelectedIds([]);
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        canvasHistoryRef.current.undo(userId);
+      } else if ((key === 'z' && e.shiftKey) || (key === 'y' && e.ctrlKey)) {
+        e.preventDefault();
+        canvasHistoryRef.current.redo(userId);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [userId]);
+
+  // Add or replace a reply in its card's thread, keeping the thread in asking order
+  const upsertReply = useCallback((reply: AIResponseReply) => {
+    setAIResponses(prev => prev.map(response => {
+      if (response.id !== reply.responseId) return response;
+      const replies = response.replies ?? [];
+      const exists = replies.some(existing => existing.id === reply.id);
+      return {
+        ...response,
+        replies: exists
+          ? replies.map(existing => (existing.id === reply.id ? { ...existing, ...reply } : existing))
+          : [...replies, reply].sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      };
+    }));
+  }, []);
+
+  // Load persisted AI response cards and keep them in sync
+  useEffect(() => {
+    if (!roomDetails?.room.id) return;
+    const roomId = roomDetails.room.id;
+
+    AIResponseService.getRoomResponses(roomId)
+      .then(responses => {
+        setAIResponses(prev => {
+          // Keep cards that started streaming before the load finished
+          const loadedIds = new Set(responses.map(response => response.id));
+          return [...responses, ...prev.filter(response => !loadedIds.has(response.id))];
+        });
+      })
+      .catch(error => {
+        console.error('Failed to load AI response cards:', error);
+      });
+
+    const channel = AIResponseService.subscribeToRoomResponses(roomId, {
+      onUpsert: (remote) => {
+        setAIResponses(prev => {
+          const local = prev.find(response => response.id === remote.id);
+          if (!local) return [...prev, remote];
+
+          const recentlyEdited = Date.now() - (aiLocalEditsRef.current.get(remote.id) ?? 0) < AI_LOCAL_EDIT_GRACE;
+          const isStreamingHere = aiCancelHandlersRef.current.has(remote.id);
+          return prev.map(response => {
+            if (response.id !== remote.id) return response;
+            return {
+              ...remote,
+              replies: local.replies,
+              // Our in-flight stream is ahead of the row; our active drag is ahead of the echo
+              content: isStreamingHere ? local.content : remote.content,
+              status: isStreamingHere ? local.status : remote.status,
+              position: recentlyEdited ? local.position : remote.position,
+              size: recentlyEdited ? local.size : remote.size
+            };
+          });
+        });
+      },
+      onDelete: (id) => {
+        setAIResponses(prev => prev.filter(response => response.id !== id));
+      },
+      onReplyUpsert: (remote) => {
+        // Our own streaming reply is ahead of its row
+        if (aiCancelHandlersRef.current.has(remote.id)) return;
+        upsertReply(remote);
+      },
+      onReplyDelete: (id) => {
+        setAIResponses(prev => prev.map(response => ({
+          ...response,
+          replies: response.replies?.filter(reply => reply.id !== id)
+        })));
+      }
+    });
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [roomDetails?.room.id, upsertReply]);
+
+  // Load connectors between cards and keep them in sync
+  useEffect(() => {
+    if (!roomDetails?.room.id) return;
+    const roomId = roomDetails.room.id;
+
+    CanvasConnectorService.getRoomConnectors(roomId)
+      .then(loaded => {
+        setConnectors(prev => {
+          const loadedIds = new Set(loaded.map(connector => connector.id));
+          return [...loaded, ...prev.filter(connector => !loadedIds.has(connector.id))];
+        });
+      })
+      .catch(error => {
+        console.error('Failed to load canvas connectors:', error);
+      });
+
+    const channel = CanvasConnectorService.subscribeToRoomConnectors(roomId, {
+      onUpsert: (remote) => {
+        const lastLocalEdit = connectorLocalEditsRef.current.get(remote.id);
+        if (lastLocalEdit && Date.now() - lastLocalEdit < AI_LOCAL_EDIT_GRACE) return;
+        setConnectors(prev => {
+          const index = prev.findIndex(connector => connector.id === remote.id);
+          if (index === -1) return [...prev, remote];
+          return prev.map(connector => connector.id === remote.id ? remote : connector);
+        });
+      },
+      onDelete: (id) => {
+        connectorLocalEditsRef.current.delete(id);
+        setConnectors(prev => prev.filter(connector => connector.id !== id));
+      }
+    });
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [roomDetails?.room.id]);
+
   // Initialize hybrid cursor tracking when room is loaded
   useEffect(() => {
     if (!roomDetails?.room.id || !userId) return;
@@ -231,39 +505,771 @@ export function RoomView({ roomCode, userId, onLeaveRoom }: RoomViewProps) {
     setIsMuted(prev => !prev);
   }, []);
 
-  const handleAIResponse = (response: { content: string; fromUserId: string }) => {
-    const newResponse: AIResponse = {
-      id: crypto.randomUUID(),
-      content: response.content,
-      position: {
-        x: window.innerWidth / 2 - 200, // Center horizontally
-        y: window.innerHeight - 300 // Position above chat input
+  const handleAIResponse = (response: AIResponseUpdate) => {
+    if (response.cancel) {
+      aiCancelHandlersRef.current.set(response.id, response.cancel);
+    } else {
+      aiCancelHandlersRef.current.delete(response.id);
+    }
+
+    const existing = aiCardInsertsRef.current.has(response.id) ||
+      aiResponsesRef.current.some(card => card.id === response.id);
+    if (!existing) {
+      const newResponse: AIResponse = {
+        id: response.id,
+        content: response.content,
+        status: response.status,
+        position: response.position ?? {
+          // Center horizontally; compare-mode answers sit side by side
+          x: window.innerWidth / 2 - 200 + (response.groupIndex ?? 0) * (300 + AI_COMPARE_CARD_GAP),
+          y: window.innerHeight - 300 // Position above chat input
+        },
+        size: AI_CARD_SIZE,
+        rotation: 0,
+        zIndex: aiResponsesRef.current.length + 1,
+        fromUserId: response.fromUserId,
+        provider: response.provider,
+        prompt: response.prompt,
+        groupId: response.groupId,
+        replies: []
+      };
+      setAIResponses(prev => [...prev.filter(card => card.id !== response.id), newResponse]);
+
+      const insert = roomDetails?.room.id
+        ? AIResponseService.createResponse(roomDetails.room.id, newResponse).catch(error => {
+            console.error('Failed to save AI response card:', error);
+          })
+        : Promise.resolve();
+      aiCardInsertsRef.current.set(response.id, insert);
+      return;
+    }
+
+    // Streaming updates replace the content of the card created for the first chunk
+    setAIResponses(prev =>
+      prev.map(card =>
+        card.id === response.id
+          ? {
+              ...card,
+              content: response.content,
+              status: response.status,
+              provider: response.provider ?? card.provider,
+              latencyMs: response.latencyMs ?? card.latencyMs,
+              citations: response.citations ?? card.citations,
+              queuePosition: response.queuePosition
+            }
+          : card
+      )
+    );
+
+    // Chunks stay local; other participants receive the finished answer
+    if (response.status !== 'streaming') {
+      const insert = aiCardInsertsRef.current.get(response.id) ?? Promise.resolve();
+      aiCardInsertsRef.current.delete(response.id);
+      insert
+        .then(() => AIResponseService.updateResponse(response.id, {
+          content: response.content,
+          status: response.status,
+          provider: response.provider,
+          latencyMs: response.latencyMs,
+          citations: response.citations
+        }))
+        .catch(error => {
+          console.error('Failed to save AI response card:', error);
+        });
+    }
+  };
+
+  // Answers to this participant's prompts go into their history, so they can be taken off the board like anything else
+  const handleAskedAIResponse = (response: AIResponseUpdate) => {
+    const isNew = !aiCardInsertsRef.current.has(response.id) &&
+      !aiResponsesRef.current.some(card => card.id === response.id);
+    handleAIResponse(response);
+    if (!isNew) return;
+
+    let restore: (() => void) | null = null;
+    canvasHistoryRef.current.push({
+      label: 'AI answer',
+      userId,
+      source: 'user',
+      undo: () => {
+        if (!aiResponsesRef.current.some(card => card.id === response.id)) return false;
+        restore = removeResponse(response.id);
       },
-      rotation: 0,
-      zIndex: aiResponses.length + 1,
-      fromUserId: response.fromUserId
-    };
-    setAIResponses(prev => [...prev, newResponse]);
+      redo: () => restore?.()
+    });
+  };
+
+  const handleCancelResponse = (id: string) => {
+    aiCancelHandlersRef.current.get(id)?.();
   };
 
   const handleMoveResponse = (id: string, position: { x: number; y: number }) => {
+    aiLocalEditsRef.current.set(id, Date.now());
     setAIResponses(prev =>
       prev.map(response =>
-        response.id === id ? { ...response, x: position.x, y: position.y } : response
+        response.id === id ? { ...response, position } : response
       )
     );
+    AIResponseService.queueUpdate(id, { position });
   };
 
   const handleResizeResponse = (id: string, size: { width: number; height: number }) => {
+    aiLocalEditsRef.current.set(id, Date.now());
     setAIResponses(prev =>
       prev.map(response =>
-        response.id === id ? { ...response, width: size.width, height: size.height } : response
+        response.id === id ? { ...response, size } : response
       )
     );
+    AIResponseService.queueUpdate(id, { size });
   };
 
-  const handleCloseResponse = (id: string) => {
+  // Record a drag or resize of an AI card as one step, once the mouse is released
+  const handleResponseInteractionEnd = (id: string, start: CanvasInteractionStart) => {
+    const card = aiResponsesRef.current.find(response => response.id === id);
+    if (!card) return;
+    const before = start.mode === 'drag' ? { position: start.position } : { size: start.size };
+    const after = start.mode === 'drag' ? { position: card.position } : { size: card.size ?? AI_CARD_SIZE };
+    if (showsValues(before, after)) return;
+
+    const apply = (values: Partial<Pick<AIResponse, 'position' | 'size'>>) => {
+      if (values.position) handleMoveResponse(id, values.position);
+      if (values.size) handleResizeResponse(id, values.size);
+    };
+    const showsNow = (values: object) => {
+      const current = aiResponsesRef.current.find(response => response.id === id);
+      return !!current && showsValues({ ...current, size: current.size ?? AI_CARD_SIZE }, values);
+    };
+    canvasHistoryRef.current.push({
+      label: start.mode === 'drag' ? 'Move card' : 'Resize card',
+      userId,
+      source: 'user',
+      undo: () => {
+        if (!showsNow(after)) return false;
+        apply(before);
+      },
+      redo: () => {
+        if (!showsNow(before)) return false;
+        apply(after);
+      }
+    });
+  };
+
+  // Record a change to some of an object's fields. Undo and redo only touch those fields, and only while
+  // the object still shows what this participant left there, so other people's edits are never reverted.
+  const recordCanvasObjectUpdate = (id: string, label: string, before: CanvasObjectUpdate, after: CanvasObjectUpdate) => {
+    const showsNow = (values: CanvasObjectUpdate) => {
+      const object = getCanvasObject(id);
+      return !!object && showsValues(object, values);
+    };
+    canvasHistoryRef.current.push({
+      label,
+      userId,
+      source: 'user',
+      undo: () => {
+        if (!showsNow(after)) return false;
+        updateCanvasObject(id, before);
+      },
+      redo: () => {
+        if (!showsNow(before)) return false;
+        updateCanvasObject(id, after);
+      }
+    });
+  };
+
+  const handleCanvasObjectInteractionEnd = (id: string, start: CanvasInteractionStart) => {
+    const object = getCanvasObject(id);
+    if (!object) return;
+    if (start.mode === 'drag') {
+      if (!showsValues(object, { position: start.position })) {
+        recordCanvasObjectUpdate(id, 'Move object', { position: start.position }, { position: object.position });
+      }
+    } else if (!showsValues(object, { size: start.size })) {
+      recordCanvasObjectUpdate(id, 'Resize object', { size: start.size }, { size: object.size });
+    }
+  };
+
+  // Text is merged keystroke by keystroke and keeps the editor's own undo; style changes are board history
+  const handleChangeCanvasObject = (id: string, update: CanvasObjectUpdate) => {
+    const object = getCanvasObject(id);
+    if (object && update.style) {
+      recordCanvasObjectUpdate(id, 'Change style', { style: object.style }, { style: update.style });
+    }
+    updateCanvasObject(id, update);
+  };
+
+  const handleDeleteCanvasObject = (id: string) => {
+    deleteCanvasObject(id);
+    canvasHistoryRef.current.push({
+      label: 'Delete object',
+      userId,
+      source: 'user',
+      undo: () => restoreCanvasObject(id),
+      redo: () => {
+        if (!getCanvasObject(id)) return false;
+        deleteCanvasObject(id);
+      }
+    });
+  };
+
+  // Put a new object on the board as one undoable step
+  const addCanvasObject = (object: CanvasObject, label: string) => {
+    createCanvasObject(object);
+    canvasHistoryRef.current.push({
+      label,
+      userId,
+      source: 'user',
+      undo: () => {
+        if (!getCanvasObject(object.id)) return false;
+        deleteCanvasObject(object.id);
+      },
+      redo: () => restoreCanvasObject(object.id)
+    });
+  };
+
+  const topZIndex = () => Math.max(0, ...canvasObjects.map(object => object.zIndex)) + 1;
+
+  // Drop a new object in the middle of the view; frames go behind everything so they can hold other objects
+  const handleAddCanvasObject = (request: CanvasObjectRequest) => {
+    const { size, style } = CANVAS_OBJECT_DEFAULTS[request.type];
+    const center = viewportCenter(canvasTransformRef.current);
+    const base = {
+      id: crypto.randomUUID(),
+      position: { x: center.x - size.width / 2, y: center.y - size.height / 2 },
+      size,
+      rotation: 0,
+      zIndex: request.type === 'frame' ? Math.min(0, ...canvasObjects.map(object => object.zIndex)) - 1 : topZIndex(),
+      style,
+      ownerId: userId
+    };
+
+    let object: CanvasObject;
+    switch (request.type) {
+      case 'sticky_note':
+      case 'text':
+        object = { ...base, type: request.type, text: '' };
+        break;
+      case 'shape':
+        object = { ...base, type: 'shape', shape: request.shape ?? 'rectangle', text: '' };
+        break;
+      case 'image':
+        object = { ...base, type: 'image', src: request.src ?? '', alt: '' };
+        break;
+      case 'frame':
+        object = { ...base, type: 'frame', title: 'Frame' };
+        break;
+    }
+
+    addCanvasObject(object, 'Add object');
+  };
+
+  // A finished stroke becomes an object on top of everything; peers then drop their live copy of it
+  const handleStrokeEnd = (stroke: LiveStroke) => {
+    const object: StrokeObject = {
+      ...anchorStroke(stroke.points, inkPadding(stroke.style.strokeWidth ?? 4)),
+      id: stroke.id,
+      type: 'stroke',
+      tool: stroke.tool,
+      rotation: 0,
+      zIndex: topZIndex(),
+      style: stroke.style,
+      ownerId: userId
+    };
+    addCanvasObject(object, stroke.tool === 'pen' ? 'Draw' : 'Highlight');
+    endStroke(stroke);
+  };
+
+  // Strokes vanish as the eraser touches them; the whole rub-out is one undo step
+  const handleEraseEnd = (ids: string[]) => {
+    canvasHistoryRef.current.push({
+      label: 'Erase',
+      userId,
+      source: 'user',
+      undo: () => ids.forEach(restoreCanvasObject),
+      redo: () => {
+        const present = ids.filter(id => getCanvasObject(id));
+        if (present.length === 0) return false;
+        present.forEach(deleteCanvasObject);
+      }
+    });
+  };
+
+  // Cards in one group light up together
+  const handleSetResponseGroup = (id: string, groupId: string | undefined) => {
+    setAIResponses(prev =>
+      prev.map(response =>
+        response.id === id ? { ...response, groupId } : response
+      )
+    );
+    AIResponseService.queueUpdate(id, { groupId });
+  };
+
+  const createConnector = (connector: CanvasConnector) => {
+    setConnectors(prev => [...prev.filter(existing => existing.id !== connector.id), connector]);
+    if (roomDetails?.room.id) {
+      CanvasConnectorService.createConnector(roomDetails.room.id, connector).catch(error => {
+        console.error('Failed to save canvas connector:', error);
+      });
+    }
+  };
+
+  const removeConnector = (id: string) => {
+    connectorLocalEditsRef.current.delete(id);
+    setConnectors(prev => prev.filter(connector => connector.id !== id));
+    CanvasConnectorService.deleteConnector(id).catch(error => {
+      console.error('Failed to delete canvas connector:', error);
+    });
+  };
+
+  const editConnector = (id: string, update: CanvasConnectorUpdate) => {
+    connectorLocalEditsRef.current.set(id, Date.now());
+    setConnectors(prev =>
+      prev.map(connector =>
+        connector.id === id ? { ...connector, ...update } : connector
+      )
+    );
+    CanvasConnectorService.queueUpdate(id, update);
+  };
+
+  // For relay: the model's arrows use the default look, optionally with another routing
+  const handleCreateConnector = (
+    fromCardId: string,
+    toCardId: string,
+    createdBy: string,
+    label?: string,
+    routing?: ConnectorRouting
+  ) => {
+    const connector: CanvasConnector = {
+      ...CONNECTOR_DEFAULTS,
+      ...(routing && { routing }),
+      id: crypto.randomUUID(),
+      fromCardId,
+      toCardId,
+      label,
+      createdBy
+    };
+    createConnector(connector);
+    return connector.id;
+  };
+
+  // A connector dragged out of one item's anchor onto another, as one undoable step
+  const handleDrawConnector = (fromId: string, fromAnchor: ConnectorAnchor, toId: string, toAnchor: ConnectorAnchor) => {
+    const connector: CanvasConnector = {
+      ...CONNECTOR_DEFAULTS,
+      id: crypto.randomUUID(),
+      fromCardId: fromId,
+      toCardId: toId,
+      fromAnchor,
+      toAnchor,
+      createdBy: userId
+    };
+    createConnector(connector);
+    // Put back as it was left, including later edits to its look
+    let removed = connector;
+    canvasHistoryRef.current.push({
+      label: 'Connect',
+      userId,
+      source: 'user',
+      undo: () => {
+        const current = connectorsRef.current.find(existing => existing.id === connector.id);
+        if (!current) return false;
+        removed = current;
+        removeConnector(connector.id);
+      },
+      redo: () => createConnector(removed)
+    });
+  };
+
+  // Label text keeps the input's own undo; routing and arrowheads are board history
+  const handleUpdateConnector = (id: string, update: CanvasConnectorUpdate) => {
+    const connector = connectorsRef.current.find(existing => existing.id === id);
+    if (!connector) return;
+    const { label, ...look } = update;
+    if (Object.keys(look).length > 0) {
+      const before = Object.fromEntries(
+        Object.keys(look).map(key => [key, connector[key as keyof typeof look]])
+      ) as CanvasConnectorUpdate;
+      const showsNow = (values: CanvasConnectorUpdate) => {
+        const current = connectorsRef.current.find(existing => existing.id === id);
+        return !!current && showsValues(current, values);
+      };
+      canvasHistoryRef.current.push({
+        label: 'Change connector',
+        userId,
+        source: 'user',
+        undo: () => {
+          if (!showsNow(look)) return false;
+          editConnector(id, before);
+        },
+        redo: () => {
+          if (!showsNow(before)) return false;
+          editConnector(id, look);
+        }
+      });
+    }
+    editConnector(id, 'label' in update ? { ...look, label } : look);
+  };
+
+  const handleDeleteConnector = (id: string) => {
+    const connector = connectorsRef.current.find(existing => existing.id === id);
+    if (!connector) return;
+    removeConnector(id);
+    canvasHistoryRef.current.push({
+      label: 'Delete connector',
+      userId,
+      source: 'user',
+      undo: () => createConnector(connector),
+      redo: () => {
+        if (!connectorsRef.current.some(existing => existing.id === id)) return false;
+        removeConnector(id);
+      }
+    });
+  };
+
+  // Everything on the board, bottom to top: whiteboard objects, then AI cards
+  const boardBoxes: BoardBox[] = [
+    ...canvasObjects,
+    ...aiResponses.map(response => ({ ...response, size: response.size ?? AI_CARD_SIZE }))
+  ];
+
+  // An item's place on the board, read live so handlers run from document listeners see the latest
+  const itemBox = (id: string): BoardBox | null => {
+    const object = getCanvasObject(id);
+    if (object) return { id, position: object.position, size: object.size };
+    const card = aiResponsesRef.current.find(response => response.id === id);
+    return card ? { id, position: card.position, size: card.size ?? AI_CARD_SIZE } : null;
+  };
+
+  const setItemPlace = (id: string, values: Partial<Pick<BoardBox, 'position' | 'size'>>) => {
+    if (getCanvasObject(id)) {
+      updateCanvasObject(id, values);
+      return;
+    }
+    if (values.position) handleMoveResponse(id, values.position);
+    if (values.size) handleResizeResponse(id, values.size);
+  };
+
+  const itemGroupId = (id: string) =>
+    getCanvasObject(id)?.groupId ?? aiResponsesRef.current.find(response => response.id === id)?.groupId;
+
+  const setItemGroup = (id: string, groupId: string | undefined) => {
+    if (getCanvasObject(id)) {
+      updateCanvasObject(id, { groupId: groupId ?? null });
+    } else {
+      handleSetResponseGroup(id, groupId);
+    }
+  };
+
+  const selectItems = (ids: string[]) => {
+    selectedIdsRef.current = ids;
+    setSelectedIds(ids);
+  };
+
+  const selectedBoxes = () =>
+    selectedIdsRef.current.map(itemBox).filter((box): box is BoardBox => !!box);
+
+  // Items together with everything grouped with them
+  const withGroups = (ids: string[]) => {
+    const groupIds = new Set(ids.map(itemGroupId).filter(Boolean));
+    const members = [...canvasObjects, ...aiResponsesRef.current]
+      .filter(item => item.groupId && groupIds.has(item.groupId))
+      .map(item => item.id);
+    return [...new Set([...ids, ...members])];
+  };
+
+  // Pressing an item to drag it selects it and its group, unless it is already part of the selection
+  const handleSelectItem = (id: string) => {
+    if (!selectedIdsRef.current.includes(id)) selectItems(withGroups([id]));
+  };
+
+  // A click on empty board lets go of everything; shift+click adds an item's group to the selection or takes it out
+  const handleSelectionClick = (itemId: string | null, additive: boolean) => {
+    if (!itemId) {
+      if (!additive) selectItems([]);
+      return;
+    }
+    const members = withGroups([itemId]);
+    const current = selectedIdsRef.current;
+    selectItems(current.includes(itemId)
+      ? current.filter(id => !members.includes(id))
+      : [...current, ...members.filter(id => !current.includes(id))]);
+  };
+
+  const handleMarqueeSelect = (rect: BoardRect) => {
+    selectItems(withGroups(boxesInside(boardBoxes, rect).map(box => box.id)));
+  };
+
+  // Record moving or resizing several items as one step. Undo and redo skip items someone else has
+  // moved since, and the entry is dropped once that is all of them.
+  const recordBoxChanges = (label: string, before: BoardBox[], after: BoardBox[]) => {
+    const changed = after.filter(box => {
+      const start = before.find(candidate => candidate.id === box.id);
+      return start && !showsValues(box, { position: start.position, size: start.size });
+    });
+    if (changed.length === 0) return;
+    const changedBefore = before.filter(box => changed.some(candidate => candidate.id === box.id));
+
+    const apply = (from: BoardBox[], to: BoardBox[]) => {
+      const applicable = to.filter(target => {
+        const current = itemBox(target.id);
+        const expected = from.find(box => box.id === target.id);
+        return !!current && !!expected && showsValues(current, { position: expected.position, size: expected.size });
+      });
+      if (applicable.length === 0) return false;
+      applicable.forEach(target => setItemPlace(target.id, { position: target.position, size: target.size }));
+    };
+    canvasHistoryRef.current.push({
+      label,
+      userId,
+      source: 'user',
+      undo: () => apply(changed, changedBefore),
+      redo: () => apply(changedBefore, changed)
+    });
+  };
+
+  // Dragging one item of a multi-selection drags all of it
+  const handleMoveItem = (id: string, position: { x: number; y: number }, moveOne: (id: string, position: { x: number; y: number }) => void) => {
+    const selection = selectedIdsRef.current;
+    if (selection.length < 2 || !selection.includes(id)) {
+      moveOne(id, position);
+      return;
+    }
+    if (!selectionGestureRef.current) selectionGestureRef.current = selectedBoxes();
+    const starts = selectionGestureRef.current;
+    const anchor = starts.find(box => box.id === id);
+    if (!anchor) return;
+    const deltaX = position.x - anchor.position.x;
+    const deltaY = position.y - anchor.position.y;
+    starts.forEach(box => setItemPlace(box.id, { position: { x: box.position.x + deltaX, y: box.position.y + deltaY } }));
+  };
+
+  const handleItemInteractionEnd = (
+    id: string,
+    start: CanvasInteractionStart,
+    endOne: (id: string, start: CanvasInteractionStart) => void
+  ) => {
+    const starts = selectionGestureRef.current;
+    if (!starts) {
+      endOne(id, start);
+      return;
+    }
+    selectionGestureRef.current = null;
+    recordBoxChanges('Move selection', starts, starts.map(box => itemBox(box.id) ?? box));
+  };
+
+  // Dragging the selection's corner stretches everything in it, keeping where each item sits within it
+  const handleResizeSelection = (bounds: BoardRect) => {
+    if (!selectionGestureRef.current) selectionGestureRef.current = selectedBoxes();
+    const starts = selectionGestureRef.current;
+    const from = boundsOf(starts);
+    if (!from) return;
+    scaleBoxes(starts, from, bounds).forEach(box => setItemPlace(box.id, box));
+  };
+
+  const handleResizeSelectionEnd = () => {
+    const starts = selectionGestureRef.current;
+    selectionGestureRef.current = null;
+    if (starts) recordBoxChanges('Resize selection', starts, starts.map(box => itemBox(box.id) ?? box));
+  };
+
+  const arrangeSelection = (label: string, positions: Map<string, { x: number; y: number }>) => {
+    const before = selectedBoxes();
+    positions.forEach((position, id) => setItemPlace(id, { position }));
+    recordBoxChanges(label, before, before.map(box => ({ ...box, position: positions.get(box.id) ?? box.position })));
+  };
+
+  const handleAlignSelection = (edge: AlignEdge) => {
+    arrangeSelection('Align', alignBoxes(selectedBoxes(), edge));
+  };
+
+  const handleDistributeSelection = (axis: DistributeAxis) => {
+    arrangeSelection('Distribute', distributeBoxes(selectedBoxes(), axis));
+  };
+
+  // Put the selection in one group (or none), as one step; undo leaves alone items regrouped since
+  const regroupSelection = (label: string, groupId: string | undefined) => {
+    const ids = selectedIdsRef.current;
+    const previous = new Map(ids.map(id => [id, itemGroupId(id)]));
+    ids.forEach(id => setItemGroup(id, groupId));
+
+    const apply = (from: (id: string) => string | undefined, to: (id: string) => string | undefined) => {
+      const applicable = ids.filter(id => itemBox(id) && itemGroupId(id) === from(id));
+      if (applicable.length === 0) return false;
+      applicable.forEach(id => setItemGroup(id, to(id)));
+    };
+    canvasHistoryRef.current.push({
+      label,
+      userId,
+      source: 'user',
+      undo: () => apply(() => groupId, id => previous.get(id)),
+      redo: () => apply(id => previous.get(id), () => groupId)
+    });
+  };
+
+  const selectedGroupIds = boardBoxes
+    .filter(box => selectedIds.includes(box.id))
+    .map(box => [...canvasObjects, ...aiResponses].find(item => item.id === box.id)?.groupId);
+  const canGroupSelection = selectedGroupIds.length > 1 &&
+    (selectedGroupIds.some(groupId => !groupId) || new Set(selectedGroupIds).size > 1);
+  const canUngroupSelection = selectedGroupIds.some(Boolean);
+
+  // The model's board changes go through the same handlers as mouse actions, made on behalf of ownerId
+  const aiCanvasActions = (ownerId: string): AICanvasActions => ({
+    getCard: (id) => {
+      const card = aiResponsesRef.current.find(response => response.id === id);
+      return card && { ...card, size: card.size ?? AI_CARD_SIZE };
+    },
+    createNote: (content, position) => {
+      const id = crypto.randomUUID();
+      handleAIResponse({ id, content, fromUserId: ownerId, status: 'done', position });
+      return id;
+    },
+    deleteCard: removeResponse,
+    moveCard: handleMoveResponse,
+    setCardGroup: handleSetResponseGroup,
+    createConnector: (fromCardId, toCardId, label, routing) =>
+      handleCreateConnector(fromCardId, toCardId, ownerId, label, routing),
+    hasConnector: (id) => connectorsRef.current.some(connector => connector.id === id),
+    deleteConnector: removeConnector
+  });
+
+  // For relay: Make the model's board changes; the requester records them for undo when the answer arrives
+  const handleCanvasToolCalls = (calls: AIToolCall[], requesterId: string) =>
+    runCanvasToolCalls(calls, aiCanvasActions(requesterId));
+
+  // Board changes a relay made for our answer: one undo entry each, with the latest offered for undo
+  const handleAICanvasActions = (applied: AICanvasAction[]) => {
+    const actions = aiCanvasActions(userId);
+    applied.forEach(action => {
+      const entry = canvasHistoryRef.current.push({
+        label: `AI ${action.description}`,
+        userId,
+        source: 'ai',
+        ...canvasActionSteps(action, actions)
+      });
+      setAIActionNotice(entry);
+    });
+  };
+
+  const handleUndoAIAction = (entryId: string) => {
+    canvasHistoryRef.current.undoEntry(entryId);
+    setAIActionNotice(null);
+  };
+
+  // Take a card off the board, stopping anything still streaming into it; returns how to put it back
+  const removeResponse = (id: string) => {
+    const card = aiResponsesRef.current.find(response => response.id === id);
+    handleCancelResponse(id);
+    card?.replies?.forEach(reply => handleCancelResponse(reply.id));
     setAIResponses(prev => prev.filter(response => response.id !== id));
+    AIResponseService.deleteResponse(id).catch(error => {
+      console.error('Failed to delete AI response card:', error);
+    });
+
+    return () => {
+      if (!card) return;
+      // Whatever was cut off by the removal comes back as cancelled
+      const restored: AIResponse = {
+        ...card,
+        status: card.status === 'streaming' ? 'cancelled' : card.status,
+        queuePosition: undefined,
+        replies: card.replies?.map(reply => (reply.status === 'streaming' ? { ...reply, status: 'cancelled' } : reply))
+      };
+      setAIResponses(prev => [...prev.filter(response => response.id !== id), restored]);
+      if (roomDetails?.room.id) {
+        AIResponseService.restoreResponse(roomDetails.room.id, restored).catch(error => {
+          console.error('Failed to restore AI response card:', error);
+        });
+      }
+    };
+  };
+
+  // Close cards as one undoable step
+  const closeResponses = (ids: string[], label: string) => {
+    let restores = ids.map(removeResponse);
+    canvasHistoryRef.current.push({
+      label,
+      userId,
+      source: 'user',
+      undo: () => restores.forEach(restore => restore()),
+      redo: () => {
+        const present = ids.filter(id => aiResponsesRef.current.some(response => response.id === id));
+        if (present.length === 0) return false;
+        restores = present.map(removeResponse);
+      }
+    });
+  };
+
+  const handleCloseResponse = (id: string) => {
+    closeResponses([id], 'Close card');
+  };
+
+  // Ask a follow-up on a card; the card's prompt, answer and earlier replies go along as the conversation
+  const handleReplyToResponse = async (responseId: string, prompt: string) => {
+    const card = aiResponses.find(response => response.id === responseId);
+    const roomId = roomDetails?.room.id;
+    if (!card || !roomId) return;
+
+    const turns: AIChatMessage[] = card.prompt
+      ? [{ role: 'user', content: card.prompt }, { role: 'assistant', content: card.content }]
+      : [{ role: 'user', content: `Note on the canvas:\n${card.content}` }];
+    (card.replies ?? [])
+      .filter(reply => reply.status === 'done')
+      .forEach(reply => {
+        turns.push({ role: 'user', content: reply.prompt }, { role: 'assistant', content: reply.content });
+      });
+
+    const reply: AIResponseReply = {
+      id: crypto.randomUUID(),
+      responseId,
+      fromUserId: userId,
+      prompt,
+      content: '',
+      status: 'streaming',
+      createdAt: new Date().toISOString()
+    };
+    const controller = new AbortController();
+    aiCancelHandlersRef.current.set(reply.id, () => controller.abort());
+    upsertReply(reply);
+    AIResponseService.createReply(roomId, reply).catch(error => {
+      console.error('Failed to save AI reply:', error);
+    });
+
+    let streamed = '';
+    let finished: Pick<AIResponseReply, 'content' | 'status' | 'provider' | 'citations'>;
+    try {
+      if (!aiService.current) throw new Error('AI service not initialized');
+      const result = await aiService.current.sendRequest(prompt, {
+        signal: controller.signal,
+        thread: { cardId: responseId, turns },
+        onChunk: (_delta, content) => {
+          streamed = content;
+          upsertReply({ ...reply, content });
+        }
+      });
+      finished = { content: result.content, status: 'done', provider: result.provider, citations: result.citations };
+    } catch (error) {
+      if (controller.signal.aborted) {
+        finished = { content: streamed, status: 'cancelled' };
+      } else {
+        console.error('Failed to send AI reply:', error);
+        finished = {
+          content: error instanceof AIRequestError ? error.message : 'Failed to send AI request. Please try again.',
+          status: 'error'
+        };
+      }
+    }
+
+    aiCancelHandlersRef.current.delete(reply.id);
+    upsertReply({ ...reply, ...finished });
+    AIResponseService.updateReply(reply.id, finished).catch(error => {
+      console.error('Failed to save AI reply:', error);
+    });
+  };
+
+  // /clear removes only the cards this participant asked for
+  const handleClearMyResponses = () => {
+    const ids = aiResponses.filter(response => response.fromUserId === userId).map(response => response.id);
+    if (ids.length > 0) closeResponses(ids, 'Clear my AI cards');
   };
 
   if (isLoading) {
@@ -374,6 +1380,37 @@ export function RoomView({ roomCode, userId, onLeaveRoom }: RoomViewProps) {
         </div>
       </div>
 
+      {/* AI relay handoff notice */}
+      {relayNotice && (
+        <div className="absolute top-[60px] left-1/2 transform -translate-x-1/2 z-40 mt-2">
+          <div className="flex items-center gap-2 px-4 py-2 bg-blue-50 rounded-full shadow-sm border border-blue-100">
+            <span className="text-sm font-medium text-blue-700">
+              {!relayNotice.relayUserId
+                ? '🤖 Nobody with an AI key is here; requests go through the server'
+                : relayNotice.relayUserId === userId
+                  ? '🤖 You are now answering AI requests for the room'
+                  : `🤖 ${roomDetails.participants.find(p => p.userId === relayNotice.relayUserId)?.displayName ?? 'Another participant'} is now answering AI requests`}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {/* Latest AI board change, with a way to take it back */}
+      {aiActionNotice && (
+        <div className={`absolute ${relayNotice ? 'top-[104px]' : 'top-[60px]'} left-1/2 transform -translate-x-1/2 z-40 mt-2`}>
+          <div className="flex items-center gap-3 px-4 py-2 bg-purple-50 rounded-full shadow-sm border border-purple-100">
+            <span className="text-sm font-medium text-purple-700">🧩 {aiActionNotice.label}</span>
+            <button
+              onClick={() => handleUndoAIAction(aiActionNotice.id)}
+              className="flex items-center gap-1 text-sm text-purple-600 hover:text-purple-800"
+            >
+              <Undo2 className="w-4 h-4" />
+              <span>Undo</span>
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Recording Timer - Only show when actively recording */}
       {isRecording && recordingDuration > 0 && (
         <div className="absolute top-[60px] left-1/2 transform -translate-x-1/2 z-40">
@@ -400,7 +1437,49 @@ export function RoomView({ roomCode, userId, onLeaveRoom }: RoomViewProps) {
           cursorTracker={hybridCursorTrackerRef.current}
           otherCursors={otherCursors}
           onCursorUpdate={(cursors) => setOtherCursors(cursors)}
+          onTransformChange={(transform) => {
+            canvasTransformRef.current = transform;
+          }}
+          onMarqueeSelect={handleMarqueeSelect}
+          onSelectionClick={handleSelectionClick}
+          contentBoxes={boardBoxes}
         >
+          {/* Whiteboard objects */}
+          {canvasObjects.map(object => (
+            <CanvasObjectView
+              key={object.id}
+              object={object}
+              isSelected={selectedIds.includes(object.id)}
+              onSelect={handleSelectItem}
+              onMove={(id, position) => handleMoveItem(id, position, () => updateCanvasObject(id, { position }))}
+              onResize={(id, size) => updateCanvasObject(id, { size })}
+              onInteractionEnd={(id, start) => handleItemInteractionEnd(id, start, handleCanvasObjectInteractionEnd)}
+              onChange={handleChangeCanvasObject}
+              onDelete={handleDeleteCanvasObject}
+            />
+          ))}
+
+          <SketchLayer
+            userId={userId}
+            tool={boardTool === 'connector' ? null : boardTool}
+            color={boardTool === 'pen' || boardTool === 'highlighter' ? inkColors[boardTool] : INK_COLORS.pen[0]}
+            objects={canvasObjects}
+            liveStrokes={liveStrokes}
+            onStrokeProgress={streamStroke}
+            onStrokeEnd={handleStrokeEnd}
+            onErase={deleteCanvasObject}
+            onEraseEnd={handleEraseEnd}
+          />
+
+          <CanvasConnectors
+            connectors={connectors}
+            boxes={boardBoxes}
+            isConnecting={boardTool === 'connector'}
+            onCreate={handleDrawConnector}
+            onUpdate={handleUpdateConnector}
+            onDelete={handleDeleteConnector}
+          />
+
           {/* AI Response Objects */}
           {aiResponses.map((response) => (
             <AIResponseObject
@@ -408,17 +1487,68 @@ export function RoomView({ roomCode, userId, onLeaveRoom }: RoomViewProps) {
               id={response.id}
               content={response.content}
               position={response.position}
+              size={response.size}
               rotation={response.rotation}
               zIndex={response.zIndex}
               fromUserId={response.fromUserId}
-              onMove={handleMoveResponse}
+              isStreaming={response.status === 'streaming'}
+              queuePosition={response.queuePosition}
+              provider={response.provider}
+              latencyMs={response.latencyMs}
+              citations={response.citations}
+              replies={response.replies}
+              onReply={handleReplyToResponse}
+              isGroupHighlighted={!!response.groupId && response.groupId === hoveredGroupId}
+              onHoverChange={(isHovered) => {
+                if (response.groupId) setHoveredGroupId(isHovered ? response.groupId : null);
+              }}
+              isSelected={selectedIds.includes(response.id)}
+              onSelect={handleSelectItem}
+              onCancel={handleCancelResponse}
+              onMove={(id, position) => handleMoveItem(id, position, handleMoveResponse)}
               onResize={handleResizeResponse}
+              onInteractionEnd={(id, start) => handleItemInteractionEnd(id, start, handleResponseInteractionEnd)}
               onClose={handleCloseResponse}
             />
           ))}
+
+          <SelectionLayer
+            boxes={boardBoxes}
+            selectedIds={selectedIds}
+            remoteSelections={remoteSelections
+              .filter(selection => selection.userId !== userId)
+              .map(selection => {
+                const participant = roomDetails?.participants.find(p => p.userId === selection.userId);
+                return {
+                  ...selection,
+                  color: participant?.userColor ?? '#6b7280',
+                  name: participant?.displayName ?? 'Someone'
+                };
+              })}
+            canGroup={canGroupSelection}
+            canUngroup={canUngroupSelection}
+            onResize={handleResizeSelection}
+            onResizeEnd={handleResizeSelectionEnd}
+            onAlign={handleAlignSelection}
+            onDistribute={handleDistributeSelection}
+            onGroup={() => regroupSelection('Group', crypto.randomUUID())}
+            onUngroup={() => regroupSelection('Ungroup', undefined)}
+          />
         </InfiniteCanvas>
       </div>
 
+      <CanvasObjectPalette
+        onAdd={handleAddCanvasObject}
+        tool={boardTool}
+        onToolChange={setBoardTool}
+        inkColors={inkColors}
+        onInkColorChange={(tool, color) => setInkColors(prev => ({ ...prev, [tool]: color }))}
+        canUndo={historyState.canUndo}
+        canRedo={historyState.canRedo}
+        onUndo={() => canvasHistoryRef.current.undo(userId)}
+        onRedo={() => canvasHistoryRef.current.redo(userId)}
+      />
+
       {/* Share Modal */}
       <ShareModal
         isOpen={isShareModalOpen}
@@ -432,10 +1562,14 @@ export function RoomView({ roomCode, userId, onLeaveRoom }: RoomViewProps) {
       <FloatingToolbar
         isRecording={isRecording}
         onToggleRecording={handleToggleRecording}
-        isHost={roomDetails?.participants.find(p => p.userId === userId)?.isHost || false}
+        isHost={isHost}
         roomId={roomDetails?.room.id}
         userId={userId}
-        onAIResponse={handleAIResponse}
+        participants={roomDetails.participants}
+        aiService={aiService}
+        onAIResponse={handleAskedAIResponse}
+        onClearMyAIResponses={handleClearMyResponses}
+        onAISettingsChange={reloadProvider}
         recordingDuration={recordingDuration}
       />
     </div>
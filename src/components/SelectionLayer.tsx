@@ -0,0 +1,213 @@
+import React, { useEffect, useRef } from 'react';
+import {
+  AlignCenterHorizontal,
+  AlignCenterVertical,
+  AlignEndHorizontal,
+  AlignEndVertical,
+  AlignHorizontalDistributeCenter,
+  AlignStartHorizontal,
+  AlignStartVertical,
+  AlignVerticalDistributeCenter,
+  Group,
+  Ungroup,
+  type LucideIcon
+} from 'lucide-react';
+import type { BoardBox } from '../lib/canvasGeometry';
+import { boundsOf, type AlignEdge, type BoardRect, type DistributeAxis } from '../lib/selectionGeometry';
+
+// Another participant's selection, with how to label it
+interface SelectionOwner {
+  userId: string;
+  ids: string[];
+  color: string;
+  name: string;
+}
+
+interface SelectionLayerProps {
+  // Everything on the board, bottom to top
+  boxes: BoardBox[];
+  selectedIds: string[];
+  remoteSelections: SelectionOwner[];
+  canGroup: boolean;
+  canUngroup: boolean;
+  // The selection's corner is being dragged; gets the new bounds, top-left corner fixed
+  onResize: (bounds: BoardRect) => void;
+  onResizeEnd: () => void;
+  onAlign: (edge: AlignEdge) => void;
+  onDistribute: (axis: DistributeAxis) => void;
+  onGroup: () => void;
+  onUngroup: () => void;
+}
+
+// Smallest a selection can be squeezed to
+const MIN_SELECTION_SIZE = { width: 40, height: 24 };
+
+// Above every object and card; below other people's cursors
+const SELECTION_LAYER_Z_INDEX = 997;
+
+const ALIGN_OPTIONS: Array<{ edge: AlignEdge; label: string; icon: LucideIcon }> = [
+  { edge: 'left', label: 'Align left', icon: AlignStartVertical },
+  { edge: 'center', label: 'Align centres', icon: AlignCenterVertical },
+  { edge: 'right', label: 'Align right', icon: AlignEndVertical },
+  { edge: 'top', label: 'Align top', icon: AlignStartHorizontal },
+  { edge: 'middle', label: 'Align middles', icon: AlignCenterHorizontal },
+  { edge: 'bottom', label: 'Align bottom', icon: AlignEndHorizontal }
+];
+
+const DISTRIBUTE_OPTIONS: Array<{ axis: DistributeAxis; label: string; icon: LucideIcon }> = [
+  { axis: 'horizontal', label: 'Space evenly across', icon: AlignHorizontalDistributeCenter },
+  { axis: 'vertical', label: 'Space evenly down', icon: AlignVerticalDistributeCenter }
+];
+
+const ToolbarButton: React.FC<{ label: string; icon: LucideIcon; disabled?: boolean; onClick: () => void }> = ({
+  label,
+  icon: Icon,
+  disabled = false,
+  onClick
+}) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    className="p-1.5 rounded text-gray-600 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent"
+    title={label}
+  >
+    <Icon className="w-4 h-4" />
+  </button>
+);
+
+// Outlines around what everyone has selected, and the box, handle and toolbar for our own multi-selection
+export function SelectionLayer({
+  boxes,
+  selectedIds,
+  remoteSelections,
+  canGroup,
+  canUngroup,
+  onResize,
+  onResizeEnd,
+  onAlign,
+  onDistribute,
+  onGroup,
+  onUngroup
+}: SelectionLayerProps) {
+  const outlineRef = useRef<HTMLDivElement>(null);
+  const callbacksRef = useRef({ onResize, onResizeEnd });
+  callbacksRef.current = { onResize, onResizeEnd };
+  // Removes the document listeners of a resize still in progress when the layer goes away
+  const stopResizeRef = useRef<(() => void) | null>(null);
+  useEffect(() => () => stopResizeRef.current?.(), []);
+
+  const boxesById = new Map(boxes.map(box => [box.id, box]));
+  const selected = selectedIds.map(id => boxesById.get(id)).filter((box): box is BoardBox => !!box);
+  const bounds = selected.length > 1 ? boundsOf(selected) : null;
+
+  const startResize = (e: React.PointerEvent) => {
+    if (e.button !== 0 || !bounds) return;
+    e.preventDefault();
+    e.stopPropagation();
+    // Pointer deltas are in screen pixels; the selection lives in the scaled canvas
+    const element = outlineRef.current;
+    const rect = element?.getBoundingClientRect();
+    const scale = element && rect && element.offsetWidth ? rect.width / element.offsetWidth : 1;
+    const start = { x: e.clientX, y: e.clientY, bounds };
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      callbacksRef.current.onResize({
+        x: start.bounds.x,
+        y: start.bounds.y,
+        width: Math.max(MIN_SELECTION_SIZE.width, start.bounds.width + (moveEvent.clientX - start.x) / scale),
+        height: Math.max(MIN_SELECTION_SIZE.height, start.bounds.height + (moveEvent.clientY - start.y) / scale)
+      });
+    };
+    const stop = () => {
+      document.removeEventListener('pointermove', handleMove);
+      document.removeEventListener('pointerup', handleUp);
+      stopResizeRef.current = null;
+    };
+    const handleUp = () => {
+      stop();
+      callbacksRef.current.onResizeEnd();
+    };
+    stopResizeRef.current = stop;
+    document.addEventListener('pointermove', handleMove);
+    document.addEventListener('pointerup', handleUp);
+  };
+
+  return (
+    <>
+      {/* Other participants' selections, each in their colour with their name on top */}
+      {remoteSelections.map(({ userId, ids, color, name }) => {
+        const owned = ids.map(id => boxesById.get(id)).filter((box): box is BoardBox => !!box);
+        const area = boundsOf(owned);
+        if (!area) return null;
+        return (
+          <div key={userId} className="pointer-events-none">
+            {owned.map(box => (
+              <div
+                key={box.id}
+                className="absolute rounded-sm"
+                style={{
+                  left: box.position.x - 3,
+                  top: box.position.y - 3,
+                  width: box.size.width + 6,
+                  height: box.size.height + 6,
+                  border: `2px solid ${color}`,
+                  zIndex: SELECTION_LAYER_Z_INDEX
+                }}
+              />
+            ))}
+            <div
+              className="absolute px-1.5 py-0.5 rounded text-xs text-white whitespace-nowrap shadow"
+              style={{ left: area.x - 3, top: area.y - 26, backgroundColor: color, zIndex: SELECTION_LAYER_Z_INDEX }}
+            >
+              {name}
+            </div>
+          </div>
+        );
+      })}
+
+      {/* Our own multi-selection: one box around it all, a corner to resize it by, and what can be done to it */}
+      {bounds && (
+        <>
+          <div
+            ref={outlineRef}
+            className="absolute pointer-events-none border-2 border-dashed border-blue-500"
+            style={{
+              left: bounds.x - 6,
+              top: bounds.y - 6,
+              width: bounds.width + 12,
+              height: bounds.height + 12,
+              zIndex: SELECTION_LAYER_Z_INDEX
+            }}
+          >
+            <div
+              className="absolute -bottom-1.5 -right-1.5 w-3 h-3 bg-white border-2 border-blue-500 pointer-events-auto cursor-se-resize"
+              onPointerDown={startResize}
+              title="Drag to resize the selection"
+            />
+          </div>
+          <div
+            className="absolute flex items-center gap-0.5 p-1 bg-white rounded-lg shadow-lg border border-gray-200"
+            style={{ left: bounds.x - 6, top: bounds.y - 52, zIndex: SELECTION_LAYER_Z_INDEX + 1 }}
+          >
+            <ToolbarButton label="Group" icon={Group} disabled={!canGroup} onClick={onGroup} />
+            <ToolbarButton label="Ungroup" icon={Ungroup} disabled={!canUngroup} onClick={onUngroup} />
+            <div className="w-px h-5 bg-gray-200 mx-0.5" />
+            {ALIGN_OPTIONS.map(({ edge, label, icon }) => (
+              <ToolbarButton key={edge} label={label} icon={icon} onClick={() => onAlign(edge)} />
+            ))}
+            <div className="w-px h-5 bg-gray-200 mx-0.5" />
+            {DISTRIBUTE_OPTIONS.map(({ axis, label, icon }) => (
+              <ToolbarButton
+                key={axis}
+                label={label}
+                icon={icon}
+                disabled={selected.length < 3}
+                onClick={() => onDistribute(axis)}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </>
+  );
+}
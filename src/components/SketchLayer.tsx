@@ -0,0 +1,197 @@
+import React, { useRef, useState } from 'react';
+import { InkStroke } from './InkStroke';
+import { CANVAS_SIZE } from '../lib/canvasGeometry';
+import {
+  DEFAULT_PRESSURE,
+  inkPadding,
+  smoothPoint,
+  strokeBounds,
+  strokeHitTest,
+  strokeNaturalSize
+} from '../lib/inkGeometry';
+import { INK_TOOL_STYLES } from '../services/canvasObjectService';
+import type { CanvasObject, InkTool, LiveStroke, StrokeObject, StrokePoint } from '../types/canvas';
+
+export type SketchTool = InkTool | 'eraser';
+
+// Board pixels around the eraser's tip that rub a stroke out
+const ERASER_RADIUS = 10;
+
+// Above every object and card so drawing works anywhere, below other people's cursors
+const SKETCH_LAYER_Z_INDEX = 999;
+
+interface SketchLayerProps {
+  userId: string;
+  // While no sketch tool is picked the layer only shows other people's strokes and lets clicks through
+  tool: SketchTool | null;
+  color: string;
+  objects: CanvasObject[];
+  liveStrokes: LiveStroke[];
+  onStrokeProgress: (stroke: LiveStroke) => void;
+  onStrokeEnd: (stroke: LiveStroke) => void;
+  // Each stroke as the eraser touches it, then all of them once it is lifted
+  onErase: (id: string) => void;
+  onEraseEnd: (ids: string[]) => void;
+}
+
+// A stroke still being drawn, in board coordinates
+const LiveStrokeView: React.FC<{ stroke: LiveStroke }> = ({ stroke }) => {
+  if (stroke.points.length === 0) return null;
+  const bounds = strokeBounds(stroke.points, inkPadding(stroke.style.strokeWidth ?? 4));
+  return (
+    <div
+      className="absolute pointer-events-none"
+      style={{ left: bounds.x, top: bounds.y, width: bounds.width, height: bounds.height, opacity: stroke.style.opacity }}
+    >
+      <InkStroke
+        tool={stroke.tool}
+        points={stroke.points}
+        style={stroke.style}
+        viewBox={`${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}`}
+      />
+    </div>
+  );
+};
+
+// Whether the eraser at a board point touches a finished stroke, which may have been moved and stretched since
+const eraserHits = (object: StrokeObject, x: number, y: number) => {
+  const { position, size, style } = object;
+  if (x < position.x - ERASER_RADIUS || x > position.x + size.width + ERASER_RADIUS ||
+      y < position.y - ERASER_RADIUS || y > position.y + size.height + ERASER_RADIUS) {
+    return false;
+  }
+  const strokeWidth = style.strokeWidth ?? 4;
+  const natural = strokeNaturalSize(object.points, inkPadding(strokeWidth));
+  const scaleX = size.width ? natural.width / size.width : 1;
+  const scaleY = size.height ? natural.height / size.height : 1;
+  return strokeHitTest(
+    object.points,
+    (x - position.x) * scaleX,
+    (y - position.y) * scaleY,
+    ERASER_RADIUS * Math.max(scaleX, scaleY) + strokeWidth / 2
+  );
+};
+
+// Pen, highlighter and eraser input over the whole board, plus everyone's strokes in progress
+export const SketchLayer: React.FC<SketchLayerProps> = ({
+  userId,
+  tool,
+  color,
+  objects,
+  liveStrokes,
+  onStrokeProgress,
+  onStrokeEnd,
+  onErase,
+  onEraseEnd
+}) => {
+  const layerRef = useRef<HTMLDivElement>(null);
+  const [stroke, setStroke] = useState<LiveStroke | null>(null);
+  // Pointer events arrive faster than renders, so the stroke being drawn is built up in a ref
+  const strokeRef = useRef<LiveStroke | null>(null);
+  // Strokes rubbed out by the current eraser gesture; null while not erasing
+  const erasedRef = useRef<string[] | null>(null);
+
+  // Board coordinates of a pointer; the layer covers the board, so its box scales with the zoom
+  const toBoardPoint = (e: PointerEvent): StrokePoint => {
+    const rect = layerRef.current?.getBoundingClientRect();
+    const scale = rect && rect.width ? rect.width / CANVAS_SIZE : 1;
+    return [
+      (e.clientX - (rect?.left ?? 0)) / scale,
+      (e.clientY - (rect?.top ?? 0)) / scale,
+      e.pointerType === 'pen' && e.pressure > 0 ? e.pressure : DEFAULT_PRESSURE
+    ];
+  };
+
+  const erase = ([x, y]: StrokePoint) => {
+    const erased = erasedRef.current;
+    if (!erased) return;
+    objects.forEach(object => {
+      if (object.type === 'stroke' && !erased.includes(object.id) && eraserHits(object, x, y)) {
+        erased.push(object.id);
+        onErase(object.id);
+      }
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!tool || e.button !== 0 || e.shiftKey) return; // Shift+drag still pans the canvas
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toBoardPoint(e.nativeEvent);
+
+    if (tool === 'eraser') {
+      erasedRef.current = [];
+      erase(point);
+      return;
+    }
+
+    const started: LiveStroke = {
+      id: crypto.randomUUID(),
+      userId,
+      tool,
+      style: { ...INK_TOOL_STYLES[tool], stroke: color },
+      points: [smoothPoint(undefined, point) ?? point]
+    };
+    strokeRef.current = started;
+    setStroke(started);
+    onStrokeProgress(started);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    // Fast pens report several samples per event; all of them go into the line
+    const coalesced = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    const samples = (coalesced.length > 0 ? coalesced : [e.nativeEvent]).map(toBoardPoint);
+
+    if (erasedRef.current) {
+      samples.forEach(erase);
+      return;
+    }
+
+    const current = strokeRef.current;
+    if (!current) return;
+    const added: StrokePoint[] = [];
+    samples.forEach(sample => {
+      const next = smoothPoint(added[added.length - 1] ?? current.points[current.points.length - 1], sample);
+      if (next) added.push(next);
+    });
+    if (added.length === 0) return;
+
+    const grown = { ...current, points: [...current.points, ...added] };
+    strokeRef.current = grown;
+    setStroke(grown);
+    onStrokeProgress(grown);
+  };
+
+  const handlePointerUp = () => {
+    const erased = erasedRef.current;
+    if (erased) {
+      erasedRef.current = null;
+      if (erased.length > 0) onEraseEnd(erased);
+      return;
+    }
+
+    const finished = strokeRef.current;
+    if (!finished) return;
+    strokeRef.current = null;
+    setStroke(null);
+    onStrokeEnd(finished);
+  };
+
+  return (
+    <div
+      ref={layerRef}
+      className="absolute inset-0"
+      style={{ zIndex: SKETCH_LAYER_Z_INDEX, pointerEvents: tool ? 'auto' : 'none' }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {liveStrokes.map(live => (
+        <LiveStrokeView key={live.id} stroke={live} />
+      ))}
+      {stroke && <LiveStrokeView stroke={stroke} />}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AIService, type AICanvasActionsHandler, type AICanvasToolHandler } from '../services/apiService';
+import { getStoredApiKey, resolveProvider } from '../services/aiProviders';
+
+interface UseAIServiceOptions {
+  roomId?: string;
+  userId: string;
+  isHost: boolean;
+  hostUserId?: string;
+  apiKey?: string; // Optional API key used while relaying
+  aiProvider?: string; // Preferred provider id while relaying
+  onCanvasToolCalls?: AICanvasToolHandler; // Board changes the model asks for while we relay
+  onCanvasActions?: AICanvasActionsHandler; // Board changes a relay made for our own answers
+}
+
+// The AI relay role moving from one participant to another
+export interface AIRelayHandoff {
+  relayUserId: string | null;
+  previousRelayUserId: string | null;
+}
+
+// One AIService per room session, shared by the toolbar and the canvas cards
+export function useAIService({ roomId, userId, isHost, hostUserId, apiKey, aiProvider, onCanvasToolCalls, onCanvasActions }: UseAIServiceOptions) {
+  const aiServiceRef = useRef<AIService | null>(null);
+  const [relayHandoff, setRelayHandoff] = useState<AIRelayHandoff | null>(null);
+  // Kept in a ref so a new handler each render does not reconnect the service
+  const canvasToolHandlerRef = useRef(onCanvasToolCalls);
+  canvasToolHandlerRef.current = onCanvasToolCalls;
+  const canvasActionsHandlerRef = useRef(onCanvasActions);
+  canvasActionsHandlerRef.current = onCanvasActions;
+
+  useEffect(() => {
+    if (!roomId || !userId) return;
+
+    // Everyone resolves a provider and stored key, since any key holder may be elected relay. Only keys saved
+    // before the room vault are found here; they stay usable until cleared in the provider modal.
+    const providerId = resolveProvider(aiProvider);
+    const relayApiKey = apiKey ?? (providerId ? getStoredApiKey(providerId) ?? undefined : undefined);
+    const service = new AIService(roomId, userId, isHost, relayApiKey, hostUserId, providerId ?? undefined);
+    service.setRelayHandoffHandler((relayUserId, previousRelayUserId) => {
+      setRelayHandoff({ relayUserId, previousRelayUserId });
+    });
+    service.setCanvasToolHandler((calls, requesterId) =>
+      canvasToolHandlerRef.current?.(calls, requesterId) ?? { outcomes: [], applied: [] }
+    );
+    service.setCanvasActionsHandler((actions) => canvasActionsHandlerRef.current?.(actions));
+    aiServiceRef.current = service;
+    return () => {
+      service.setRelayHandoffHandler(null);
+      service.setCanvasToolHandler(null);
+      service.setCanvasActionsHandler(null);
+      service.cleanup();
+      if (aiServiceRef.current === service) {
+        aiServiceRef.current = null;
+      }
+    };
+  }, [roomId, userId, isHost, hostUserId, apiKey, aiProvider]);
+
+  // Pick up keys added or changed in the provider modal without reconnecting
+  const reloadProvider = useCallback(() => {
+    const providerId = resolveProvider(aiProvider);
+    if (providerId) {
+      aiServiceRef.current?.setProvider(providerId, apiKey ?? getStoredApiKey(providerId) ?? undefined);
+    }
+    aiServiceRef.current?.refreshVaultProviders();
+  }, [apiKey, aiProvider]);
+
+  return { aiService: aiServiceRef, reloadProvider, relayHandoff };
+}
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CanvasSyncService } from '../services/canvasSyncService';
+import type { CanvasObject, CanvasObjectUpdate, LiveStroke, RemoteSelection } from '../types/canvas';
+
+// Whiteboard objects for a room session, merged conflict-free with every other participant's edits
+export function useCanvasSync(roomId: string | undefined, userId: string) {
+  const syncRef = useRef<CanvasSyncService | null>(null);
+  const [objects, setObjects] = useState<CanvasObject[]>([]);
+  // Strokes other participants are drawing right now
+  const [liveStrokes, setLiveStrokes] = useState<LiveStroke[]>([]);
+  // What other participants have selected
+  const [remoteSelections, setRemoteSelections] = useState<RemoteSelection[]>([]);
+
+  useEffect(() => {
+    if (!roomId || !userId) return;
+
+    const sync = new CanvasSyncService(roomId, userId, setObjects);
+    sync.setLiveStrokeHandler(setLiveStrokes);
+    sync.setRemoteSelectionHandler(setRemoteSelections);
+    syncRef.current = sync;
+    return () => {
+      sync.cleanup();
+      if (syncRef.current === sync) {
+        syncRef.current = null;
+      }
+      setObjects([]);
+      setLiveStrokes([]);
+      setRemoteSelections([]);
+    };
+  }, [roomId, userId]);
+
+  const createObject = useCallback((object: CanvasObject) => {
+    syncRef.current?.createObject(object);
+  }, []);
+
+  const updateObject = useCallback((id: string, update: CanvasObjectUpdate) => {
+    syncRef.current?.updateObject(id, update);
+  }, []);
+
+  const deleteObject = useCallback((id: string) => {
+    syncRef.current?.deleteObject(id);
+  }, []);
+
+  const restoreObject = useCallback((id: string) => {
+    syncRef.current?.restoreObject(id);
+  }, []);
+
+  // Reads the merged document directly, for checks that cannot wait for the next render
+  const getObject = useCallback((id: string) => syncRef.current?.getObject(id) ?? null, []);
+
+  const streamStroke = useCallback((stroke: LiveStroke) => {
+    syncRef.current?.streamStroke(stroke);
+  }, []);
+
+  const endStroke = useCallback((stroke: LiveStroke) => {
+    syncRef.current?.endStroke(stroke);
+  }, []);
+
+  const shareSelection = useCallback((ids: string[]) => {
+    syncRef.current?.shareSelection(ids);
+  }, []);
+
+  return {
+    objects,
+    liveStrokes,
+    remoteSelections,
+    createObject,
+    updateObject,
+    deleteObject,
+    restoreObject,
+    getObject,
+    streamStroke,
+    endStroke,
+    shareSelection
+  };
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CanvasCrdtDocument, MAX_PENDING_OPS, type CanvasOp } from './canvasCrdt';
+import type { StickyNoteObject } from '../types/canvas';
+
+const note = (text: string): StickyNoteObject => ({
+  id: 'note-1',
+  type: 'sticky_note',
+  text,
+  position: { x: 0, y: 0 },
+  size: { width: 200, height: 200 },
+  rotation: 0,
+  zIndex: 1,
+  style: {},
+  ownerId: 'alice'
+});
+
+// Same shuffle on every run, so a failing order can be replayed
+const shuffled = <T,>(items: T[], seed: number): T[] => {
+  const result = [...items];
+  let state = seed;
+  for (let i = result.length - 1; i > 0; i--) {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    const j = state % (i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// A fresh replica that has received the ops in the given order, one delivery at a time
+const replay = (ops: CanvasOp[]) => {
+  const doc = new CanvasCrdtDocument('observer');
+  ops.forEach(op => doc.applyOps([op]));
+  return doc;
+};
+
+const stateOf = (doc: CanvasCrdtDocument) => JSON.stringify(doc.exportState('note-1'));
+
+// Two replicas that both start from alice's note
+const pair = (text: string) => {
+  const alice = new CanvasCrdtDocument('alice');
+  const bob = new CanvasCrdtDocument('bob');
+  const created = alice.createObject(note(text));
+  bob.applyOps(created);
+  return { alice, bob, created };
+};
+
+describe('CanvasCrdtDocument', () => {
+  it('settles concurrent register writes on the same value whatever the delivery order', () => {
+    const { alice, bob, created } = pair('');
+    const fromAlice = alice.updateObject('note-1', { position: { x: 10, y: 10 }, rotation: 15 });
+    const fromBob = bob.updateObject('note-1', { position: { x: 50, y: 50 }, zIndex: 4 });
+    alice.applyOps(fromBob);
+    bob.applyOps(fromAlice);
+
+    const aliceFirst = replay([...created, ...fromAlice, ...fromBob]);
+    const bobFirst = replay([...fromBob, ...fromAlice, ...created]);
+
+    expect(stateOf(alice)).toBe(stateOf(bob));
+    expect(stateOf(aliceFirst)).toBe(stateOf(alice));
+    expect(stateOf(bobFirst)).toBe(stateOf(alice));
+    // Each field keeps its newest write; untouched fields keep the other replica's change
+    expect(alice.getObject('note-1')).toMatchObject({ position: { x: 50, y: 50 }, rotation: 15, zIndex: 4 });
+  });
+
+  it('keeps both concurrent inserts at the same position in one agreed order', () => {
+    const { alice, bob, created } = pair('ac');
+    const fromAlice = alice.updateObject('note-1', { text: 'aXc' });
+    const fromBob = bob.updateObject('note-1', { text: 'aYc' });
+    alice.applyOps(fromBob);
+    bob.applyOps(fromAlice);
+
+    const text = (alice.getObject('note-1') as StickyNoteObject).text;
+    expect(text).toHaveLength(4);
+    expect(text).toMatch(/^a(XY|YX)c$/);
+    expect((bob.getObject('note-1') as StickyNoteObject).text).toBe(text);
+    expect(stateOf(replay([...fromBob, ...created, ...fromAlice]))).toBe(stateOf(alice));
+  });
+
+  it('applies a removal that arrives before the character it removes', () => {
+    const { alice, created } = pair('');
+    const typed = alice.updateObject('note-1', { text: 'hello' });
+    const erased = alice.updateObject('note-1', { text: 'help' });
+
+    const late = new CanvasCrdtDocument('observer');
+    late.applyOps(created);
+    expect(late.applyOps(erased)).toEqual([]);
+    late.applyOps(typed);
+
+    expect((late.getObject('note-1') as StickyNoteObject).text).toBe('help');
+    expect(stateOf(late)).toBe(stateOf(alice));
+  });
+
+  it('converges on every shuffled delivery of a mixed edit history', () => {
+    const { alice, bob, created } = pair('draft');
+    const ops = [
+      ...created,
+      ...alice.updateObject('note-1', { text: 'first draft' }),
+      ...bob.updateObject('note-1', { text: 'draft two', size: { width: 240, height: 200 } }),
+      ...alice.updateObject('note-1', { style: { fill: '#fde68a' } }),
+      ...bob.deleteObject('note-1'),
+      ...alice.restoreObject('note-1')
+    ];
+    const expected = stateOf(replay(ops));
+
+    [1, 2, 3, 42, 2024].forEach(seed => {
+      expect(stateOf(replay(shuffled(ops, seed)))).toBe(expected);
+    });
+    expect(stateOf(replay([...ops].reverse()))).toBe(expected);
+  });
+
+  it('ignores ops delivered more than once', () => {
+    const { alice, created } = pair('');
+    const edits = alice.updateObject('note-1', { text: 'once', rotation: 30 });
+
+    const doc = replay([...created, ...edits]);
+    const before = stateOf(doc);
+    expect(doc.applyOps([...edits, ...created])).toEqual([]);
+    expect(stateOf(doc)).toBe(before);
+  });
+
+  it('gives up on the oldest waiting ops once too many never find what they refer to', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { alice, created } = pair('');
+    const typed = alice.updateObject('note-1', { text: 'hello' });
+    const erased = alice.updateObject('note-1', { text: 'help' });
+    // Removals of characters from a replica whose inserts never arrive
+    const orphans: CanvasOp[] = Array.from({ length: MAX_PENDING_OPS }, (_, i) => ({
+      kind: 'remove',
+      objectId: 'note-1',
+      field: 'text',
+      id: { counter: i + 1, replica: 'gone' },
+      stamp: { counter: i + 1, replica: 'gone' }
+    }));
+
+    const late = new CanvasCrdtDocument('observer');
+    late.applyOps(created);
+    late.applyOps(erased);
+    late.applyOps(orphans);
+    late.applyOps(typed);
+
+    // The early edit to 'help' was waiting longest, so it was dropped to make room
+    expect((late.getObject('note-1') as StickyNoteObject).text).toBe('hello');
+    expect(console.warn).toHaveBeenCalled();
+    vi.restoreAllMocks();
+  });
+});
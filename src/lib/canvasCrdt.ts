@@ -0,0 +1,428 @@
+import type { CanvasObject, CanvasObjectType, CanvasObjectUpdate } from '../types/canvas';
+
+/**
+ * Conflict-free state for whiteboard objects. Every field of an object is a last-writer-wins
+ * register and every text is an RGA sequence, all ordered by Lamport stamps. Applying the
+ * same ops in any order, any number of times, leaves every replica with the same objects;
+ * ops that arrive before what they refer to wait until it does.
+ */
+
+// Lamport clock reading; equal counters are ordered by replica so every replica sorts the same way
+export interface CrdtStamp {
+  counter: number;
+  replica: string;
+}
+
+export const compareStamps = (a: CrdtStamp, b: CrdtStamp): number =>
+  a.counter - b.counter || (a.replica < b.replica ? -1 : a.replica > b.replica ? 1 : 0);
+
+const sameStamp = (a: CrdtStamp | null, b: CrdtStamp | null) =>
+  a === b || (!!a && !!b && a.counter === b.counter && a.replica === b.replica);
+
+// Fields that take the newest value as a whole; concurrent moves of one object keep one of the moves
+const REGISTER_FIELDS = ['position', 'size', 'rotation', 'zIndex', 'style', 'groupId', 'shape', 'src', 'alt', 'tool', 'points'] as const;
+export type CanvasRegisterField = typeof REGISTER_FIELDS[number];
+
+// Fields edited character by character, so concurrent typing keeps both people's text
+const TEXT_FIELDS = ['text', 'title'] as const;
+export type CanvasTextField = typeof TEXT_FIELDS[number];
+
+interface Register {
+  value: unknown;
+  stamp: CrdtStamp;
+}
+
+// One character; removed characters stay as tombstones so later inserts can still anchor to them
+interface TextAtom {
+  id: CrdtStamp;
+  after: CrdtStamp | null;
+  char: string;
+  removed: boolean;
+}
+
+// Everything known about one object, as stored in canvas_objects.crdt_state
+export interface CanvasObjectState {
+  id: string;
+  // Null until the object's create op arrives
+  type: CanvasObjectType | null;
+  ownerId: string | null;
+  created: CrdtStamp | null;
+  // Deleting and restoring take turns like any other field, so an undone delete can be undone again
+  deleted: Register | null;
+  fields: Partial<Record<CanvasRegisterField, Register>>;
+  texts: Partial<Record<CanvasTextField, TextAtom[]>>;
+}
+
+export type CanvasOp =
+  | {
+      kind: 'create';
+      objectId: string;
+      objectType: CanvasObjectType;
+      ownerId: string;
+      stamp: CrdtStamp;
+      // Initial field values, stamped with the create stamp
+      values: Partial<Record<CanvasRegisterField, unknown>>;
+    }
+  | { kind: 'set'; objectId: string; field: CanvasRegisterField; value: unknown; stamp: CrdtStamp }
+  | { kind: 'insert'; objectId: string; field: CanvasTextField; id: CrdtStamp; after: CrdtStamp | null; char: string }
+  | { kind: 'remove'; objectId: string; field: CanvasTextField; id: CrdtStamp; stamp: CrdtStamp }
+  // Hides (or restores) the object whatever its other fields say
+  | { kind: 'delete'; objectId: string; deleted: boolean; stamp: CrdtStamp };
+
+// Ops still waiting past this many are dropped oldest first, since what they wait for may never come.
+// The stored crdt_state a replica merges on load and on every save brings back anything lost this way.
+export const MAX_PENDING_OPS = 10000;
+
+const opStamp = (op: CanvasOp): CrdtStamp => (op.kind === 'insert' ? op.id : op.stamp);
+
+const emptyState = (id: string): CanvasObjectState => ({
+  id,
+  type: null,
+  ownerId: null,
+  created: null,
+  deleted: null,
+  fields: {},
+  texts: {}
+});
+
+// Where an RGA insert goes: after its anchor, past any sibling inserted later (and that sibling's own followers)
+const insertIndex = (atoms: TextAtom[], after: CrdtStamp | null, id: CrdtStamp): number => {
+  let index = after ? atoms.findIndex(atom => sameStamp(atom.id, after)) + 1 : 0;
+  while (index < atoms.length && compareStamps(atoms[index].id, id) > 0) {
+    index++;
+  }
+  return index;
+};
+
+// The smallest edit turning one string into another: a removed range and what was typed in its place
+export function diffText(previous: string, next: string): { start: number; removed: number; inserted: string } {
+  let start = 0;
+  while (start < previous.length && start < next.length && previous[start] === next[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < previous.length - start &&
+    end < next.length - start &&
+    previous[previous.length - 1 - end] === next[next.length - 1 - end]
+  ) {
+    end++;
+  }
+  return { start, removed: previous.length - start - end, inserted: next.slice(start, next.length - end) };
+}
+
+export class CanvasCrdtDocument {
+  private replica: string;
+  private clock = 0;
+  private objects = new Map<string, CanvasObjectState>();
+  // Ops waiting for the character they refer to
+  private pending: CanvasOp[] = [];
+
+  constructor(replica: string) {
+    this.replica = replica;
+  }
+
+  private tick(): CrdtStamp {
+    this.clock += 1;
+    return { counter: this.clock, replica: this.replica };
+  }
+
+  private stateFor(id: string): CanvasObjectState {
+    let state = this.objects.get(id);
+    if (!state) {
+      state = emptyState(id);
+      this.objects.set(id, state);
+    }
+    return state;
+  }
+
+  private setRegister(state: CanvasObjectState, field: CanvasRegisterField, value: unknown, stamp: CrdtStamp): boolean {
+    const current = state.fields[field];
+    if (current && compareStamps(current.stamp, stamp) >= 0) return false;
+    state.fields[field] = { value, stamp };
+    return true;
+  }
+
+  // Apply one op; false when it has to wait, null when it changed nothing
+  private applyOne(op: CanvasOp): boolean | null {
+    const state = this.stateFor(op.objectId);
+    this.clock = Math.max(this.clock, opStamp(op).counter);
+
+    switch (op.kind) {
+      case 'create': {
+        let changed = false;
+        if (!state.created) {
+          state.type = op.objectType;
+          state.ownerId = op.ownerId;
+          state.created = op.stamp;
+          changed = true;
+        }
+        (Object.keys(op.values) as CanvasRegisterField[]).forEach(field => {
+          changed = this.setRegister(state, field, op.values[field], op.stamp) || changed;
+        });
+        return changed || null;
+      }
+
+      case 'set':
+        return this.setRegister(state, op.field, op.value, op.stamp) || null;
+
+      case 'insert': {
+        const atoms = state.texts[op.field] ?? [];
+        if (atoms.some(atom => sameStamp(atom.id, op.id))) return null;
+        if (op.after && !atoms.some(atom => sameStamp(atom.id, op.after))) return false;
+        atoms.splice(insertIndex(atoms, op.after, op.id), 0, { id: op.id, after: op.after, char: op.char, removed: false });
+        state.texts[op.field] = atoms;
+        return true;
+      }
+
+      case 'remove': {
+        const atom = state.texts[op.field]?.find(candidate => sameStamp(candidate.id, op.id));
+        if (!atom) return false;
+        if (atom.removed) return null;
+        atom.removed = true;
+        return true;
+      }
+
+      case 'delete':
+        if (state.deleted && compareStamps(state.deleted.stamp, op.stamp) >= 0) return null;
+        state.deleted = { value: op.deleted, stamp: op.stamp };
+        return true;
+    }
+  }
+
+  // Apply ops from any replica in any order; returns the ids of objects that changed
+  applyOps(ops: CanvasOp[]): string[] {
+    const changed = new Set<string>();
+    let queue = [...this.pending, ...ops];
+    this.pending = [];
+
+    // Keep retrying the waiting ops while anything new lands
+    let progressed = true;
+    while (progressed && queue.length > 0) {
+      progressed = false;
+      const waiting: CanvasOp[] = [];
+      queue.forEach(op => {
+        const result = this.applyOne(op);
+        if (result === false) {
+          waiting.push(op);
+          return;
+        }
+        progressed = true;
+        if (result) changed.add(op.objectId);
+      });
+      queue = waiting;
+    }
+
+    if (queue.length > MAX_PENDING_OPS) {
+      console.warn('Dropping canvas ops that never found what they refer to:', { count: queue.length - MAX_PENDING_OPS });
+      queue = queue.slice(-MAX_PENDING_OPS);
+    }
+    this.pending = queue;
+    return [...changed];
+  }
+
+  // Local edits: each returns the ops to send to other replicas, already applied here
+
+  createObject(object: CanvasObject): CanvasOp[] {
+    const values: Partial<Record<CanvasRegisterField, unknown>> = {};
+    const texts: Partial<Record<CanvasTextField, string>> = {};
+    Object.entries(object).forEach(([key, value]) => {
+      if ((REGISTER_FIELDS as readonly string[]).includes(key)) values[key as CanvasRegisterField] = value;
+      if ((TEXT_FIELDS as readonly string[]).includes(key)) texts[key as CanvasTextField] = value as string;
+    });
+
+    const ops: CanvasOp[] = [{
+      kind: 'create',
+      objectId: object.id,
+      objectType: object.type,
+      ownerId: object.ownerId,
+      stamp: this.tick(),
+      values
+    }];
+    this.applyOps(ops);
+    (Object.keys(texts) as CanvasTextField[]).forEach(field => {
+      ops.push(...this.editText(object.id, field, texts[field] ?? ''));
+    });
+    return ops;
+  }
+
+  updateObject(id: string, update: CanvasObjectUpdate): CanvasOp[] {
+    const ops: CanvasOp[] = [];
+    REGISTER_FIELDS.forEach(field => {
+      if (update[field] !== undefined) {
+        ops.push({ kind: 'set', objectId: id, field, value: update[field], stamp: this.tick() });
+      }
+    });
+    this.applyOps(ops);
+    TEXT_FIELDS.forEach(field => {
+      const value = update[field];
+      if (value !== undefined) ops.push(...this.editText(id, field, value));
+    });
+    return ops;
+  }
+
+  deleteObject(id: string): CanvasOp[] {
+    const ops: CanvasOp[] = [{ kind: 'delete', objectId: id, deleted: true, stamp: this.tick() }];
+    this.applyOps(ops);
+    return ops;
+  }
+
+  restoreObject(id: string): CanvasOp[] {
+    const ops: CanvasOp[] = [{ kind: 'delete', objectId: id, deleted: false, stamp: this.tick() }];
+    this.applyOps(ops);
+    return ops;
+  }
+
+  // Turn the whole new text into character ops against what this replica currently shows
+  private editText(id: string, field: CanvasTextField, next: string): CanvasOp[] {
+    const visible = (this.objects.get(id)?.texts[field] ?? []).filter(atom => !atom.removed);
+    const { start, removed, inserted } = diffText(visible.map(atom => atom.char).join(''), next);
+
+    const ops: CanvasOp[] = visible.slice(start, start + removed).map(atom => ({
+      kind: 'remove' as const,
+      objectId: id,
+      field,
+      id: atom.id,
+      stamp: this.tick()
+    }));
+    let after = start > 0 ? visible[start - 1].id : null;
+    // Split by code point, so emoji are never cut in half
+    Array.from(inserted).forEach(char => {
+      const atomId = this.tick();
+      ops.push({ kind: 'insert', objectId: id, field, id: atomId, after, char });
+      after = atomId;
+    });
+    this.applyOps(ops);
+    return ops;
+  }
+
+  // Persisted state from another replica, replayed as ops so it merges like any other change
+  mergeState(state: CanvasObjectState): string[] {
+    return this.applyOps(stateToOps(state));
+  }
+
+  // A row written before objects carried CRDT state. Built on a fresh clock, so every replica seeds
+  // it identically and any real edit, stamped after merging the seed, wins over it.
+  seedObject(object: CanvasObject): string[] {
+    if (this.objects.get(object.id)?.created) return [];
+    const seed = new CanvasCrdtDocument(`seed:${object.id}`);
+    seed.createObject(object);
+    const state = seed.exportState(object.id);
+    return state ? this.mergeState(state) : [];
+  }
+
+  // The row itself is gone, e.g. with its room; nothing can bring it back, so the state is dropped
+  forgetObject(id: string): string[] {
+    return this.objects.delete(id) ? [id] : [];
+  }
+
+  // Copy of an object's state with field keys sorted, so equal states serialise identically
+  exportState(id: string): CanvasObjectState | null {
+    const state = this.objects.get(id);
+    if (!state) return null;
+    const fields: CanvasObjectState['fields'] = {};
+    (Object.keys(state.fields) as CanvasRegisterField[]).sort().forEach(field => {
+      fields[field] = state.fields[field];
+    });
+    const texts: CanvasObjectState['texts'] = {};
+    (Object.keys(state.texts) as CanvasTextField[]).sort().forEach(field => {
+      texts[field] = state.texts[field]?.map(atom => ({ ...atom }));
+    });
+    return { ...state, deleted: state.deleted && { ...state.deleted }, fields, texts };
+  }
+
+  // Whether this replica knows something the given state lacks, so it should be written back
+  isAheadOf(state: CanvasObjectState): boolean {
+    const ours = this.exportState(state.id);
+    const theirs = new CanvasCrdtDocument(this.replica);
+    theirs.mergeState(state);
+    return JSON.stringify(ours) !== JSON.stringify(theirs.exportState(state.id));
+  }
+
+  getObject(id: string): CanvasObject | null {
+    const state = this.objects.get(id);
+    return state ? materialize(state) : null;
+  }
+
+  // The object as it stands even while deleted, so its row keeps something a restore can show
+  getSnapshot(id: string): CanvasObject | null {
+    const state = this.objects.get(id);
+    return state ? materialize(state, true) : null;
+  }
+
+  isDeleted(id: string): boolean {
+    return !!this.objects.get(id)?.deleted?.value;
+  }
+
+  // Live objects, bottom to top; ties in stacking order fall back to creation order
+  getObjects(): CanvasObject[] {
+    return [...this.objects.values()]
+      .map(state => ({ state, object: materialize(state) }))
+      .filter((entry): entry is { state: CanvasObjectState; object: CanvasObject } => !!entry.object)
+      .sort((a, b) =>
+        a.object.zIndex - b.object.zIndex ||
+        compareStamps(a.state.created as CrdtStamp, b.state.created as CrdtStamp)
+      )
+      .map(entry => entry.object);
+  }
+}
+
+// Ops that rebuild a state; characters come in stamp order, so each anchor lands before what follows it
+export function stateToOps(state: CanvasObjectState): CanvasOp[] {
+  const ops: CanvasOp[] = [];
+  if (state.type && state.ownerId && state.created) {
+    ops.push({ kind: 'create', objectId: state.id, objectType: state.type, ownerId: state.ownerId, stamp: state.created, values: {} });
+  }
+  (Object.keys(state.fields) as CanvasRegisterField[]).forEach(field => {
+    const register = state.fields[field];
+    if (register) ops.push({ kind: 'set', objectId: state.id, field, value: register.value, stamp: register.stamp });
+  });
+  (Object.keys(state.texts) as CanvasTextField[]).forEach(field => {
+    const atoms = [...(state.texts[field] ?? [])].sort((a, b) => compareStamps(a.id, b.id));
+    atoms.forEach(atom => {
+      ops.push({ kind: 'insert', objectId: state.id, field, id: atom.id, after: atom.after, char: atom.char });
+    });
+    atoms.filter(atom => atom.removed).forEach(atom => {
+      ops.push({ kind: 'remove', objectId: state.id, field, id: atom.id, stamp: atom.id });
+    });
+  });
+  if (state.deleted) {
+    ops.push({ kind: 'delete', objectId: state.id, deleted: state.deleted.value as boolean, stamp: state.deleted.stamp });
+  }
+  return ops;
+}
+
+// The object a state describes, or null while it is deleted or its create op has not arrived
+function materialize(state: CanvasObjectState, includeDeleted = false): CanvasObject | null {
+  if ((state.deleted?.value && !includeDeleted) || !state.type || !state.ownerId) return null;
+  function value<T>(field: CanvasRegisterField, fallback: T): T {
+    return (state.fields[field]?.value as T | undefined) ?? fallback;
+  }
+  const text = (field: CanvasTextField) =>
+    (state.texts[field] ?? []).filter(atom => !atom.removed).map(atom => atom.char).join('');
+
+  const base = {
+    id: state.id,
+    position: value('position', { x: 0, y: 0 }),
+    size: value('size', { width: 200, height: 200 }),
+    rotation: value('rotation', 0),
+    zIndex: value('zIndex', 1),
+    style: value('style', {}),
+    ownerId: state.ownerId,
+    groupId: value<string | null>('groupId', null) ?? undefined
+  };
+
+  switch (state.type) {
+    case 'sticky_note':
+    case 'text':
+      return { ...base, type: state.type, text: text('text') };
+    case 'shape':
+      return { ...base, type: 'shape', shape: value('shape', 'rectangle'), text: text('text') };
+    case 'image':
+      return { ...base, type: 'image', src: value('src', ''), alt: value('alt', '') };
+    case 'frame':
+      return { ...base, type: 'frame', title: text('title') };
+    case 'stroke':
+      return { ...base, type: 'stroke', tool: value('tool', 'pen'), points: value('points', []) };
+  }
+}
@@ -0,0 +1,62 @@
+import type { BoardRect } from './selectionGeometry';
+
+// Side of the square board div in InfiniteCanvas; before any pan or zoom its centre sits at the centre of the screen
+export const CANVAS_SIZE = 25000; // px
+
+// Pan and zoom applied to the board div
+export interface CanvasTransform {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+// How far the view can zoom out and in
+export const MIN_CANVAS_SCALE = 0.2;
+export const MAX_CANVAS_SCALE = 5;
+
+// Board coordinates of the middle of the screen
+export const viewportCenter = (transform: CanvasTransform) => ({
+  x: (CANVAS_SIZE / 2 - transform.x) / transform.scale,
+  y: (CANVAS_SIZE / 2 - transform.y) / transform.scale
+});
+
+// The part of the board a screen of the given size shows
+export function visibleArea(transform: CanvasTransform, screen: { width: number; height: number }): BoardRect {
+  const center = viewportCenter(transform);
+  const width = screen.width / transform.scale;
+  const height = screen.height / transform.scale;
+  return { x: center.x - width / 2, y: center.y - height / 2, width, height };
+}
+
+// Pan that puts a board point in the middle of the screen at a given zoom
+export const centeredOn = (point: { x: number; y: number }, scale: number): CanvasTransform => ({
+  x: CANVAS_SIZE / 2 - point.x * scale,
+  y: CANVAS_SIZE / 2 - point.y * scale,
+  scale
+});
+
+// Pan and zoom showing the whole of an area with a margin around it, as far as the zoom limits allow
+export function fitTransform(area: BoardRect, screen: { width: number; height: number }, margin: number): CanvasTransform {
+  const scale = Math.min(
+    MAX_CANVAS_SCALE,
+    Math.max(
+      MIN_CANVAS_SCALE,
+      Math.min(screen.width / (area.width + margin * 2), screen.height / (area.height + margin * 2))
+    )
+  );
+  return centeredOn({ x: area.x + area.width / 2, y: area.y + area.height / 2 }, scale);
+}
+
+// Anything placed on the board: a whiteboard object or an AI card, in board coordinates
+export interface BoardBox {
+  id: string;
+  position: { x: number; y: number };
+  size: { width: number; height: number };
+}
+
+// Where an object stood when a drag or resize began
+export interface CanvasInteractionStart {
+  mode: 'drag' | 'resize';
+  position: { x: number; y: number };
+  size: { width: number; height: number };
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { anchorPoint, boxAt, nearestAnchor, routeConnector } from './connectorGeometry';
+import type { BoardBox } from './canvasGeometry';
+
+const box = (id: string, x: number, y: number, width = 100, height = 100): BoardBox => ({
+  id,
+  position: { x, y },
+  size: { width, height }
+});
+
+describe('anchorPoint', () => {
+  it('sits in the middle of each side', () => {
+    const card = box('a', 0, 0, 200, 100);
+
+    expect(anchorPoint(card, 'top')).toEqual({ x: 100, y: 0 });
+    expect(anchorPoint(card, 'right')).toEqual({ x: 200, y: 50 });
+    expect(anchorPoint(card, 'bottom')).toEqual({ x: 100, y: 100 });
+    expect(anchorPoint(card, 'left')).toEqual({ x: 0, y: 50 });
+  });
+});
+
+describe('routeConnector', () => {
+  it('joins the facing sides of boxes side by side when both ends are auto', () => {
+    const route = routeConnector(box('a', 0, 0), box('b', 300, 0), 'auto', 'auto', 'straight');
+
+    expect(route.start).toEqual({ x: 100, y: 50 });
+    expect(route.end).toEqual({ x: 300, y: 50 });
+    expect(route.path).toBe('M100,50 L300,50');
+    expect(route.labelAt).toEqual({ x: 200, y: 50 });
+  });
+
+  it('goes bottom to top for boxes stacked one above the other', () => {
+    const route = routeConnector(box('a', 0, 0), box('b', 20, 300), 'auto', 'auto', 'straight');
+
+    expect(route.start).toEqual({ x: 50, y: 100 });
+    expect(route.end).toEqual({ x: 70, y: 300 });
+  });
+
+  it('keeps a fixed anchor and turns the auto end towards it', () => {
+    const route = routeConnector(box('a', 0, 0), box('b', 300, 0), 'top', 'auto', 'straight');
+
+    expect(route.start).toEqual({ x: 50, y: 0 });
+    expect(route.end).toEqual({ x: 300, y: 50 });
+  });
+
+  it('routes elbows at right angles, turning half way, with the label half way along', () => {
+    const route = routeConnector(box('a', 0, 0), box('b', 300, 200), 'right', 'left', 'elbow');
+
+    expect(route.path).toBe('M100,50 L200,50 L200,250 L300,250');
+    expect(route.labelAt).toEqual({ x: 200, y: 150 });
+  });
+
+  it('leaves and enters curves square to each side', () => {
+    const route = routeConnector(box('a', 0, 0), box('b', 300, 0), 'right', 'left', 'curved');
+    const [, c1x, c1y, c2x, c2y] = route.path.match(/^M100,50 C([\d.]+),([\d.]+) ([\d.]+),([\d.]+) 300,50$/)!.map(Number);
+
+    expect(c1y).toBe(50);
+    expect(c2y).toBe(50);
+    expect(c1x).toBeGreaterThan(100);
+    expect(c2x).toBeLessThan(300);
+    expect(route.labelAt.x).toBeCloseTo(200);
+    expect(route.labelAt.y).toBeCloseTo(50);
+  });
+});
+
+describe('nearestAnchor', () => {
+  const boxes = [box('a', 0, 0), box('b', 300, 0)];
+
+  it('picks the closest side midpoint within the distance', () => {
+    expect(nearestAnchor(boxes, { x: 290, y: 55 }, 20)).toMatchObject({ box: { id: 'b' }, side: 'left' });
+    expect(nearestAnchor(boxes, { x: 104, y: 48 }, 20)).toMatchObject({ box: { id: 'a' }, side: 'right' });
+  });
+
+  it('finds nothing when every anchor is too far away', () => {
+    expect(nearestAnchor(boxes, { x: 200, y: 200 }, 20)).toBeNull();
+  });
+});
+
+describe('boxAt', () => {
+  it('returns the topmost box under the point, edges included', () => {
+    const boxes = [box('below', 0, 0), box('above', 50, 50)];
+
+    expect(boxAt(boxes, { x: 75, y: 75 })?.id).toBe('above');
+    expect(boxAt(boxes, { x: 10, y: 10 })?.id).toBe('below');
+    expect(boxAt(boxes, { x: 100, y: 0 })?.id).toBe('below');
+    expect(boxAt(boxes, { x: 200, y: 10 })).toBeNull();
+  });
+});
@@ -0,0 +1,188 @@
+import type { BoardBox } from './canvasGeometry';
+import type { ConnectorAnchor, ConnectorRouting } from '../types/room';
+
+type Point = { x: number; y: number };
+type Side = Exclude<ConnectorAnchor, 'auto'>;
+
+export const CONNECTOR_SIDES: Side[] = ['top', 'right', 'bottom', 'left'];
+
+// How far elbow routes run straight out of a side before turning
+const ELBOW_MARGIN = 24; // px
+
+// Outward direction of each side
+const SIDE_DIRECTIONS: Record<Side, Point> = {
+  top: { x: 0, y: -1 },
+  right: { x: 1, y: 0 },
+  bottom: { x: 0, y: 1 },
+  left: { x: -1, y: 0 }
+};
+
+const centerOf = ({ position, size }: BoardBox): Point => ({
+  x: position.x + size.width / 2,
+  y: position.y + size.height / 2
+});
+
+// Middle of one side of a box
+export function anchorPoint(box: BoardBox, side: Side): Point {
+  const center = centerOf(box);
+  const direction = SIDE_DIRECTIONS[side];
+  return {
+    x: center.x + (direction.x * box.size.width) / 2,
+    y: center.y + (direction.y * box.size.height) / 2
+  };
+}
+
+// The side of a box that faces a point, weighing the offset by the box's shape
+function sideFacing(box: BoardBox, target: Point): Side {
+  const center = centerOf(box);
+  const dx = (target.x - center.x) / Math.max(box.size.width, 1);
+  const dy = (target.y - center.y) / Math.max(box.size.height, 1);
+  if (Math.abs(dx) >= Math.abs(dy)) return dx >= 0 ? 'right' : 'left';
+  return dy >= 0 ? 'bottom' : 'top';
+}
+
+// Concrete sides for both ends; an 'auto' end faces the other end's box, or its fixed anchor
+function resolveSides(from: BoardBox, to: BoardBox, fromAnchor: ConnectorAnchor, toAnchor: ConnectorAnchor) {
+  const fromSide = fromAnchor !== 'auto'
+    ? fromAnchor
+    : sideFacing(from, toAnchor !== 'auto' ? anchorPoint(to, toAnchor) : centerOf(to));
+  const toSide = toAnchor !== 'auto' ? toAnchor : sideFacing(to, anchorPoint(from, fromSide));
+  return { fromSide, toSide };
+}
+
+const isHorizontal = (side: Side) => side === 'left' || side === 'right';
+
+// Right-angled path out of one side and into the other, turning half way between them
+function elbowPoints(start: Point, startSide: Side, end: Point, endSide: Side): Point[] {
+  const startOut = {
+    x: start.x + SIDE_DIRECTIONS[startSide].x * ELBOW_MARGIN,
+    y: start.y + SIDE_DIRECTIONS[startSide].y * ELBOW_MARGIN
+  };
+  const endOut = {
+    x: end.x + SIDE_DIRECTIONS[endSide].x * ELBOW_MARGIN,
+    y: end.y + SIDE_DIRECTIONS[endSide].y * ELBOW_MARGIN
+  };
+
+  let middle: Point[];
+  if (isHorizontal(startSide) && isHorizontal(endSide)) {
+    const midX = (startOut.x + endOut.x) / 2;
+    middle = [{ x: midX, y: startOut.y }, { x: midX, y: endOut.y }];
+  } else if (!isHorizontal(startSide) && !isHorizontal(endSide)) {
+    const midY = (startOut.y + endOut.y) / 2;
+    middle = [{ x: startOut.x, y: midY }, { x: endOut.x, y: midY }];
+  } else if (isHorizontal(startSide)) {
+    middle = [{ x: endOut.x, y: startOut.y }];
+  } else {
+    middle = [{ x: startOut.x, y: endOut.y }];
+  }
+
+  // Drop points that repeat or sit in the middle of a straight run
+  const points = [start, startOut, ...middle, endOut, end];
+  return points.filter((point, i) => {
+    if (i === 0 || i === points.length - 1) return true;
+    const prev = points[i - 1];
+    const next = points[i + 1];
+    const samePrev = point.x === prev.x && point.y === prev.y;
+    const straight = (prev.x === point.x && point.x === next.x) || (prev.y === point.y && point.y === next.y);
+    return !samePrev && !straight;
+  });
+}
+
+// Point half way along a polyline
+function polylineMidpoint(points: Point[]): Point {
+  const lengths = points.slice(1).map((point, i) => Math.hypot(point.x - points[i].x, point.y - points[i].y));
+  let remaining = lengths.reduce((sum, length) => sum + length, 0) / 2;
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i] && lengths[i] > 0) {
+      const t = remaining / lengths[i];
+      return { x: points[i].x + (points[i + 1].x - points[i].x) * t, y: points[i].y + (points[i + 1].y - points[i].y) * t };
+    }
+    remaining -= lengths[i];
+  }
+  return points[points.length - 1];
+}
+
+export interface ConnectorRoute {
+  path: string;
+  // Where the label sits: the middle of the route
+  labelAt: Point;
+  start: Point;
+  end: Point;
+}
+
+// SVG path from one box to another. Markers take their direction from the path's ends, so curves and
+// elbows leave and enter each side square to it.
+export function routeConnector(
+  from: BoardBox,
+  to: BoardBox,
+  fromAnchor: ConnectorAnchor,
+  toAnchor: ConnectorAnchor,
+  routing: ConnectorRouting
+): ConnectorRoute {
+  const { fromSide, toSide } = resolveSides(from, to, fromAnchor, toAnchor);
+  const start = anchorPoint(from, fromSide);
+  const end = anchorPoint(to, toSide);
+
+  switch (routing) {
+    case 'straight':
+      return {
+        path: `M${start.x},${start.y} L${end.x},${end.y}`,
+        labelAt: { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 },
+        start,
+        end
+      };
+
+    case 'curved': {
+      // Control points pull each end straight out of its side, further for longer connectors
+      const reach = Math.max(40, Math.hypot(end.x - start.x, end.y - start.y) / 3);
+      const c1 = { x: start.x + SIDE_DIRECTIONS[fromSide].x * reach, y: start.y + SIDE_DIRECTIONS[fromSide].y * reach };
+      const c2 = { x: end.x + SIDE_DIRECTIONS[toSide].x * reach, y: end.y + SIDE_DIRECTIONS[toSide].y * reach };
+      return {
+        path: `M${start.x},${start.y} C${c1.x},${c1.y} ${c2.x},${c2.y} ${end.x},${end.y}`,
+        // The cubic's point at t = 0.5
+        labelAt: {
+          x: (start.x + 3 * c1.x + 3 * c2.x + end.x) / 8,
+          y: (start.y + 3 * c1.y + 3 * c2.y + end.y) / 8
+        },
+        start,
+        end
+      };
+    }
+
+    case 'elbow': {
+      const points = elbowPoints(start, fromSide, end, toSide);
+      return {
+        path: points.map((point, i) => `${i === 0 ? 'M' : 'L'}${point.x},${point.y}`).join(' '),
+        labelAt: polylineMidpoint(points),
+        start,
+        end
+      };
+    }
+  }
+}
+
+// The box whose side midpoint is nearest a point, within a distance; null if none is that close
+export function nearestAnchor(boxes: BoardBox[], point: Point, distance: number) {
+  let best: { box: BoardBox; side: Side; distance: number } | null = null;
+  for (const box of boxes) {
+    for (const side of CONNECTOR_SIDES) {
+      const anchor = anchorPoint(box, side);
+      const away = Math.hypot(anchor.x - point.x, anchor.y - point.y);
+      if (away <= distance && (!best || away < best.distance)) {
+        best = { box, side, distance: away };
+      }
+    }
+  }
+  return best;
+}
+
+// The topmost box under a point, if any; boxes come bottom to top
+export function boxAt(boxes: BoardBox[], point: Point): BoardBox | null {
+  for (let i = boxes.length - 1; i >= 0; i--) {
+    const { position, size } = boxes[i];
+    if (point.x >= position.x && point.x <= position.x + size.width && point.y >= position.y && point.y <= position.y + size.height) {
+      return boxes[i];
+    }
+  }
+  return null;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  INK_SMOOTHING,
+  anchorStroke,
+  smoothPoint,
+  strokeCenterPath,
+  strokeHitTest,
+  strokeNaturalSize,
+  strokeOutlinePath
+} from './inkGeometry';
+import type { StrokePoint } from '../types/canvas';
+
+describe('smoothPoint', () => {
+  it('keeps the first point where the pen touched down, rounded to a tenth', () => {
+    expect(smoothPoint(undefined, [10.04, 20.06, 0.5])).toEqual([10, 20.1, 0.5]);
+  });
+
+  it('eases each next point towards the previous one', () => {
+    const [x, y] = smoothPoint([0, 0, 0.5], [100, 50, 0.5])!;
+    expect(x).toBeCloseTo(100 * (1 - INK_SMOOTHING), 1);
+    expect(y).toBeCloseTo(50 * (1 - INK_SMOOTHING), 1);
+  });
+
+  it('drops input that barely moves the pen', () => {
+    expect(smoothPoint([10, 10, 0.5], [11, 11, 0.9])).toBeNull();
+  });
+});
+
+describe('strokeHitTest', () => {
+  const line: StrokePoint[] = [[0, 0, 0.5], [100, 0, 0.5], [100, 100, 0.5]];
+
+  it('hits along a segment, not only at its points', () => {
+    expect(strokeHitTest(line, 50, 4, 5)).toBe(true);
+    expect(strokeHitTest(line, 96, 60, 5)).toBe(true);
+  });
+
+  it('misses points further away than the distance, including past the ends', () => {
+    expect(strokeHitTest(line, 50, 6, 5)).toBe(false);
+    expect(strokeHitTest(line, -6, 0, 5)).toBe(false);
+    // Inside the corner the two segments make, but near neither
+    expect(strokeHitTest(line, 50, 50, 5)).toBe(false);
+  });
+
+  it('treats a single point as a dot', () => {
+    expect(strokeHitTest([[10, 10, 0.5]], 13, 14, 5)).toBe(true);
+    expect(strokeHitTest([[10, 10, 0.5]], 20, 20, 5)).toBe(false);
+  });
+});
+
+describe('anchorStroke', () => {
+  it('moves the points to a corner one padding outside them and keeps their pressure', () => {
+    const anchored = anchorStroke([[50, 40, 0.2], [80, 100, 0.9]], 4);
+
+    expect(anchored.position).toEqual({ x: 46, y: 36 });
+    expect(anchored.size).toEqual({ width: 38, height: 68 });
+    expect(anchored.points).toEqual([[4, 4, 0.2], [34, 64, 0.9]]);
+  });
+
+  it('measures back to the size it was anchored at', () => {
+    const anchored = anchorStroke([[12.5, 7, 0.5], [30, 44.2, 0.5], [3, 20, 0.5]], 6);
+
+    expect(strokeNaturalSize(anchored.points, 6)).toEqual(anchored.size);
+  });
+});
+
+describe('stroke paths', () => {
+  it('gives a lone dot a tiny segment so its round cap shows', () => {
+    expect(strokeCenterPath([[5, 5, 0.5]])).toBe('M5,5 l0.01,0');
+    expect(strokeCenterPath([])).toBe('');
+  });
+
+  it('curves through the midpoints between samples', () => {
+    const path = strokeCenterPath([[0, 0, 0.5], [10, 0, 0.5], [10, 10, 0.5]]);
+    expect(path).toMatch(/^M0,0\s+Q10,0 10,5 L10,10$/);
+  });
+
+  it('outlines a pen stroke as one closed shape, or a circle for a dot', () => {
+    const outline = strokeOutlinePath([[0, 0, 0.5], [20, 0, 1], [40, 0, 0]], 4);
+    expect(outline.startsWith('M')).toBe(true);
+    expect(outline.endsWith('Z')).toBe(true);
+    expect(outline.match(/A/g)).toHaveLength(2);
+
+    // Width 4 at half pressure is a radius of 2
+    expect(strokeOutlinePath([[10, 10, 0.5]], 4)).toBe('M8,10 a2,2 0 1,0 4,0 a2,2 0 1,0 -4,0 Z');
+  });
+});
@@ -0,0 +1,134 @@
+import type { StrokePoint } from '../types/canvas';
+
+// How far each new input point is pulled towards the previous one; higher is smoother but lags the pen more
+export const INK_SMOOTHING = 0.45;
+
+// Input points closer than this to the last kept one add nothing but size
+const MIN_POINT_DISTANCE = 1.5; // px
+
+// Mice and fingers report no real pressure; they draw as a pen pressed half way
+export const DEFAULT_PRESSURE = 0.5;
+
+// Ink points are kept to this many decimals, which is well below a pixel at full zoom
+const POINT_PRECISION = 10;
+
+const round = (value: number) => Math.round(value * POINT_PRECISION) / POINT_PRECISION;
+
+// Next point of a stroke being drawn, eased towards the last one; null when the pen has barely moved
+export function smoothPoint(previous: StrokePoint | undefined, input: StrokePoint): StrokePoint | null {
+  if (!previous) return [round(input[0]), round(input[1]), input[2]];
+  const x = previous[0] + (input[0] - previous[0]) * (1 - INK_SMOOTHING);
+  const y = previous[1] + (input[1] - previous[1]) * (1 - INK_SMOOTHING);
+  if (Math.hypot(x - previous[0], y - previous[1]) < MIN_POINT_DISTANCE) return null;
+  return [round(x), round(y), round(input[2])];
+}
+
+// Half the width of a pen line at a given pressure
+const penRadius = (width: number, pressure: number) => (width / 2) * (0.4 + 1.2 * pressure);
+
+// Quadratic curves on from the first point (where the path already is) through the midpoints of the rest,
+// so corners between samples come out round
+function curveThrough(points: Array<[number, number]>): string {
+  if (points.length < 3) return points.slice(1).map(([x, y]) => `L${x},${y}`).join(' ');
+  let d = '';
+  for (let i = 1; i < points.length - 1; i++) {
+    const [x, y] = points[i];
+    const [nextX, nextY] = points[i + 1];
+    d += ` Q${x},${y} ${round((x + nextX) / 2)},${round((y + nextY) / 2)}`;
+  }
+  const [lastX, lastY] = points[points.length - 1];
+  return `${d} L${lastX},${lastY}`;
+}
+
+// Centre line of a stroke, drawn with a fixed width (highlighter)
+export function strokeCenterPath(points: StrokePoint[]): string {
+  if (points.length === 0) return '';
+  const [first, ...rest] = points;
+  // A lone dot still needs a segment for the round cap to show
+  if (rest.length === 0) return `M${first[0]},${first[1]} l0.01,0`;
+  return `M${first[0]},${first[1]} ${curveThrough(points.map(([x, y]) => [x, y]))}`;
+}
+
+// Filled outline of a pen stroke, thicker where the pen was pressed harder, with round ends
+export function strokeOutlinePath(points: StrokePoint[], width: number): string {
+  if (points.length === 0) return '';
+  if (points.length === 1) {
+    const [x, y, pressure] = points[0];
+    const r = round(penRadius(width, pressure));
+    return `M${round(x - r)},${y} a${r},${r} 0 1,0 ${r * 2},0 a${r},${r} 0 1,0 ${-r * 2},0 Z`;
+  }
+
+  const left: Array<[number, number]> = [];
+  const right: Array<[number, number]> = [];
+  points.forEach(([x, y, pressure], i) => {
+    // Normal to the direction through this point's neighbours
+    const [prevX, prevY] = points[Math.max(0, i - 1)];
+    const [nextX, nextY] = points[Math.min(points.length - 1, i + 1)];
+    const length = Math.hypot(nextX - prevX, nextY - prevY) || 1;
+    const r = penRadius(width, pressure);
+    const normalX = (-(nextY - prevY) / length) * r;
+    const normalY = ((nextX - prevX) / length) * r;
+    left.push([round(x + normalX), round(y + normalY)]);
+    right.push([round(x - normalX), round(y - normalY)]);
+  });
+
+  const endRadius = round(penRadius(width, points[points.length - 1][2]));
+  const startRadius = round(penRadius(width, points[0][2]));
+  const [rightEndX, rightEndY] = right[right.length - 1];
+  const [leftStartX, leftStartY] = left[0];
+  right.reverse();
+  return [
+    `M${leftStartX},${leftStartY}`,
+    curveThrough(left),
+    `A${endRadius},${endRadius} 0 0,0 ${rightEndX},${rightEndY}`,
+    curveThrough(right),
+    `A${startRadius},${startRadius} 0 0,0 ${leftStartX},${leftStartY}`,
+    'Z'
+  ].join(' ');
+}
+
+// Smallest box around a stroke, padded so thick lines are not clipped
+export function strokeBounds(points: StrokePoint[], padding: number) {
+  const xs = points.map(point => point[0]);
+  const ys = points.map(point => point[1]);
+  const x = Math.min(...xs) - padding;
+  const y = Math.min(...ys) - padding;
+  return {
+    x,
+    y,
+    width: Math.max(...xs) + padding - x,
+    height: Math.max(...ys) + padding - y
+  };
+}
+
+// Room left around a stroke's points for the width of its line
+export const inkPadding = (strokeWidth: number) => strokeWidth;
+
+// A finished stroke as an object: its corner one padding outside the points, and the points measured from there
+export function anchorStroke(points: StrokePoint[], padding: number) {
+  const bounds = strokeBounds(points, padding);
+  return {
+    position: { x: round(bounds.x), y: round(bounds.y) },
+    size: { width: round(bounds.width), height: round(bounds.height) },
+    points: points.map(([x, y, pressure]): StrokePoint => [round(x - bounds.x), round(y - bounds.y), pressure])
+  };
+}
+
+// Size a stroke was drawn at: its points are measured from a corner one padding outside them
+export function strokeNaturalSize(points: StrokePoint[], padding: number) {
+  return {
+    width: Math.max(0, ...points.map(point => point[0])) + padding,
+    height: Math.max(0, ...points.map(point => point[1])) + padding
+  };
+}
+
+// Whether a point lies within a distance of any segment of a stroke
+export function strokeHitTest(points: StrokePoint[], x: number, y: number, distance: number): boolean {
+  return points.some((point, i) => {
+    const [ax, ay] = i === 0 ? point : points[i - 1];
+    const [bx, by] = point;
+    const lengthSquared = (bx - ax) ** 2 + (by - ay) ** 2;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((x - ax) * (bx - ax) + (y - ay) * (by - ay)) / lengthSquared));
+    return Math.hypot(x - (ax + t * (bx - ax)), y - (ay + t * (by - ay))) <= distance;
+  });
+}
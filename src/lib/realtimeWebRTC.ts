@@ -161,6 +161,8 @@ export class WebRTCSignalingManager {
   private lastPollingSuccess = Date.now();
   private dataChannels = new Map<string, RTCDataChannel>();
   private dataMessageHandler: ((fromUserId: string, message: string) => void) | null = null;
+  // Handlers of services sharing this manager, each told about every message alongside the one above
+  private dataMessageListeners = new Set<(fromUserId: string, message: string) => void>();
 
   constructor(roomId: string, userId: string) {
     this.roomId = roomId;
@@ -996,27 +998,72 @@ export class WebRTCSignalingManager {
     }
   }
 
+  // Whether a data channel to the peer is open and can carry messages
+  isDataChannelOpen(toUserId: string): boolean {
+    return this.dataChannels.get(toUserId)?.readyState === 'open';
+  }
+
   // Register a handler for incoming data messages
   setDataMessageHandler(handler: (fromUserId: string, message: string) => void) {
     this.dataMessageHandler = handler;
     // Attach handler to all existing channels
     this.dataChannels.forEach((channel, userId) => {
       channel.onmessage = (event) => {
-        handler(userId, event.data);
+        this.dispatchDataMessage(userId, event.data);
       };
     });
   }
 
+  // Add a handler for incoming data messages next to any others; returns a function that removes it
+  addDataMessageHandler(handler: (fromUserId: string, message: string) => void): () => void {
+    this.dataMessageListeners.add(handler);
+    return () => {
+      this.dataMessageListeners.delete(handler);
+    };
+  }
+
+  private dispatchDataMessage(fromUserId: string, message: string) {
+    this.dataMessageHandler?.(fromUserId, message);
+    this.dataMessageListeners.forEach(listener => listener(fromUserId, message));
+  }
+
   private attachDataChannelHandlers(userId: string, channel: RTCDataChannel) {
     // Log when a data channel is created
     console.log(`[WebRTC] Data channel created with ${userId}`);
     // Attach message handler if set
     channel.onmessage = (event) => {
       console.log(`[WebRTC] Data channel message from ${userId}:`, event.data);
-      if (this.dataMessageHandler) {
-        this.dataMessageHandler(userId, event.data);
-      }
+      this.dispatchDataMessage(userId, event.data);
     };
     // Optionally, handle open/close/error events here
   }
-}
\ No newline at end of file
+}
+
+// One manager per room and participant for the services that exchange data messages, so a single
+// poller takes the signals addressed to us and every service uses the same data channels
+const sharedManagers = new Map<string, { manager: WebRTCSignalingManager; users: number }>();
+
+// The room's shared manager, created and polling on first use; pair with releaseSignalingManager
+export function acquireSignalingManager(roomId: string, userId: string): WebRTCSignalingManager {
+  const key = `${roomId}:${userId}`;
+  let shared = sharedManagers.get(key);
+  if (!shared) {
+    shared = { manager: new WebRTCSignalingManager(roomId, userId), users: 0 };
+    shared.manager.startSignalPolling();
+    sharedManagers.set(key, shared);
+  }
+  shared.users += 1;
+  return shared.manager;
+}
+
+// Give back a shared manager; the last service to do so closes it
+export function releaseSignalingManager(roomId: string, userId: string) {
+  const key = `${roomId}:${userId}`;
+  const shared = sharedManagers.get(key);
+  if (!shared) return;
+  shared.users -= 1;
+  if (shared.users <= 0) {
+    shared.manager.cleanup();
+    sharedManagers.delete(key);
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { alignBoxes, boundsOf, boxesInside, distributeBoxes, rectBetween, scaleBoxes } from './selectionGeometry';
+import type { BoardBox } from './canvasGeometry';
+
+const box = (id: string, x: number, y: number, width = 100, height = 50): BoardBox => ({
+  id,
+  position: { x, y },
+  size: { width, height }
+});
+
+describe('marquee selection', () => {
+  it('makes the same rectangle whichever way it is dragged', () => {
+    const rect = { x: 10, y: 20, width: 90, height: 60 };
+
+    expect(rectBetween({ x: 10, y: 20 }, { x: 100, y: 80 })).toEqual(rect);
+    expect(rectBetween({ x: 100, y: 80 }, { x: 10, y: 20 })).toEqual(rect);
+    expect(rectBetween({ x: 100, y: 20 }, { x: 10, y: 80 })).toEqual(rect);
+  });
+
+  it('picks only boxes wholly inside, touching edges included', () => {
+    const boxes = [box('inside', 10, 10), box('edge', 0, 100), box('overlapping', 150, 10), box('outside', 400, 400)];
+
+    const picked = boxesInside(boxes, { x: 0, y: 0, width: 200, height: 150 });
+
+    expect(picked.map(b => b.id)).toEqual(['inside', 'edge']);
+  });
+
+  it('bounds every box, or nothing for none', () => {
+    expect(boundsOf([box('a', 10, 20), box('b', 200, -30, 50, 50)])).toEqual({ x: 10, y: -30, width: 240, height: 100 });
+    expect(boundsOf([])).toBeNull();
+  });
+});
+
+describe('alignBoxes', () => {
+  const boxes = [box('small', 50, 0, 100, 50), box('wide', 0, 100, 300, 100)];
+
+  it('lines boxes up with an edge of the selection', () => {
+    expect(alignBoxes(boxes, 'left').get('small')).toEqual({ x: 0, y: 0 });
+    expect(alignBoxes(boxes, 'right').get('small')).toEqual({ x: 200, y: 0 });
+    expect(alignBoxes(boxes, 'bottom').get('small')).toEqual({ x: 50, y: 150 });
+  });
+
+  it('centres boxes on the selection\'s middle lines', () => {
+    expect(alignBoxes(boxes, 'center').get('small')).toEqual({ x: 100, y: 0 });
+    expect(alignBoxes(boxes, 'middle').get('wide')).toEqual({ x: 0, y: 50 });
+  });
+});
+
+describe('distributeBoxes', () => {
+  it('leaves equal gaps between neighbours and keeps the outermost two in place', () => {
+    const boxes = [box('c', 500, 0, 100), box('a', 0, 0, 100), box('b', 120, 0, 200)];
+
+    const positions = distributeBoxes(boxes, 'horizontal');
+
+    expect(positions.get('a')).toEqual({ x: 0, y: 0 });
+    expect(positions.get('b')).toEqual({ x: 200, y: 0 });
+    expect(positions.get('c')).toEqual({ x: 500, y: 0 });
+  });
+
+  it('needs at least three boxes', () => {
+    expect(distributeBoxes([box('a', 0, 0), box('b', 0, 300)], 'vertical').size).toBe(0);
+  });
+});
+
+describe('scaleBoxes', () => {
+  it('keeps each box\'s place within the selection as it stretches', () => {
+    const from = { x: 0, y: 0, width: 200, height: 100 };
+    const to = { x: 100, y: 100, width: 400, height: 300 };
+
+    const [scaled] = scaleBoxes([box('a', 100, 50, 100, 50)], from, to);
+
+    expect(scaled).toEqual({ id: 'a', position: { x: 300, y: 250 }, size: { width: 200, height: 150 } });
+  });
+
+  it('does not divide by zero for a flat selection', () => {
+    const [scaled] = scaleBoxes([box('line', 0, 0, 100, 0)], { x: 0, y: 0, width: 100, height: 0 }, { x: 0, y: 0, width: 200, height: 0 });
+
+    expect(scaled.size).toEqual({ width: 200, height: 0 });
+  });
+});
@@ -0,0 +1,104 @@
+import type { BoardBox } from './canvasGeometry';
+
+type Point = { x: number; y: number };
+
+// Axis-aligned area on the board
+export interface BoardRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+// The rectangle between two corners, whichever way round they were dragged
+export const rectBetween = (a: Point, b: Point): BoardRect => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y)
+});
+
+// Smallest rectangle around every box; null for none
+export function boundsOf(boxes: BoardBox[]): BoardRect | null {
+  if (boxes.length === 0) return null;
+  const left = Math.min(...boxes.map(box => box.position.x));
+  const top = Math.min(...boxes.map(box => box.position.y));
+  const right = Math.max(...boxes.map(box => box.position.x + box.size.width));
+  const bottom = Math.max(...boxes.map(box => box.position.y + box.size.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+// Boxes lying wholly inside a rectangle, as a marquee picks them
+export const boxesInside = (boxes: BoardBox[], rect: BoardRect) =>
+  boxes.filter(({ position, size }) =>
+    position.x >= rect.x &&
+    position.y >= rect.y &&
+    position.x + size.width <= rect.x + rect.width &&
+    position.y + size.height <= rect.y + rect.height
+  );
+
+// New corners lining every box up with the matching edge (or centre line) of the selection
+export function alignBoxes(boxes: BoardBox[], edge: AlignEdge): Map<string, Point> {
+  const bounds = boundsOf(boxes);
+  const positions = new Map<string, Point>();
+  if (!bounds) return positions;
+
+  boxes.forEach(({ id, position, size }) => {
+    switch (edge) {
+      case 'left':
+        positions.set(id, { x: bounds.x, y: position.y });
+        break;
+      case 'center':
+        positions.set(id, { x: bounds.x + (bounds.width - size.width) / 2, y: position.y });
+        break;
+      case 'right':
+        positions.set(id, { x: bounds.x + bounds.width - size.width, y: position.y });
+        break;
+      case 'top':
+        positions.set(id, { x: position.x, y: bounds.y });
+        break;
+      case 'middle':
+        positions.set(id, { x: position.x, y: bounds.y + (bounds.height - size.height) / 2 });
+        break;
+      case 'bottom':
+        positions.set(id, { x: position.x, y: bounds.y + bounds.height - size.height });
+        break;
+    }
+  });
+  return positions;
+}
+
+// New corners leaving equal gaps between neighbouring boxes along one axis; the outermost two stay put
+export function distributeBoxes(boxes: BoardBox[], axis: DistributeAxis): Map<string, Point> {
+  const key = axis === 'horizontal' ? 'x' : 'y';
+  const extent = axis === 'horizontal' ? 'width' : 'height';
+  const sorted = [...boxes].sort((a, b) => a.position[key] - b.position[key]);
+  const positions = new Map<string, Point>();
+  if (sorted.length < 3) return positions;
+
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const occupied = sorted.reduce((sum, box) => sum + box.size[extent], 0);
+  const gap = (last.position[key] + last.size[extent] - first.position[key] - occupied) / (sorted.length - 1);
+
+  let next = first.position[key];
+  sorted.forEach(({ id, position, size }) => {
+    positions.set(id, { ...position, [key]: next });
+    next += size[extent] + gap;
+  });
+  return positions;
+}
+
+// Boxes stretched from one selection rectangle to another, keeping where each sits within it
+export function scaleBoxes(boxes: BoardBox[], from: BoardRect, to: BoardRect): BoardBox[] {
+  const scaleX = from.width ? to.width / from.width : 1;
+  const scaleY = from.height ? to.height / from.height : 1;
+  return boxes.map(({ id, position, size }) => ({
+    id,
+    position: { x: to.x + (position.x - from.x) * scaleX, y: to.y + (position.y - from.y) * scaleY },
+    size: { width: size.width * scaleX, height: size.height * scaleY }
+  }));
+}
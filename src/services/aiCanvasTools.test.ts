@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { canvasActionSteps, runCanvasToolCalls, type AICanvasActions } from './aiCanvasTools';
+import type { AIToolCall } from '../types/ai';
+
+type Card = { position: { x: number; y: number }; size: { width: number; height: number }; groupId?: string };
+
+// A board of cards and connectors kept in plain maps
+const fakeBoard = () => {
+  const cards = new Map<string, Card>();
+  const connectors = new Set<string>();
+  let nextId = 0;
+  const actions: AICanvasActions = {
+    getCard: (id) => cards.get(id),
+    createNote: (_content, position) => {
+      const id = `note-${nextId++}`;
+      cards.set(id, { position: position ?? { x: 0, y: 0 }, size: { width: 100, height: 50 } });
+      return id;
+    },
+    deleteCard: (id) => {
+      const card = cards.get(id);
+      cards.delete(id);
+      return () => { if (card) cards.set(id, card); };
+    },
+    moveCard: (id, position) => {
+      const card = cards.get(id);
+      if (card) cards.set(id, { ...card, position });
+    },
+    setCardGroup: (id, groupId) => {
+      const card = cards.get(id);
+      if (card) cards.set(id, { ...card, groupId });
+    },
+    createConnector: () => {
+      const id = `connector-${nextId++}`;
+      connectors.add(id);
+      return id;
+    },
+    hasConnector: (id) => connectors.has(id),
+    deleteConnector: (id) => { connectors.delete(id); }
+  };
+  const addCard = (id: string, x: number, y = 0) => cards.set(id, { position: { x, y }, size: { width: 100, height: 50 } });
+  return { cards, connectors, actions, addCard };
+};
+
+const call = (name: string, args: Record<string, unknown>): AIToolCall => ({ id: name, name, arguments: args });
+
+describe('runCanvasToolCalls', () => {
+  it('reports each call and returns only the ones that changed the board', () => {
+    const board = fakeBoard();
+    board.addCard('a', 0);
+
+    const run = runCanvasToolCalls([
+      call('move_card', { card_id: 'a', x: 50, y: 60 }),
+      call('move_card', { card_id: 'missing', x: 1, y: 1 }),
+      call('create_note', { content: 'milk' })
+    ], board.actions);
+
+    expect(run.outcomes).toEqual(['moved a card', 'could not move card (there is no card missing)', 'created a note']);
+    expect(run.applied.map(action => action.tool)).toEqual(['move_card', 'create_note']);
+    expect(board.cards.get('a')?.position).toEqual({ x: 50, y: 60 });
+  });
+});
+
+describe('canvasActionSteps', () => {
+  it('moves a card back and forth while it stays where the AI put it', () => {
+    const board = fakeBoard();
+    board.addCard('a', 0);
+    const [action] = runCanvasToolCalls([call('move_card', { card_id: 'a', x: 50, y: 0 })], board.actions).applied;
+    const steps = canvasActionSteps(action, board.actions);
+
+    expect(steps.undo()).not.toBe(false);
+    expect(board.cards.get('a')?.position).toEqual({ x: 0, y: 0 });
+    expect(steps.redo()).not.toBe(false);
+    expect(board.cards.get('a')?.position).toEqual({ x: 50, y: 0 });
+  });
+
+  it('leaves a card alone once someone else has moved it', () => {
+    const board = fakeBoard();
+    board.addCard('a', 0);
+    const [action] = runCanvasToolCalls([call('move_card', { card_id: 'a', x: 50, y: 0 })], board.actions).applied;
+    board.actions.moveCard('a', { x: 300, y: 300 });
+
+    expect(canvasActionSteps(action, board.actions).undo()).toBe(false);
+    expect(board.cards.get('a')?.position).toEqual({ x: 300, y: 300 });
+  });
+
+  it('ungroups only the cards still grouped where the AI left them', () => {
+    const board = fakeBoard();
+    board.addCard('a', 0);
+    board.addCard('b', 500, 200);
+    board.addCard('c', 900, 400);
+    const [action] = runCanvasToolCalls([call('group_cards', { card_ids: ['a', 'b', 'c'] })], board.actions).applied;
+    board.actions.setCardGroup('b', 'someone-elses-group');
+    board.actions.moveCard('c', { x: 10, y: 10 });
+    const steps = canvasActionSteps(action, board.actions);
+
+    expect(steps.undo()).not.toBe(false);
+    expect(board.cards.get('a')).toMatchObject({ position: { x: 0, y: 0 }, groupId: undefined });
+    expect(board.cards.get('b')?.groupId).toBe('someone-elses-group');
+    expect(board.cards.get('c')?.position).toEqual({ x: 10, y: 10 });
+
+    board.actions.moveCard('a', { x: 70, y: 70 });
+    expect(steps.redo()).toBe(false);
+  });
+
+  it('does not bring back a note or connector someone else already removed', () => {
+    const board = fakeBoard();
+    board.addCard('a', 0);
+    board.addCard('b', 200);
+    const [note, connector] = runCanvasToolCalls([
+      call('create_note', { content: 'milk' }),
+      call('draw_connector', { from_card_id: 'a', to_card_id: 'b' })
+    ], board.actions).applied;
+    const noteSteps = canvasActionSteps(note, board.actions);
+    const connectorSteps = canvasActionSteps(connector, board.actions);
+
+    board.actions.deleteConnector([...board.connectors][0]);
+    expect(connectorSteps.undo()).toBe(false);
+
+    expect(noteSteps.undo()).not.toBe(false);
+    expect(board.cards.size).toBe(2);
+    expect(noteSteps.redo()).not.toBe(false);
+    expect(board.cards.size).toBe(3);
+    expect(noteSteps.redo()).toBe(false);
+  });
+});
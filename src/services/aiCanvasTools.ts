@@ -0,0 +1,301 @@
+import type { AICanvasAction, AIToolCall, AIToolDefinition } from '../types/ai';
+import type { ConnectorRouting } from '../types/room';
+
+type Point = { x: number; y: number };
+
+// Offered to the model when a prompt may change the board. Card ids come from the board listing in the system message.
+export const AI_CANVAS_TOOLS: AIToolDefinition[] = [
+  {
+    name: 'create_note',
+    description: 'Add a note card to the board.',
+    parameters: {
+      type: 'object',
+      properties: {
+        content: { type: 'string', description: 'Markdown text of the note' },
+        x: { type: 'number', description: 'Left edge in board coordinates; omit both x and y to place it by the chat input' },
+        y: { type: 'number', description: 'Top edge in board coordinates' }
+      },
+      required: ['content']
+    }
+  },
+  {
+    name: 'move_card',
+    description: 'Move a card on the board.',
+    parameters: {
+      type: 'object',
+      properties: {
+        card_id: { type: 'string', description: 'Id of the card from the board listing' },
+        x: { type: 'number', description: 'New left edge in board coordinates' },
+        y: { type: 'number', description: 'New top edge in board coordinates' }
+      },
+      required: ['card_id', 'x', 'y']
+    }
+  },
+  {
+    name: 'group_cards',
+    description: 'Group cards that belong together. They are lined up side by side starting at the first card and highlight together.',
+    parameters: {
+      type: 'object',
+      properties: {
+        card_ids: { type: 'array', items: { type: 'string' }, description: 'Ids of two or more cards, in order' }
+      },
+      required: ['card_ids']
+    }
+  },
+  {
+    name: 'draw_connector',
+    description: 'Draw an arrow from one card to another.',
+    parameters: {
+      type: 'object',
+      properties: {
+        from_card_id: { type: 'string', description: 'Id of the card the arrow starts at' },
+        to_card_id: { type: 'string', description: 'Id of the card the arrow points to' },
+        label: { type: 'string', description: 'Short caption for the arrow' },
+        routing: {
+          type: 'string',
+          enum: ['straight', 'elbow', 'curved'],
+          description: 'How the arrow runs between the cards; straight if omitted'
+        }
+      },
+      required: ['from_card_id', 'to_card_id']
+    }
+  }
+];
+
+const AI_CANVAS_TOOL_NAMES = new Set(AI_CANVAS_TOOLS.map(tool => tool.name));
+
+// Space between grouped cards, matching compare-mode groups
+const GROUP_CARD_GAP = 24; // px
+
+// What the AI may do to the board. RoomView implements these with the same handlers as mouse actions, on the
+// relay to carry out tool calls and on the requester to take them back.
+export interface AICanvasActions {
+  getCard(id: string): { position: Point; size: { width: number; height: number }; groupId?: string } | undefined;
+  createNote(content: string, position?: Point): string;
+  // Returns how to put the card back
+  deleteCard(id: string): () => void;
+  moveCard(id: string, position: Point): void;
+  setCardGroup(id: string, groupId: string | undefined): void;
+  createConnector(fromCardId: string, toCardId: string, label?: string, routing?: ConnectorRouting): string;
+  hasConnector(id: string): boolean;
+  deleteConnector(id: string): void;
+}
+
+export interface AICanvasToolRun {
+  // What happened to each call, e.g. 'created a note', for the summary under the answer
+  outcomes: string[];
+  // The calls that changed the board, in order
+  applied: AICanvasAction[];
+}
+
+// Each returns false when someone has since changed what the action touched, like the history's user entries
+export interface AICanvasActionSteps {
+  undo: () => boolean | void;
+  redo: () => boolean | void;
+}
+
+// A tool call the board cannot carry out, e.g. one naming a card that is not there
+export class AICanvasToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AICanvasToolError';
+  }
+}
+
+export const isCanvasToolCall = (call: AIToolCall) => AI_CANVAS_TOOL_NAMES.has(call.name);
+
+const stringArg = (call: AIToolCall, key: string): string => {
+  const value = call.arguments[key];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new AICanvasToolError(`${call.name} needs ${key}`);
+  }
+  return value.trim();
+};
+
+const numberArg = (call: AIToolCall, key: string): number => {
+  const value = call.arguments[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new AICanvasToolError(`${call.name} needs a numeric ${key}`);
+  }
+  return value;
+};
+
+const CONNECTOR_ROUTINGS: ConnectorRouting[] = ['straight', 'elbow', 'curved'];
+
+const requireCard = (actions: AICanvasActions, id: string) => {
+  const card = actions.getCard(id);
+  if (!card) {
+    throw new AICanvasToolError(`there is no card ${id}`);
+  }
+  return card;
+};
+
+// Carry out one canvas tool call, returning what it changed
+export function executeCanvasToolCall(call: AIToolCall, actions: AICanvasActions): AICanvasAction {
+  switch (call.name) {
+    case 'create_note': {
+      const content = stringArg(call, 'content');
+      const hasPosition = call.arguments.x !== undefined || call.arguments.y !== undefined;
+      const position = hasPosition ? { x: numberArg(call, 'x'), y: numberArg(call, 'y') } : undefined;
+      const cardId = actions.createNote(content, position);
+      return { tool: 'create_note', description: 'created a note', cardId };
+    }
+
+    case 'move_card': {
+      const cardId = stringArg(call, 'card_id');
+      const from = requireCard(actions, cardId).position;
+      const to = { x: numberArg(call, 'x'), y: numberArg(call, 'y') };
+      actions.moveCard(cardId, to);
+      return { tool: 'move_card', description: 'moved a card', cardId, from, to };
+    }
+
+    case 'group_cards': {
+      const rawIds = call.arguments.card_ids;
+      const ids = Array.isArray(rawIds) ? [...new Set(rawIds.filter((id): id is string => typeof id === 'string'))] : [];
+      if (ids.length < 2) {
+        throw new AICanvasToolError('group_cards needs at least two card ids');
+      }
+      const found = ids.map(id => ({ id, ...requireCard(actions, id) }));
+
+      const groupId = crypto.randomUUID();
+      let x = found[0].position.x;
+      const cards = found.map(card => {
+        const to = { x, y: found[0].position.y };
+        x += card.size.width + GROUP_CARD_GAP;
+        return { cardId: card.id, from: card.position, fromGroupId: card.groupId, to };
+      });
+      cards.forEach(card => {
+        actions.setCardGroup(card.cardId, groupId);
+        actions.moveCard(card.cardId, card.to);
+      });
+      return { tool: 'group_cards', description: `grouped ${cards.length} cards`, groupId, cards };
+    }
+
+    case 'draw_connector': {
+      const fromCardId = stringArg(call, 'from_card_id');
+      const toCardId = stringArg(call, 'to_card_id');
+      if (fromCardId === toCardId) {
+        throw new AICanvasToolError('a connector needs two different cards');
+      }
+      requireCard(actions, fromCardId);
+      requireCard(actions, toCardId);
+      const label = typeof call.arguments.label === 'string' && call.arguments.label.trim()
+        ? call.arguments.label.trim()
+        : undefined;
+      const routing = CONNECTOR_ROUTINGS.find(option => option === call.arguments.routing);
+      const connectorId = actions.createConnector(fromCardId, toCardId, label, routing);
+      return { tool: 'draw_connector', description: 'drew a connector', connectorId, fromCardId, toCardId, label, routing };
+    }
+
+    default:
+      throw new AICanvasToolError(`unknown tool ${call.name}`);
+  }
+}
+
+// Carry out a batch of calls in order, one bad call not stopping the rest
+export function runCanvasToolCalls(calls: AIToolCall[], actions: AICanvasActions): AICanvasToolRun {
+  const applied: AICanvasAction[] = [];
+  const outcomes = calls.map(call => {
+    try {
+      const action = executeCanvasToolCall(call, actions);
+      applied.push(action);
+      return action.description;
+    } catch (error) {
+      if (!(error instanceof AICanvasToolError)) {
+        console.error('Failed to run AI canvas action:', error);
+      }
+      const reason = error instanceof AICanvasToolError ? ` (${error.message})` : '';
+      return `could not ${call.name.replace(/_/g, ' ')}${reason}`;
+    }
+  });
+  return { outcomes, applied };
+}
+
+type GroupedCard = Extract<AICanvasAction, { tool: 'group_cards' }>['cards'][number];
+type CardPlacement = { position: Point; groupId: string | undefined };
+
+const isAt = (position: Point, target: Point) => position.x === target.x && position.y === target.y;
+
+// How to take back and make again a change the relay made, on this participant's board. Each step only
+// applies while the board still shows what the AI left there, so nobody else's work is reverted.
+export function canvasActionSteps(action: AICanvasAction, actions: AICanvasActions): AICanvasActionSteps {
+  switch (action.tool) {
+    case 'create_note': {
+      let restore: (() => void) | null = null;
+      return {
+        undo: () => {
+          if (!actions.getCard(action.cardId)) return false;
+          restore = actions.deleteCard(action.cardId);
+        },
+        redo: () => {
+          if (!restore || actions.getCard(action.cardId)) return false;
+          restore();
+        }
+      };
+    }
+
+    case 'move_card': {
+      const showsNow = (position: Point) => {
+        const card = actions.getCard(action.cardId);
+        return !!card && isAt(card.position, position);
+      };
+      return {
+        undo: () => {
+          if (!showsNow(action.to)) return false;
+          actions.moveCard(action.cardId, action.from);
+        },
+        redo: () => {
+          if (!showsNow(action.from)) return false;
+          actions.moveCard(action.cardId, action.to);
+        }
+      };
+    }
+
+    case 'group_cards': {
+      // Cards regrouped or moved since are left where they are; the rest still go back
+      const apply = (showing: (card: GroupedCard) => CardPlacement, target: (card: GroupedCard) => CardPlacement) => {
+        const applicable = action.cards.filter(card => {
+          const current = actions.getCard(card.cardId);
+          const expected = showing(card);
+          return !!current && isAt(current.position, expected.position) && current.groupId === expected.groupId;
+        });
+        if (applicable.length === 0) return false;
+        applicable.forEach(card => {
+          const { position, groupId } = target(card);
+          actions.setCardGroup(card.cardId, groupId);
+          actions.moveCard(card.cardId, position);
+        });
+      };
+      const grouped = (card: GroupedCard): CardPlacement => ({ position: card.to, groupId: action.groupId });
+      const ungrouped = (card: GroupedCard): CardPlacement => ({ position: card.from, groupId: card.fromGroupId });
+      return {
+        undo: () => apply(grouped, ungrouped),
+        redo: () => apply(ungrouped, grouped)
+      };
+    }
+
+    case 'draw_connector': {
+      // Redrawing makes a new connector, so undo follows whichever is current
+      let id = action.connectorId;
+      return {
+        undo: () => {
+          if (!actions.hasConnector(id)) return false;
+          actions.deleteConnector(id);
+        },
+        redo: () => {
+          if (actions.hasConnector(id) || !actions.getCard(action.fromCardId) || !actions.getCard(action.toCardId)) {
+            return false;
+          }
+          id = actions.createConnector(action.fromCardId, action.toCardId, action.label, action.routing);
+        }
+      };
+    }
+  }
+}
+
+// Note the board changes under the answer, so the asker sees what happened even when the model wrote no text
+export function appendCanvasActionSummary(content: string, outcomes: string[]): string {
+  if (outcomes.length === 0) return content;
+  const summary = `*Board: ${outcomes.join(' · ')}*`;
+  return content.trim() ? `${content}\n\n${summary}` : summary;
+}
@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AI_CONTEXT_TOKEN_BUDGETS, assembleContext, buildRoomContext, estimateTokens, type RoomContextSources } from './aiContextBuilder';
+import type { AIChatMessage, AIFileExcerpt } from '../types/ai';
+
+// Every room query fails, so buildRoomContext takes its fallback
+vi.mock('../lib/supabase', () => ({
+  supabase: {
+    from: () => {
+      throw new Error('offline');
+    }
+  }
+}));
+
+const noSources: RoomContextSources = { chat: [], cards: [], files: [] };
+
+// A string costing about the given number of tokens
+const text = (tokens: number, fill = 'x') => fill.repeat(tokens * 4);
+
+const chatAt = (minute: number, content: string) => ({
+  author: 'Ana',
+  content,
+  createdAt: `2025-06-01T10:${String(minute).padStart(2, '0')}:00Z`
+});
+
+const excerpt = (filename: string, content: string): AIFileExcerpt => ({
+  fileId: filename,
+  filename,
+  downloadUrl: null,
+  content,
+  startLine: 1,
+  endLine: 5,
+  page: null,
+  heading: null
+});
+
+const totalTokens = (messages: AIChatMessage[]) =>
+  messages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('assembleContext', () => {
+  it('keeps the newest chat lines and drops the oldest when over budget', () => {
+    const chat = Array.from({ length: 20 }, (_, i) => chatAt(i, `line ${i} ${text(40)}`));
+
+    const { messages } = assembleContext({ ...noSources, chat }, 'What next?', 1000);
+    const system = messages[0].content;
+
+    expect(system).toContain('line 19 ');
+    expect(system).not.toContain('line 0 ');
+    expect(system.indexOf('line 18 ')).toBeLessThan(system.indexOf('line 19 '));
+  });
+
+  it('fills the thread before chat and never opens it with an answer', () => {
+    const turns: AIChatMessage[] = [
+      { role: 'user', content: text(300, 'a') },
+      { role: 'assistant', content: text(100, 'b') },
+      { role: 'user', content: text(100, 'c') },
+      { role: 'assistant', content: text(100, 'd') }
+    ];
+    const chat = [chatAt(1, text(250))];
+
+    const { messages } = assembleContext({ ...noSources, chat }, 'Shorter please', 700, { cardId: 'card-1', turns });
+
+    // The first prompt no longer fits, so its answer is dropped rather than opening the thread
+    expect(messages.slice(1, -1).map(m => m.content[0])).toEqual(['c', 'd']);
+    expect(messages[0].content).not.toContain('Recent room chat');
+    expect(messages[messages.length - 1]).toEqual({ role: 'user', content: 'Shorter please' });
+  });
+
+  it('adds file passages best first, skipping ones too big and numbering the rest in order', () => {
+    const files = [
+      excerpt('best.md', text(100)),
+      excerpt('huge.md', text(5000)),
+      excerpt('next.md', text(100))
+    ];
+
+    const { messages, citations } = assembleContext({ ...noSources, files }, 'Summarise the spec', 2000);
+
+    expect(citations.map(c => [c.index, c.filename])).toEqual([[1, 'best.md'], [2, 'next.md']]);
+    expect(messages[0].content).toContain('[2] next.md, lines 1–5');
+    expect(messages[0].content).not.toContain('huge.md');
+  });
+
+  it('stays within the budget however much context is available', () => {
+    const budget = AI_CONTEXT_TOKEN_BUDGETS.mock;
+    const sources: RoomContextSources = {
+      chat: Array.from({ length: 50 }, (_, i) => chatAt(i, text(30))),
+      cards: Array.from({ length: 20 }, (_, i) => ({
+        id: `card-${i}`,
+        author: 'Ben',
+        prompt: text(20),
+        content: text(80),
+        position: { x: i * 10, y: 0 },
+        createdAt: `2025-06-01T09:${String(i).padStart(2, '0')}:00Z`
+      })),
+      files: Array.from({ length: 10 }, (_, i) => excerpt(`file-${i}.md`, text(60)))
+    };
+    const turns: AIChatMessage[] = Array.from({ length: 10 }, (_, i) => ({
+      role: i % 2 === 0 ? 'user' : 'assistant',
+      content: text(50)
+    }));
+
+    const { messages } = assembleContext(sources, 'Go on', budget, { cardId: 'card-0', turns }, 'Be brief.', true);
+
+    expect(totalTokens(messages)).toBeLessThanOrEqual(budget);
+  });
+});
+
+describe('buildRoomContext', () => {
+  it('still trims the thread to the provider budget when room context fails to load', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const turns: AIChatMessage[] = Array.from({ length: 40 }, (_, i) => ({
+      role: i % 2 === 0 ? 'user' : 'assistant',
+      content: text(200)
+    }));
+
+    const { messages, citations } = await buildRoomContext('room-1', 'user-1', 'And then?', 'local', { cardId: 'card-1', turns });
+
+    expect(totalTokens(messages)).toBeLessThanOrEqual(AI_CONTEXT_TOKEN_BUDGETS.local);
+    expect(messages.length).toBeGreaterThan(2);
+    expect(messages[1].role).toBe('user');
+    expect(citations).toEqual([]);
+  });
+});
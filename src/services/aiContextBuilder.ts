@@ -0,0 +1,267 @@
+import { supabase } from '../lib/supabase';
+import { apiService } from './api';
+import type { AIChatMessage, AIFileCitation, AIFileExcerpt, AIProviderId, AIThreadContext } from '../types/ai';
+
+export interface ContextChatMessage {
+  author: string;
+  content: string;
+  createdAt: string;
+}
+
+export interface ContextCard {
+  id: string;
+  author: string;
+  prompt?: string;
+  content: string;
+  position: { x: number; y: number };
+  createdAt: string;
+}
+
+export interface RoomContextSources {
+  chat: ContextChatMessage[];
+  cards: ContextCard[];
+  // Passages of shared files matching the prompt, best match first
+  files: AIFileExcerpt[];
+}
+
+export interface RoomContext {
+  messages: AIChatMessage[];
+  // The file passages that made it into the prompt, numbered as the model was told to cite them
+  citations: AIFileCitation[];
+}
+
+// Input tokens we are willing to spend on room context per request
+export const AI_CONTEXT_TOKEN_BUDGETS: Record<AIProviderId, number> = {
+  openai: 12000,
+  anthropic: 24000,
+  google: 24000,
+  // Local models often run with a small context window
+  local: 3000,
+  mock: 2000
+};
+
+const CHAT_HISTORY_LIMIT = 50;
+const CARD_HISTORY_LIMIT = 20;
+// Tokens held back for the system preamble and the new prompt's own overhead
+const RESERVED_TOKENS = 200;
+// Share of what is left after the thread that file passages may take, so chat context still fits
+const FILE_CONTEXT_SHARE = 0.5;
+
+const SYSTEM_PREAMBLE =
+  'You are an AI assistant inside a shared collaboration room. Several participants talk in the room chat ' +
+  'and your answers appear as cards on a shared canvas. Use the room context below when the user refers to ' +
+  'the discussion or to earlier cards.';
+
+const withInstructions = (preamble: string, instructions?: string) =>
+  instructions ? `${preamble}\n\nInstructions from the room host:\n${instructions}` : preamble;
+
+const BOARD_TOOLS_PREAMBLE =
+  'You can change the board with the tools provided. Only use them when the user asks for something on the board; ' +
+  'otherwise answer in text. Cards on the board (id, top-left position, first line):';
+// How much of a card's first line the board listing shows
+const BOARD_CARD_PREVIEW_CHARS = 60;
+
+// Roughly four characters per token across the supported providers
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// e.g. 'spec.md, lines 10–24' or 'report.pdf, page 3'
+export function formatCitationLocation(source: Pick<AIFileCitation, 'filename' | 'startLine' | 'endLine' | 'page'>): string {
+  if (source.page !== null) return `${source.filename}, page ${source.page}`;
+  if (source.startLine !== null && source.endLine !== null) {
+    return source.startLine === source.endLine
+      ? `${source.filename}, line ${source.startLine}`
+      : `${source.filename}, lines ${source.startLine}–${source.endLine}`;
+  }
+  return source.filename;
+}
+
+// The sources an answer actually refers to with [n]
+export function citedSources(content: string, citations: AIFileCitation[]): AIFileCitation[] {
+  return citations.filter(citation => content.includes(`[${citation.index}]`));
+}
+
+/**
+ * Assemble the message list for a prompt. Newest context is kept first: chat lines and
+ * earlier prompt/answer pairs are added from most recent backwards until the budget runs out.
+ * A follow-up's own thread is filled before anything else, then the board listing when the
+ * canvas tools are offered, then matching file passages, which are numbered for citation.
+ * The host's room instructions are always included.
+ */
+export function assembleContext(
+  sources: RoomContextSources,
+  prompt: string,
+  budget: number,
+  thread?: AIThreadContext,
+  instructions?: string,
+  canvasTools?: boolean
+): RoomContext {
+  const preamble = withInstructions(SYSTEM_PREAMBLE, instructions);
+  let remaining = budget - RESERVED_TOKENS - estimateTokens(preamble) - estimateTokens(prompt);
+
+  // Keep whole turns from the end of the thread, so it never opens with an orphaned answer
+  const threadTurns: AIChatMessage[] = [];
+  const turns = thread?.turns ?? [];
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(turns[i].content);
+    if (cost > remaining) break;
+    remaining -= cost;
+    threadTurns.unshift(turns[i]);
+  }
+  while (threadTurns.length > 0 && threadTurns[0].role === 'assistant') {
+    remaining += estimateTokens(threadTurns.shift()!.content);
+  }
+
+  // Newest cards first, so the ones just talked about are listed when the board is crowded
+  const boardLines: string[] = [];
+  if (canvasTools) {
+    remaining -= estimateTokens(BOARD_TOOLS_PREAMBLE);
+    const cardsNewestFirst = [...sources.cards].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    for (const card of cardsNewestFirst) {
+      const preview = (card.content.split('\n').find(line => line.trim()) ?? '').slice(0, BOARD_CARD_PREVIEW_CHARS);
+      const line = `- ${card.id} at (${Math.round(card.position.x)}, ${Math.round(card.position.y)}): ${preview}`;
+      const cost = estimateTokens(line) + 1;
+      if (cost > remaining) break;
+      remaining -= cost;
+      boardLines.unshift(line);
+    }
+  }
+
+  // Best matches first; a passage that does not fit is skipped in favour of shorter ones
+  const citations: AIFileCitation[] = [];
+  const fileBlocks: string[] = [];
+  let fileBudget = Math.floor(remaining * FILE_CONTEXT_SHARE);
+  for (const { content, ...source } of sources.files) {
+    const index = citations.length + 1;
+    const section = source.heading ? ` (${source.heading})` : '';
+    const block = `[${index}] ${formatCitationLocation(source)}${section}\n${content}`;
+    const cost = estimateTokens(block) + 1;
+    if (cost > fileBudget) continue;
+    fileBudget -= cost;
+    remaining -= cost;
+    citations.push({ ...source, index });
+    fileBlocks.push(block);
+  }
+
+  // Earlier prompts and answers become real conversation turns, so "refine the card above" works
+  const history: AIChatMessage[] = [];
+  const cardsNewestFirst = [...sources.cards]
+    .filter(card => card.id !== thread?.cardId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  for (const card of cardsNewestFirst) {
+    if (!card.prompt || !card.content) continue;
+    const question = `${card.author} asked: ${card.prompt}`;
+    const cost = estimateTokens(question) + estimateTokens(card.content);
+    if (cost > remaining) break;
+    remaining -= cost;
+    history.unshift({ role: 'user', content: question }, { role: 'assistant', content: card.content });
+  }
+
+  const chatLines: string[] = [];
+  const chatNewestFirst = [...sources.chat].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  for (const message of chatNewestFirst) {
+    const line = `${message.author}: ${message.content}`;
+    const cost = estimateTokens(line) + 1;
+    if (cost > remaining) break;
+    remaining -= cost;
+    chatLines.unshift(line);
+  }
+
+  let system = preamble;
+  if (canvasTools) {
+    system += `\n\n${BOARD_TOOLS_PREAMBLE}\n${boardLines.join('\n') || '(the board is empty)'}`;
+  }
+  if (fileBlocks.length > 0) {
+    system += '\n\nExcerpts from files shared in the room. When you use one, cite it by its number, e.g. [1]. ' +
+      'If the excerpts do not answer the question, say so instead of guessing.\n\n' + fileBlocks.join('\n\n');
+  }
+  if (chatLines.length > 0) {
+    system += `\n\nRecent room chat (oldest first):\n${chatLines.join('\n')}`;
+  }
+
+  return {
+    messages: [
+      { role: 'system', content: system },
+      ...history,
+      ...threadTurns,
+      { role: 'user', content: prompt }
+    ],
+    citations
+  };
+}
+
+// Load recent chat, AI cards and file passages matching the prompt for a room, with participant names resolved
+export async function fetchRoomContextSources(roomId: string, userId: string, prompt: string): Promise<RoomContextSources> {
+  const [participantsResult, messagesResult, cardsResult, files] = await Promise.all([
+    supabase
+      .from('participants')
+      .select('user_id, display_name')
+      .eq('room_id', roomId),
+    supabase
+      .from('messages')
+      .select('user_id, content, created_at')
+      .eq('room_id', roomId)
+      .eq('message_type', 'text')
+      .order('created_at', { ascending: false })
+      .limit(CHAT_HISTORY_LIMIT),
+    supabase
+      .from('ai_responses')
+      .select('id, from_user_id, prompt, content, position_x, position_y, created_at')
+      .eq('room_id', roomId)
+      .eq('status', 'done')
+      .order('created_at', { ascending: false })
+      .limit(CARD_HISTORY_LIMIT),
+    // Unreadable files should not cost the answer its chat context
+    apiService.searchRoomFiles(roomId, userId, prompt).catch(error => {
+      console.error('Failed to search room files for AI request:', error);
+      return [] as AIFileExcerpt[];
+    })
+  ]);
+
+  if (participantsResult.error) throw participantsResult.error;
+  if (messagesResult.error) throw messagesResult.error;
+  if (cardsResult.error) throw cardsResult.error;
+
+  const names = new Map<string, string>(
+    participantsResult.data.map(p => [p.user_id, p.display_name])
+  );
+  const nameOf = (userId: string) => names.get(userId) || 'Unknown User';
+
+  return {
+    chat: messagesResult.data.map(m => ({
+      author: nameOf(m.user_id),
+      content: m.content,
+      createdAt: m.created_at
+    })),
+    cards: cardsResult.data.map(c => ({
+      id: c.id,
+      author: nameOf(c.from_user_id),
+      prompt: c.prompt ?? undefined,
+      content: c.content,
+      position: { x: c.position_x, y: c.position_y },
+      createdAt: c.created_at
+    })),
+    files
+  };
+}
+
+// userId is whoever runs the file search (the relay or the requester); it must be in the room
+export async function buildRoomContext(
+  roomId: string,
+  userId: string,
+  prompt: string,
+  providerId: AIProviderId,
+  thread?: AIThreadContext,
+  instructions?: string,
+  canvasTools?: boolean
+): Promise<RoomContext> {
+  const budget = AI_CONTEXT_TOKEN_BUDGETS[providerId];
+  try {
+    const sources = await fetchRoomContextSources(roomId, userId, prompt);
+    return assembleContext(sources, prompt, budget, thread, instructions, canvasTools);
+  } catch (error) {
+    // Context is best effort; the prompt and as much of its thread as fits still get an answer.
+    // The board listing is left out rather than shown as empty.
+    console.error('Failed to load room context for AI request:', error);
+    return assembleContext({ chat: [], cards: [], files: [] }, prompt, budget, thread, instructions);
+  }
+}
@@ -0,0 +1,78 @@
+import { supabase } from '../lib/supabase';
+import type { AIPersonaSettings } from '../types/ai';
+
+export const DEFAULT_AI_PERSONA: AIPersonaSettings = {
+  name: '',
+  systemPrompt: '',
+  provider: null,
+  model: null,
+  temperature: null,
+  maxTokens: null
+};
+
+export const AI_TEMPERATURE_RANGE = { min: 0, max: 2 };
+export const AI_MAX_TOKENS_RANGE = { min: 16, max: 8192 };
+// Long enough for a detailed brief, short enough to leave room for context
+export const AI_SYSTEM_PROMPT_MAX_LENGTH = 4000;
+
+const clamp = (value: number, range: { min: number; max: number }) => Math.min(range.max, Math.max(range.min, value));
+
+// Bring a stored or edited persona within the limits every provider accepts
+export function normalizePersona(persona: Partial<AIPersonaSettings>): AIPersonaSettings {
+  const merged = { ...DEFAULT_AI_PERSONA, ...persona };
+  return {
+    ...merged,
+    name: merged.name.trim(),
+    systemPrompt: merged.systemPrompt.trim().slice(0, AI_SYSTEM_PROMPT_MAX_LENGTH),
+    model: merged.model?.trim() || null,
+    temperature: merged.temperature === null ? null : clamp(merged.temperature, AI_TEMPERATURE_RANGE),
+    maxTokens: merged.maxTokens === null ? null : Math.round(clamp(merged.maxTokens, AI_MAX_TOKENS_RANGE))
+  };
+}
+
+export class AIPersonaService {
+  static async getPersona(roomId: string): Promise<AIPersonaSettings> {
+    const { data, error } = await supabase
+      .from('rooms')
+      .select('settings')
+      .eq('id', roomId)
+      .single();
+
+    if (error) throw error;
+
+    return normalizePersona(data.settings?.aiPersona ?? {});
+  }
+
+  static async setPersona(roomId: string, persona: AIPersonaSettings): Promise<void> {
+    // settings holds other room options, so merge rather than overwrite
+    const { data, error: fetchError } = await supabase
+      .from('rooms')
+      .select('settings')
+      .eq('id', roomId)
+      .single();
+
+    if (fetchError) throw fetchError;
+
+    const { error } = await supabase
+      .from('rooms')
+      .update({ settings: { ...(data.settings ?? {}), aiPersona: normalizePersona(persona) } })
+      .eq('id', roomId);
+
+    if (error) throw error;
+  }
+
+  // Follow persona edits made by the host while the room is open
+  static subscribeToPersona(roomId: string, onChange: (persona: AIPersonaSettings) => void) {
+    return supabase
+      .channel(`ai_persona_${roomId}`)
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'rooms',
+        filter: `id=eq.${roomId}`
+      }, (payload) => {
+        onChange(normalizePersona(payload.new.settings?.aiPersona ?? {}));
+      })
+      .subscribe();
+  }
+}
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getProviderAdapter, setLocalEndpoint } from './aiProviders';
+import type { AICompletionRequest } from '../types/ai';
+
+const request: AICompletionRequest = { messages: [{ role: 'user', content: 'Hello there' }] };
+
+// A server-sent event response delivering the lines in the given pieces, as a network might split them
+const sseResponse = (pieces: string[]) => {
+  const encoder = new TextEncoder();
+  return new Response(new ReadableStream({
+    start(controller) {
+      pieces.forEach(piece => controller.enqueue(encoder.encode(piece)));
+      controller.close();
+    }
+  }));
+};
+
+const event = (chunk: object) => `data: ${JSON.stringify(chunk)}\n\n`;
+
+beforeEach(() => {
+  const storage = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key)
+  });
+  setLocalEndpoint({ baseUrl: 'http://localhost:11434/v1/', model: 'llama3' });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('local adapter streaming', () => {
+  it('streams deltas split across network reads and reports usage', async () => {
+    const body = [
+      event({ model: 'llama3:8b', choices: [{ delta: { content: 'Hi' } }] }),
+      event({ choices: [{ delta: { content: ' there' } }] }),
+      event({ choices: [], usage: { prompt_tokens: 5, completion_tokens: 2 } }),
+      'data: [DONE]\n\n'
+    ].join('');
+    const fetchMock = vi.fn(async () => sseResponse([body.slice(0, 20), body.slice(20, 71), body.slice(71)]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const deltas: string[] = [];
+    const result = await getProviderAdapter('local').stream(null, request, delta => deltas.push(delta));
+
+    expect(fetchMock).toHaveBeenCalledWith('http://localhost:11434/v1/chat/completions', expect.anything());
+    expect(deltas).toEqual(['Hi', ' there']);
+    expect(result).toMatchObject({
+      content: 'Hi there',
+      provider: 'local',
+      model: 'llama3:8b',
+      usage: { inputTokens: 5, outputTokens: 2 }
+    });
+  });
+
+  it('skips keep-alives and malformed lines instead of dropping the answer', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => sseResponse([
+      event({ choices: [{ delta: { content: 'Still' } }] }),
+      ': keep-alive\n\n',
+      'data: {"choices": [\n\n',
+      'data: \n\n',
+      event({ choices: [{ delta: { content: ' here' } }] }),
+      'data: [DONE]\n\n'
+    ])));
+
+    const result = await getProviderAdapter('local').stream(null, request, () => {});
+
+    expect(result.content).toBe('Still here');
+  });
+
+  it('joins tool call fragments streamed across chunks', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => sseResponse([
+      event({ choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_a', function: { name: 'create_', arguments: '{"cont' } }] } }] }),
+      event({ choices: [{ delta: { tool_calls: [{ index: 0, function: { name: 'note', arguments: 'ent": "milk"}' } }] } }] }),
+      event({ choices: [{ delta: { tool_calls: [{ index: 1, function: { name: 'create_frame', arguments: '{not json' } }] } }] }),
+      'data: [DONE]\n\n'
+    ])));
+
+    const result = await getProviderAdapter('local').stream(null, request, () => {});
+
+    expect(result.toolCalls).toEqual([
+      { id: 'call_a', name: 'create_note', arguments: { content: 'milk' } },
+      { id: 'call_1', name: 'create_frame', arguments: {} }
+    ]);
+  });
+
+  it('reports the status and body of a failed request', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('model not found', { status: 404 })));
+
+    await expect(getProviderAdapter('local').stream(null, request, () => {}))
+      .rejects.toThrow('Local endpoint returned 404: model not found');
+  });
+});
+
+describe('mock adapter', () => {
+  it('streams its answer word by word and offers a note when asked', async () => {
+    const deltas: string[] = [];
+    const result = await getProviderAdapter('mock').stream(null, {
+      messages: [{ role: 'user', content: 'add a note: buy milk' }],
+      tools: [{ name: 'create_note', description: 'Add a sticky note', parameters: { type: 'object', properties: {} } }]
+    }, delta => deltas.push(delta));
+
+    expect(deltas.join('')).toBe(result.content);
+    expect(result.content).toBe('Mock response to: add a note: buy milk');
+    expect(result.toolCalls).toEqual([{ id: 'call_0', name: 'create_note', arguments: { content: 'buy milk' } }]);
+  });
+});
@@ -0,0 +1,657 @@
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { GoogleGenerativeAI, type FunctionCall, type FunctionDeclarationSchema } from '@google/generative-ai';
+import type {
+  AIChatMessage,
+  AICompletionRequest,
+  AILocalEndpointConfig,
+  AIProviderAdapter,
+  AIProviderId,
+  AIToolCall,
+  AIToolDefinition,
+  AIUsage
+} from '../types/ai';
+
+const DEFAULT_MAX_TOKENS = 1024;
+
+// Split the system prompt out of the message list for providers that take it separately
+const splitSystemPrompt = (messages: AIChatMessage[]) => {
+  const system = messages
+    .filter(m => m.role === 'system')
+    .map(m => m.content)
+    .join('\n\n');
+  const conversation = messages.filter(m => m.role !== 'system');
+  return { system: system || undefined, conversation };
+};
+
+const requireKey = (providerId: AIProviderId, apiKey: string | null): string => {
+  if (!apiKey) {
+    throw new Error(`No API key configured for ${providerId}`);
+  }
+  return apiKey;
+};
+
+// OpenAI and OpenAI-compatible servers take tools as functions
+const openAITools = (tools?: AIToolDefinition[]) =>
+  tools?.length
+    ? tools.map(tool => ({
+        type: 'function' as const,
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+      }))
+    : undefined;
+
+// Arguments arrive as a JSON string, which smaller models sometimes get wrong
+const parseToolArguments = (json: string | undefined): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(json || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+interface ToolCallFragment {
+  index: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+// Streamed OpenAI-style tool calls arrive in pieces keyed by index; the arguments string is split across chunks
+class ToolCallAccumulator {
+  private calls = new Map<number, { id: string; name: string; arguments: string }>();
+
+  add(fragments?: ToolCallFragment[] | null) {
+    fragments?.forEach(fragment => {
+      const call = this.calls.get(fragment.index) ?? { id: '', name: '', arguments: '' };
+      call.id = fragment.id || call.id;
+      call.name += fragment.function?.name ?? '';
+      call.arguments += fragment.function?.arguments ?? '';
+      this.calls.set(fragment.index, call);
+    });
+  }
+
+  finish(): AIToolCall[] | undefined {
+    if (this.calls.size === 0) return undefined;
+    return [...this.calls.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([index, call]) => ({ id: call.id || `call_${index}`, name: call.name, arguments: parseToolArguments(call.arguments) }));
+  }
+}
+
+const googleTools = (tools?: AIToolDefinition[]) =>
+  tools?.length
+    ? [{
+        functionDeclarations: tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters as unknown as FunctionDeclarationSchema
+        }))
+      }]
+    : undefined;
+
+const googleToolCalls = (calls?: FunctionCall[]): AIToolCall[] | undefined =>
+  calls?.length
+    ? calls.map((call, index) => ({ id: `call_${index}`, name: call.name, arguments: call.args as Record<string, unknown> }))
+    : undefined;
+
+const anthropicTools = (tools?: AIToolDefinition[]): Anthropic.Tool[] | undefined =>
+  tools?.length
+    ? tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters as Anthropic.Tool.InputSchema
+      }))
+    : undefined;
+
+const anthropicToolCalls = (content: Anthropic.ContentBlock[]): AIToolCall[] | undefined => {
+  const calls = content.flatMap(block =>
+    block.type === 'tool_use' ? [{ id: block.id, name: block.name, arguments: block.input as Record<string, unknown> }] : []
+  );
+  return calls.length > 0 ? calls : undefined;
+};
+
+const openAIAdapter: AIProviderAdapter = {
+  id: 'openai',
+  defaultModel: 'gpt-4o-mini',
+  requiresKey: true,
+  async complete(apiKey, request) {
+    const client = new OpenAI({
+      apiKey: requireKey('openai', apiKey),
+      dangerouslyAllowBrowser: true
+    });
+    const model = request.model || this.defaultModel;
+
+    const completion = await client.chat.completions.create(
+      {
+        model,
+        messages: request.messages,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature,
+        tools: openAITools(request.tools)
+      },
+      { signal: request.signal }
+    );
+
+    const toolCalls = new ToolCallAccumulator();
+    toolCalls.add(completion.choices[0]?.message?.tool_calls?.map((call, index) => ({ ...call, index })));
+    return {
+      content: completion.choices[0]?.message?.content ?? '',
+      provider: 'openai',
+      model: completion.model || model,
+      toolCalls: toolCalls.finish(),
+      usage: completion.usage
+        ? {
+            inputTokens: completion.usage.prompt_tokens,
+            outputTokens: completion.usage.completion_tokens
+          }
+        : undefined
+    };
+  },
+  async stream(apiKey, request, onDelta) {
+    const client = new OpenAI({
+      apiKey: requireKey('openai', apiKey),
+      dangerouslyAllowBrowser: true
+    });
+    const model = request.model || this.defaultModel;
+
+    const stream = await client.chat.completions.create(
+      {
+        model,
+        messages: request.messages,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature,
+        tools: openAITools(request.tools),
+        stream: true,
+        stream_options: { include_usage: true }
+      },
+      { signal: request.signal }
+    );
+
+    let content = '';
+    let usage: AIUsage | undefined;
+    const toolCalls = new ToolCallAccumulator();
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+      toolCalls.add(chunk.choices[0]?.delta?.tool_calls);
+      if (chunk.usage) {
+        usage = {
+          inputTokens: chunk.usage.prompt_tokens,
+          outputTokens: chunk.usage.completion_tokens
+        };
+      }
+    }
+
+    return { content, provider: 'openai', model, usage, toolCalls: toolCalls.finish() };
+  }
+};
+
+const anthropicAdapter: AIProviderAdapter = {
+  id: 'anthropic',
+  defaultModel: 'claude-3-5-haiku-latest',
+  requiresKey: true,
+  async complete(apiKey, request) {
+    const client = new Anthropic({
+      apiKey: requireKey('anthropic', apiKey),
+      dangerouslyAllowBrowser: true
+    });
+    const model = request.model || this.defaultModel;
+    const { system, conversation } = splitSystemPrompt(request.messages);
+
+    const message = await client.messages.create(
+      {
+        model,
+        system,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature,
+        tools: anthropicTools(request.tools),
+        messages: conversation.map(m => ({
+          role: m.role === 'assistant' ? 'assistant' : 'user',
+          content: m.content
+        }))
+      },
+      { signal: request.signal }
+    );
+
+    const content = message.content
+      .map(block => (block.type === 'text' ? block.text : ''))
+      .join('');
+
+    return {
+      content,
+      provider: 'anthropic',
+      model: message.model || model,
+      toolCalls: anthropicToolCalls(message.content),
+      usage: {
+        inputTokens: message.usage.input_tokens,
+        outputTokens: message.usage.output_tokens
+      }
+    };
+  },
+  async stream(apiKey, request, onDelta) {
+    const client = new Anthropic({
+      apiKey: requireKey('anthropic', apiKey),
+      dangerouslyAllowBrowser: true
+    });
+    const model = request.model || this.defaultModel;
+    const { system, conversation } = splitSystemPrompt(request.messages);
+
+    const stream = client.messages.stream(
+      {
+        model,
+        system,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature,
+        tools: anthropicTools(request.tools),
+        messages: conversation.map(m => ({
+          role: m.role === 'assistant' ? 'assistant' : 'user',
+          content: m.content
+        }))
+      },
+      { signal: request.signal }
+    );
+    stream.on('text', onDelta);
+
+    const message = await stream.finalMessage();
+    const content = message.content
+      .map(block => (block.type === 'text' ? block.text : ''))
+      .join('');
+
+    return {
+      content,
+      provider: 'anthropic',
+      model: message.model || model,
+      toolCalls: anthropicToolCalls(message.content),
+      usage: {
+        inputTokens: message.usage.input_tokens,
+        outputTokens: message.usage.output_tokens
+      }
+    };
+  }
+};
+
+const googleAdapter: AIProviderAdapter = {
+  id: 'google',
+  defaultModel: 'gemini-1.5-flash',
+  requiresKey: true,
+  async complete(apiKey, request) {
+    const client = new GoogleGenerativeAI(requireKey('google', apiKey));
+    const model = request.model || this.defaultModel;
+    const { system, conversation } = splitSystemPrompt(request.messages);
+
+    const generativeModel = client.getGenerativeModel({
+      model,
+      systemInstruction: system,
+      tools: googleTools(request.tools),
+      generationConfig: {
+        maxOutputTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature
+      }
+    });
+
+    const result = await generativeModel.generateContent(
+      {
+        contents: conversation.map(m => ({
+          role: m.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: m.content }]
+        }))
+      },
+      { signal: request.signal }
+    );
+
+    const usage = result.response.usageMetadata;
+    return {
+      content: result.response.text(),
+      provider: 'google',
+      model,
+      toolCalls: googleToolCalls(result.response.functionCalls()),
+      usage: usage
+        ? {
+            inputTokens: usage.promptTokenCount,
+            outputTokens: usage.candidatesTokenCount
+          }
+        : undefined
+    };
+  },
+  async stream(apiKey, request, onDelta) {
+    const client = new GoogleGenerativeAI(requireKey('google', apiKey));
+    const model = request.model || this.defaultModel;
+    const { system, conversation } = splitSystemPrompt(request.messages);
+
+    const generativeModel = client.getGenerativeModel({
+      model,
+      systemInstruction: system,
+      tools: googleTools(request.tools),
+      generationConfig: {
+        maxOutputTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature
+      }
+    });
+
+    const result = await generativeModel.generateContentStream(
+      {
+        contents: conversation.map(m => ({
+          role: m.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: m.content }]
+        }))
+      },
+      { signal: request.signal }
+    );
+
+    let content = '';
+    for await (const chunk of result.stream) {
+      const delta = chunk.text();
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+    }
+
+    const response = await result.response;
+    const usage = response.usageMetadata;
+    return {
+      content,
+      provider: 'google',
+      model,
+      toolCalls: googleToolCalls(response.functionCalls()),
+      usage: usage
+        ? {
+            inputTokens: usage.promptTokenCount,
+            outputTokens: usage.candidatesTokenCount
+          }
+        : undefined
+    };
+  }
+};
+
+const LOCAL_ENDPOINT_STORAGE_KEY = 'ai_local_endpoint';
+
+// The endpoint is only reachable from this machine, so it lives in this browser rather than the room's vault
+export function getLocalEndpoint(): AILocalEndpointConfig | null {
+  try {
+    const stored = localStorage.getItem(LOCAL_ENDPOINT_STORAGE_KEY);
+    const config = stored ? (JSON.parse(stored) as AILocalEndpointConfig) : null;
+    return config?.baseUrl ? config : null;
+  } catch {
+    return null;
+  }
+}
+
+export function setLocalEndpoint(config: AILocalEndpointConfig | null) {
+  if (config) {
+    localStorage.setItem(LOCAL_ENDPOINT_STORAGE_KEY, JSON.stringify({
+      ...config,
+      baseUrl: config.baseUrl.trim().replace(/\/+$/, '')
+    }));
+  } else {
+    localStorage.removeItem(LOCAL_ENDPOINT_STORAGE_KEY);
+  }
+}
+
+const requireLocalEndpoint = (): AILocalEndpointConfig => {
+  const config = getLocalEndpoint();
+  if (!config) {
+    throw new Error('No local endpoint configured');
+  }
+  return config;
+};
+
+const localHeaders = (config: AILocalEndpointConfig): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {})
+});
+
+const localRequestBody = (request: AICompletionRequest, model: string, stream: boolean) =>
+  JSON.stringify({
+    model,
+    messages: request.messages,
+    max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+    temperature: request.temperature,
+    tools: openAITools(request.tools),
+    stream,
+    ...(stream ? { stream_options: { include_usage: true } } : {})
+  });
+
+const localError = async (response: Response) => {
+  const detail = await response.text().catch(() => '');
+  return new Error(`Local endpoint returned ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+};
+
+// Model ids the endpoint serves, from its OpenAI-style /models route
+export async function listLocalModels(config: AILocalEndpointConfig): Promise<string[]> {
+  const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/models`, {
+    headers: localHeaders(config)
+  });
+  if (!response.ok) {
+    throw await localError(response);
+  }
+  const data = await response.json() as { data?: Array<{ id: string }> };
+  return (data.data ?? []).map(model => model.id);
+}
+
+interface OpenAICompatibleChunk {
+  model?: string;
+  choices?: Array<{ delta?: { content?: string | null; tool_calls?: ToolCallFragment[] } }>;
+  usage?: { prompt_tokens: number; completion_tokens: number } | null;
+}
+
+// Local servers send keep-alives and the odd malformed line; those are skipped rather than ending the answer
+const parseStreamChunk = (data: string): OpenAICompatibleChunk | null => {
+  try {
+    const parsed = JSON.parse(data);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+// Talks plain fetch rather than the OpenAI SDK, whose extra headers many local servers reject in CORS preflight
+const localAdapter: AIProviderAdapter = {
+  id: 'local',
+  defaultModel: 'default',
+  requiresKey: false,
+  isConfigured: () => !!getLocalEndpoint(),
+  async complete(_apiKey, request) {
+    const config = requireLocalEndpoint();
+    const model = request.model || config.model || this.defaultModel;
+
+    const response = await fetch(`${config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: localHeaders(config),
+      body: localRequestBody(request, model, false),
+      signal: request.signal
+    });
+    if (!response.ok) {
+      throw await localError(response);
+    }
+
+    const completion = await response.json();
+    const toolCalls = new ToolCallAccumulator();
+    toolCalls.add((completion.choices?.[0]?.message?.tool_calls as Omit<ToolCallFragment, 'index'>[] | undefined)?.map((call, index) => ({ ...call, index })));
+    return {
+      content: completion.choices?.[0]?.message?.content ?? '',
+      provider: 'local',
+      model: completion.model || model,
+      toolCalls: toolCalls.finish(),
+      usage: completion.usage
+        ? {
+            inputTokens: completion.usage.prompt_tokens,
+            outputTokens: completion.usage.completion_tokens
+          }
+        : undefined
+    };
+  },
+  async stream(_apiKey, request, onDelta) {
+    const config = requireLocalEndpoint();
+    let model = request.model || config.model || this.defaultModel;
+
+    const response = await fetch(`${config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: localHeaders(config),
+      body: localRequestBody(request, model, true),
+      signal: request.signal
+    });
+    if (!response.ok || !response.body) {
+      throw await localError(response);
+    }
+
+    // Server-sent events: one "data: {json}" line per chunk, ending with "data: [DONE]"
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let content = '';
+    let usage: AIUsage | undefined;
+    const toolCalls = new ToolCallAccumulator();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const data = line.trim().replace(/^data:\s*/, '');
+        if (!line.trim().startsWith('data:') || data === '[DONE]') continue;
+
+        const chunk = parseStreamChunk(data);
+        if (!chunk) continue;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+        toolCalls.add(chunk.choices?.[0]?.delta?.tool_calls);
+        if (chunk.model) {
+          model = chunk.model;
+        }
+        if (chunk.usage) {
+          usage = {
+            inputTokens: chunk.usage.prompt_tokens,
+            outputTokens: chunk.usage.completion_tokens
+          };
+        }
+      }
+    }
+
+    return { content, provider: 'local', model, usage, toolCalls: toolCalls.finish() };
+  }
+};
+
+// Rough whitespace token count, good enough for the mock provider's usage numbers
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const MOCK_CHUNK_DELAY = 30; // ms between streamed mock words
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new DOMException('Request aborted', 'AbortError');
+  }
+};
+
+const lastUserContent = (request: AICompletionRequest) =>
+  [...request.messages].reverse().find(m => m.role === 'user')?.content ?? '';
+
+const mockContent = (request: AICompletionRequest) => `Mock response to: ${lastUserContent(request)}`;
+
+// "add a note: buy milk" becomes a create_note call when that tool is offered, so tool handling can be tried without a key
+const mockToolCalls = (request: AICompletionRequest): AIToolCall[] | undefined => {
+  if (!request.tools?.some(tool => tool.name === 'create_note')) return undefined;
+  const match = /\b(?:add|create) a note\b[:\s]*(.+)/i.exec(lastUserContent(request));
+  return match ? [{ id: 'call_0', name: 'create_note', arguments: { content: match[1].trim() } }] : undefined;
+};
+
+// Deterministic provider that never touches the network. Used in development
+// and to exercise the host relay path end to end without an API key.
+const mockAdapter: AIProviderAdapter = {
+  id: 'mock',
+  defaultModel: 'mock-echo',
+  requiresKey: false,
+  async complete(_apiKey, request) {
+    throwIfAborted(request.signal);
+    const content = mockContent(request);
+
+    return {
+      content,
+      provider: 'mock',
+      model: request.model || this.defaultModel,
+      toolCalls: mockToolCalls(request),
+      usage: {
+        inputTokens: request.messages.reduce((total, m) => total + countWords(m.content), 0),
+        outputTokens: countWords(content)
+      }
+    };
+  },
+  async stream(apiKey, request, onDelta) {
+    const content = mockContent(request);
+    // Emit word by word, keeping the separating whitespace with each word
+    for (const delta of content.match(/\S+\s*/g) ?? []) {
+      await new Promise(resolve => setTimeout(resolve, MOCK_CHUNK_DELAY));
+      throwIfAborted(request.signal);
+      onDelta(delta);
+    }
+    return this.complete(apiKey, request);
+  }
+};
+
+const adapters: Record<AIProviderId, AIProviderAdapter> = {
+  openai: openAIAdapter,
+  anthropic: anthropicAdapter,
+  google: googleAdapter,
+  local: localAdapter,
+  mock: mockAdapter
+};
+
+// Names shown on cards and in the provider picker
+export const AI_PROVIDER_LABELS: Record<AIProviderId, string> = {
+  openai: 'ChatGPT',
+  anthropic: 'Claude',
+  google: 'Gemini',
+  local: 'Local model',
+  mock: 'Mock'
+};
+
+export const isAIProviderId = (value: string): value is AIProviderId => value in adapters;
+
+export function getProviderAdapter(providerId: AIProviderId): AIProviderAdapter {
+  return adapters[providerId];
+}
+
+// Providers that need an API key
+export const KEYED_PROVIDERS: AIProviderId[] = ['openai', 'anthropic', 'google'];
+
+// Keys saved in this browser by older versions of AIProviderModal; new keys go to the room's vault
+export const getStoredApiKey = (providerId: AIProviderId): string | null =>
+  localStorage.getItem(`ai_key_${providerId}`);
+
+export const clearStoredApiKey = (providerId: AIProviderId) =>
+  localStorage.removeItem(`ai_key_${providerId}`);
+
+// Providers this browser can answer other participants with once they are set up
+export const RELAY_PROVIDERS: AIProviderId[] = [...KEYED_PROVIDERS, 'local'];
+
+// Whether this browser has what the provider needs: a key, a configured endpoint, or nothing at all
+export function isProviderReady(providerId: AIProviderId, apiKey?: string | null): boolean {
+  const adapter = adapters[providerId];
+  if (adapter.isConfigured) return adapter.isConfigured();
+  if (!adapter.requiresKey) return true;
+  return !!(apiKey ?? getStoredApiKey(providerId));
+}
+
+/**
+ * Pick the provider this browser should use: the preferred one if it is ready,
+ * otherwise the first provider with a stored key or a local endpoint, falling back
+ * to the mock provider in development.
+ */
+export function resolveProvider(preferred?: string): AIProviderId | null {
+  if (preferred && isAIProviderId(preferred) && isProviderReady(preferred)) {
+    return preferred;
+  }
+
+  const ready = RELAY_PROVIDERS.find(id => isProviderReady(id));
+  if (ready) return ready;
+
+  return import.meta.env.DEV ? 'mock' : null;
+}
@@ -0,0 +1,104 @@
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+
+// What each participant announces on the room's relay channel
+export interface AIRelayCandidate {
+  userId: string;
+  // Can answer requests for others: sees a room key in the vault, or holds a key or local endpoint in this browser
+  canRelay: boolean;
+  isHost: boolean;
+  joinedAt: string;
+}
+
+/**
+ * Pick the participant that answers AI requests for the room. Key holders win, the room
+ * host first and then whoever has been in the room longest; without any, the host keeps
+ * the role so requests still reach it. Every client runs this on the same presence state,
+ * so they all agree without exchanging votes.
+ */
+export function electRelay(candidates: AIRelayCandidate[]): string | null {
+  const byPriority = (a: AIRelayCandidate, b: AIRelayCandidate) =>
+    Number(b.isHost) - Number(a.isHost) ||
+    a.joinedAt.localeCompare(b.joinedAt) ||
+    a.userId.localeCompare(b.userId);
+
+  const keyHolders = candidates.filter(candidate => candidate.canRelay).sort(byPriority);
+  if (keyHolders.length > 0) {
+    return keyHolders[0].userId;
+  }
+  return candidates.find(candidate => candidate.isHost)?.userId ?? null;
+}
+
+export type AIRelayChangeHandler = (relayUserId: string | null, previousRelayUserId: string | null) => void;
+
+// Tracks who is present on the room's relay channel and re-runs the election whenever that changes
+export class AIRelayElection {
+  private channel: RealtimeChannel;
+  private self: AIRelayCandidate;
+  private members = new Map<string, AIRelayCandidate>();
+  private relayUserId: string | null = null;
+  private onChange: AIRelayChangeHandler;
+  private isSubscribed = false;
+
+  constructor(roomId: string, userId: string, isHost: boolean, onChange: AIRelayChangeHandler) {
+    this.self = { userId, canRelay: false, isHost, joinedAt: new Date().toISOString() };
+    this.onChange = onChange;
+
+    this.channel = supabase.channel(`ai_relay_${roomId}`, {
+      config: {
+        presence: { key: userId }
+      }
+    });
+
+    this.channel.on('presence', { event: 'sync' }, () => {
+      const state = this.channel.presenceState<AIRelayCandidate>();
+      this.members = new Map(
+        Object.values(state)
+          .map(presences => presences[0])
+          .filter(Boolean)
+          .map(candidate => [candidate.userId, candidate])
+      );
+      this.elect();
+    });
+
+    this.channel.subscribe((status) => {
+      console.log(`🗳️ AI relay channel status: ${status}`);
+      if (status === 'SUBSCRIBED') {
+        this.isSubscribed = true;
+        this.channel.track(this.self);
+      }
+    });
+  }
+
+  // Volunteer as relay, or step back, e.g. after adding or removing a key
+  setCanRelay(canRelay: boolean) {
+    if (this.self.canRelay === canRelay) return;
+    this.self = { ...this.self, canRelay };
+    if (this.isSubscribed) {
+      this.channel.track(this.self);
+    }
+  }
+
+  getRelayUserId(): string | null {
+    return this.relayUserId;
+  }
+
+  isPresent(userId: string): boolean {
+    return this.members.has(userId);
+  }
+
+  private elect() {
+    const relayUserId = electRelay([...this.members.values()]);
+    if (relayUserId === this.relayUserId) return;
+
+    const previousRelayUserId = this.relayUserId;
+    this.relayUserId = relayUserId;
+    console.log('🗳️ AI relay elected:', { relayUserId, previousRelayUserId });
+    this.onChange(relayUserId, previousRelayUserId);
+  }
+
+  cleanup() {
+    this.channel.untrack();
+    supabase.removeChannel(this.channel);
+  }
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { AIRequestQueue, type AIQueueJob } from './aiRequestQueue';
+
+// A job that runs until settled by hand, recording when it started and whether it was aborted
+const manualJob = (requestId: string, userId: string, started: string[]) => {
+  let finish: () => void = () => {};
+  let aborted = false;
+  const job: AIQueueJob = {
+    requestId,
+    userId,
+    run: (signal) => {
+      started.push(requestId);
+      signal.addEventListener('abort', () => {
+        aborted = true;
+        finish();
+      });
+      return new Promise<void>(resolve => {
+        finish = resolve;
+      });
+    }
+  };
+  return { job, finish: () => finish(), wasAborted: () => aborted };
+};
+
+// Let the queue's promise callbacks run
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const roomyLimits = { perUserRequestLimit: 100, maxQueuedPerUser: 100 };
+
+describe('AIRequestQueue', () => {
+  it('takes turns across participants instead of first come, first served', () => {
+    const started: string[] = [];
+    const queue = new AIRequestQueue({ concurrency: 1, ...roomyLimits });
+    queue.enqueue(manualJob('running', 'carol', started).job);
+    ['a1', 'a2', 'a3'].forEach(id => queue.enqueue(manualJob(id, 'alice', started).job));
+    ['b1', 'b2'].forEach(id => queue.enqueue(manualJob(id, 'bob', started).job));
+
+    expect(queue.getPositions().map(p => p.requestId)).toEqual(['a1', 'b1', 'a2', 'b2', 'a3']);
+    expect(queue.getPositions().map(p => p.position)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('starts the next participant\'s request when a slot frees up', async () => {
+    const started: string[] = [];
+    const queue = new AIRequestQueue({ concurrency: 1, ...roomyLimits });
+    const first = manualJob('a1', 'alice', started);
+    queue.enqueue(first.job);
+    queue.enqueue(manualJob('a2', 'alice', started).job);
+    queue.enqueue(manualJob('b1', 'bob', started).job);
+    expect(started).toEqual(['a1']);
+
+    first.finish();
+    await settle();
+
+    expect(started).toEqual(['a1', 'b1']);
+  });
+
+  it('refuses requests beyond the per-participant cap without affecting others', () => {
+    const started: string[] = [];
+    const queue = new AIRequestQueue({ concurrency: 1, perUserRequestLimit: 100, maxQueuedPerUser: 2 });
+    queue.enqueue(manualJob('a1', 'alice', started).job);
+    queue.enqueue(manualJob('a2', 'alice', started).job);
+    queue.enqueue(manualJob('a3', 'alice', started).job);
+
+    expect(queue.enqueue(manualJob('a4', 'alice', started).job)).toEqual({ accepted: false, reason: 'queue_full' });
+    expect(queue.enqueue(manualJob('b1', 'bob', started).job)).toMatchObject({ accepted: true });
+  });
+
+  it('rate limits a participant until their window passes', () => {
+    let now = 0;
+    const started: string[] = [];
+    const queue = new AIRequestQueue({ concurrency: 5, perUserRequestLimit: 2, rateWindowMs: 1000, maxQueuedPerUser: 5 }, () => now);
+    queue.enqueue(manualJob('a1', 'alice', started).job);
+    now = 200;
+    queue.enqueue(manualJob('a2', 'alice', started).job);
+
+    expect(queue.enqueue(manualJob('a3', 'alice', started).job)).toEqual({
+      accepted: false,
+      reason: 'rate_limited',
+      retryAfterMs: 800
+    });
+    now = 1001;
+    expect(queue.enqueue(manualJob('a3', 'alice', started).job)).toMatchObject({ accepted: true });
+  });
+
+  it('drops a waiting request on cancel and aborts a running one', async () => {
+    const started: string[] = [];
+    const queue = new AIRequestQueue({ concurrency: 1, ...roomyLimits });
+    const running = manualJob('a1', 'alice', started);
+    queue.enqueue(running.job);
+    queue.enqueue(manualJob('b1', 'bob', started).job);
+    queue.enqueue(manualJob('c1', 'carol', started).job);
+
+    expect(queue.cancel('b1')).toBe(true);
+    expect(queue.getPositions().map(p => p.requestId)).toEqual(['c1']);
+
+    expect(queue.cancel('a1')).toBe(true);
+    expect(running.wasAborted()).toBe(true);
+    await settle();
+    expect(started).toEqual(['a1', 'c1']);
+    expect(queue.cancel('unknown')).toBe(false);
+  });
+
+  it('knows who each waiting or running request belongs to', () => {
+    const started: string[] = [];
+    const queue = new AIRequestQueue({ concurrency: 1, ...roomyLimits });
+    queue.enqueue(manualJob('a1', 'alice', started).job);
+    queue.enqueue(manualJob('b1', 'bob', started).job);
+
+    expect(queue.ownerOf('a1')).toBe('alice');
+    expect(queue.ownerOf('b1')).toBe('bob');
+    expect(queue.ownerOf('x')).toBeNull();
+  });
+});
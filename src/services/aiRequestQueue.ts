@@ -0,0 +1,234 @@
+export interface AIRequestQueueConfig {
+  // Provider calls running at the same time
+  concurrency: number;
+  // Requests one participant may start within the rate window
+  perUserRequestLimit: number;
+  rateWindowMs: number;
+  // Requests one participant may have waiting at once
+  maxQueuedPerUser: number;
+}
+
+export const DEFAULT_AI_QUEUE_CONFIG: AIRequestQueueConfig = {
+  concurrency: 2,
+  perUserRequestLimit: 5,
+  rateWindowMs: 60000,
+  maxQueuedPerUser: 3
+};
+
+export interface AIQueueJob {
+  requestId: string;
+  userId: string;
+  run: (signal: AbortSignal) => Promise<void>;
+}
+
+export type AIEnqueueResult =
+  | { accepted: true; position: number }
+  | { accepted: false; reason: 'rate_limited' | 'queue_full'; retryAfterMs?: number };
+
+export interface AIQueuePosition {
+  requestId: string;
+  userId: string;
+  position: number; // 1-based place in line
+  queueLength: number;
+}
+
+/**
+ * Host-side queue for relayed AI requests. Waiting requests take turns across
+ * participants, so one busy participant cannot starve the others, and each
+ * participant is rate limited because every request spends the host's key.
+ */
+export class AIRequestQueue {
+  private config: AIRequestQueueConfig;
+  // Waiting jobs per participant, and the order participants take turns in
+  private waiting = new Map<string, AIQueueJob[]>();
+  private turnOrder: string[] = [];
+  private active = new Map<string, AbortController>();
+  private activeUsers = new Map<string, string>(); // requestId -> userId
+  private startTimes = new Map<string, number[]>();
+  private onPositionsChange: ((positions: AIQueuePosition[]) => void) | null = null;
+  private now: () => number;
+
+  constructor(config: Partial<AIRequestQueueConfig> = {}, now: () => number = Date.now) {
+    this.config = { ...DEFAULT_AI_QUEUE_CONFIG, ...config };
+    this.now = now;
+  }
+
+  setConfig(config: Partial<AIRequestQueueConfig>) {
+    this.config = { ...this.config, ...config };
+    this.drain();
+    this.notifyPositions();
+  }
+
+  setPositionsChangeHandler(handler: ((positions: AIQueuePosition[]) => void) | null) {
+    this.onPositionsChange = handler;
+  }
+
+  enqueue(job: AIQueueJob): AIEnqueueResult {
+    const retryAfterMs = this.getRetryAfter(job.userId);
+    if (retryAfterMs > 0) {
+      return { accepted: false, reason: 'rate_limited', retryAfterMs };
+    }
+
+    const userJobs = this.waiting.get(job.userId) ?? [];
+    if (userJobs.length >= this.config.maxQueuedPerUser) {
+      return { accepted: false, reason: 'queue_full' };
+    }
+
+    userJobs.push(job);
+    this.waiting.set(job.userId, userJobs);
+    if (!this.turnOrder.includes(job.userId)) {
+      this.turnOrder.push(job.userId);
+    }
+
+    this.drain();
+    // A new participant takes a turn ahead of others' later requests, so everyone's place can change
+    const positions = this.getPositions();
+    this.notifyPositions(positions);
+    const position = positions.find(p => p.requestId === job.requestId)?.position ?? 0;
+    return { accepted: true, position };
+  }
+
+  // Remove a waiting request or abort a running one. Returns false if the id is unknown.
+  cancel(requestId: string): boolean {
+    const controller = this.active.get(requestId);
+    if (controller) {
+      controller.abort();
+      return true;
+    }
+
+    for (const [userId, jobs] of this.waiting) {
+      const index = jobs.findIndex(job => job.requestId === requestId);
+      if (index === -1) continue;
+      jobs.splice(index, 1);
+      if (jobs.length === 0) {
+        this.waiting.delete(userId);
+        this.turnOrder = this.turnOrder.filter(id => id !== userId);
+      }
+      this.notifyPositions();
+      return true;
+    }
+    return false;
+  }
+
+  // Participant a waiting or running request belongs to, or null if the id is unknown
+  ownerOf(requestId: string): string | null {
+    const running = this.activeUsers.get(requestId);
+    if (running) return running;
+    for (const [userId, jobs] of this.waiting) {
+      if (jobs.some(job => job.requestId === requestId)) return userId;
+    }
+    return null;
+  }
+
+  // Waiting requests in the order they will start
+  getPositions(): AIQueuePosition[] {
+    const ordered = this.orderWaiting();
+    return ordered.map((job, index) => ({
+      requestId: job.requestId,
+      userId: job.userId,
+      position: index + 1,
+      queueLength: ordered.length
+    }));
+  }
+
+  get activeCount() {
+    return this.active.size;
+  }
+
+  clear() {
+    this.active.forEach(controller => controller.abort());
+    this.active.clear();
+    this.activeUsers.clear();
+    this.waiting.clear();
+    this.turnOrder = [];
+  }
+
+  // Milliseconds until the participant may start another request, 0 if allowed now
+  private getRetryAfter(userId: string): number {
+    const windowStart = this.now() - this.config.rateWindowMs;
+    const recent = (this.startTimes.get(userId) ?? []).filter(time => time > windowStart);
+    this.startTimes.set(userId, recent);
+
+    const queued = this.waiting.get(userId)?.length ?? 0;
+    if (recent.length + queued < this.config.perUserRequestLimit) {
+      return 0;
+    }
+    const oldest = recent[0];
+    return oldest !== undefined ? oldest + this.config.rateWindowMs - this.now() : this.config.rateWindowMs;
+  }
+
+  /**
+   * Simulate the turn-taking: the next job always belongs to the participant with the
+   * fewest running requests, ties broken by whoever has waited longest for a turn.
+   */
+  private orderWaiting(): AIQueueJob[] {
+    const queues = new Map([...this.waiting].map(([userId, jobs]) => [userId, [...jobs]]));
+    const order = [...this.turnOrder];
+    const running = new Map<string, number>();
+    this.activeUsers.forEach(userId => running.set(userId, (running.get(userId) ?? 0) + 1));
+
+    const result: AIQueueJob[] = [];
+    while (order.length > 0) {
+      let nextIndex = 0;
+      order.forEach((userId, index) => {
+        if ((running.get(userId) ?? 0) < (running.get(order[nextIndex]) ?? 0)) {
+          nextIndex = index;
+        }
+      });
+
+      const [userId] = order.splice(nextIndex, 1);
+      const jobs = queues.get(userId);
+      const job = jobs?.shift();
+      if (!job) continue;
+
+      result.push(job);
+      running.set(userId, (running.get(userId) ?? 0) + 1);
+      if (jobs && jobs.length > 0) order.push(userId);
+    }
+    return result;
+  }
+
+  private drain() {
+    while (this.active.size < this.config.concurrency) {
+      const job = this.orderWaiting()[0];
+      if (!job) break;
+
+      const jobs = this.waiting.get(job.userId) ?? [];
+      jobs.shift();
+      this.turnOrder = this.turnOrder.filter(id => id !== job.userId);
+      if (jobs.length > 0) {
+        this.turnOrder.push(job.userId);
+      } else {
+        this.waiting.delete(job.userId);
+      }
+
+      this.start(job);
+    }
+  }
+
+  private start(job: AIQueueJob) {
+    const controller = new AbortController();
+    this.active.set(job.requestId, controller);
+    this.activeUsers.set(job.requestId, job.userId);
+    this.startTimes.set(job.userId, [...(this.startTimes.get(job.userId) ?? []), this.now()]);
+
+    job.run(controller.signal)
+      .catch(error => {
+        console.error('AI queue job failed:', error);
+      })
+      .finally(() => {
+        this.active.delete(job.requestId);
+        this.activeUsers.delete(job.requestId);
+        // Having just had a turn, the participant waits behind everyone already in line
+        if (this.turnOrder.includes(job.userId)) {
+          this.turnOrder = [...this.turnOrder.filter(id => id !== job.userId), job.userId];
+        }
+        this.drain();
+        this.notifyPositions();
+      });
+  }
+
+  private notifyPositions(positions: AIQueuePosition[] = this.getPositions()) {
+    this.onPositionsChange?.(positions);
+  }
+}
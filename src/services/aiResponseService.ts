@@ -0,0 +1,253 @@
+import { supabase } from '../lib/supabase';
+import type { AIResponse, AIResponseReply, AIResponseStatus } from '../types/room';
+import type { AIFileCitation } from '../types/ai';
+
+interface AIResponseRow {
+  id: string;
+  room_id: string;
+  from_user_id: string;
+  prompt: string | null;
+  content: string;
+  provider: string | null;
+  status: AIResponseStatus;
+  group_id: string | null;
+  latency_ms: number | null;
+  citations: AIFileCitation[] | null;
+  position_x: number;
+  position_y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  z_index: number;
+}
+
+interface AIResponseReplyRow {
+  id: string;
+  response_id: string;
+  room_id: string;
+  from_user_id: string;
+  prompt: string;
+  content: string;
+  provider: string | null;
+  status: AIResponseStatus;
+  citations: AIFileCitation[] | null;
+  created_at: string;
+}
+
+export interface AIResponseChangeHandlers {
+  onUpsert: (response: AIResponse) => void;
+  onDelete: (id: string) => void;
+  onReplyUpsert?: (reply: AIResponseReply) => void;
+  onReplyDelete?: (id: string) => void;
+}
+
+// Drag and resize fire on every mouse move; row updates are batched per card
+const UPDATE_FLUSH_DELAY = 150; // ms
+
+const fromRow = (row: AIResponseRow): AIResponse => ({
+  id: row.id,
+  content: row.content,
+  status: row.status,
+  position: { x: row.position_x, y: row.position_y },
+  size: { width: row.width, height: row.height },
+  rotation: row.rotation,
+  zIndex: row.z_index,
+  fromUserId: row.from_user_id,
+  provider: row.provider ?? undefined,
+  prompt: row.prompt ?? undefined,
+  groupId: row.group_id ?? undefined,
+  latencyMs: row.latency_ms ?? undefined,
+  citations: row.citations ?? undefined
+});
+
+const replyFromRow = (row: AIResponseReplyRow): AIResponseReply => ({
+  id: row.id,
+  responseId: row.response_id,
+  fromUserId: row.from_user_id,
+  prompt: row.prompt,
+  content: row.content,
+  status: row.status,
+  provider: row.provider ?? undefined,
+  citations: row.citations ?? undefined,
+  createdAt: row.created_at
+});
+
+const toRow = (response: Partial<AIResponse>): Partial<AIResponseRow> => {
+  const row: Partial<AIResponseRow> = {};
+  if (response.content !== undefined) row.content = response.content;
+  if (response.status !== undefined) row.status = response.status;
+  if (response.position) {
+    row.position_x = response.position.x;
+    row.position_y = response.position.y;
+  }
+  if (response.size) {
+    row.width = response.size.width;
+    row.height = response.size.height;
+  }
+  if (response.rotation !== undefined) row.rotation = response.rotation;
+  if (response.zIndex !== undefined) row.z_index = response.zIndex;
+  if (response.fromUserId !== undefined) row.from_user_id = response.fromUserId;
+  if (response.provider !== undefined) row.provider = response.provider;
+  if (response.prompt !== undefined) row.prompt = response.prompt;
+  // An explicit undefined groupId ungroups the card
+  if ('groupId' in response) row.group_id = response.groupId ?? null;
+  if (response.latencyMs !== undefined) row.latency_ms = response.latencyMs;
+  if (response.citations !== undefined) row.citations = response.citations;
+  return row;
+};
+
+export class AIResponseService {
+  private static pendingUpdates = new Map<string, Partial<AIResponse>>();
+  private static flushTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  // Cards come back with their threads attached
+  static async getRoomResponses(roomId: string): Promise<AIResponse[]> {
+    const [responsesResult, repliesResult] = await Promise.all([
+      supabase
+        .from('ai_responses')
+        .select('*')
+        .eq('room_id', roomId)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('ai_response_replies')
+        .select('*')
+        .eq('room_id', roomId)
+        .order('created_at', { ascending: true })
+    ]);
+
+    if (responsesResult.error) throw responsesResult.error;
+    if (repliesResult.error) throw repliesResult.error;
+
+    const replies = (repliesResult.data as AIResponseReplyRow[]).map(replyFromRow);
+    return (responsesResult.data as AIResponseRow[]).map(row => ({
+      ...fromRow(row),
+      replies: replies.filter(reply => reply.responseId === row.id)
+    }));
+  }
+
+  static async createResponse(roomId: string, response: AIResponse): Promise<void> {
+    const { error } = await supabase
+      .from('ai_responses')
+      .insert({ ...toRow(response), id: response.id, room_id: roomId });
+
+    if (error) throw error;
+  }
+
+  // Put a closed card back, thread included
+  static async restoreResponse(roomId: string, response: AIResponse): Promise<void> {
+    await this.createResponse(roomId, response);
+    for (const reply of response.replies ?? []) {
+      await this.createReply(roomId, reply);
+    }
+  }
+
+  static async updateResponse(id: string, updates: Partial<AIResponse>): Promise<void> {
+    const { error } = await supabase
+      .from('ai_responses')
+      .update(toRow(updates))
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Merge rapid updates for one card (drag, resize) into a single row update
+  static queueUpdate(id: string, updates: Partial<AIResponse>) {
+    this.pendingUpdates.set(id, { ...this.pendingUpdates.get(id), ...updates });
+
+    if (this.flushTimers.has(id)) return;
+    this.flushTimers.set(id, setTimeout(() => {
+      const merged = this.pendingUpdates.get(id);
+      this.pendingUpdates.delete(id);
+      this.flushTimers.delete(id);
+      if (merged) {
+        this.updateResponse(id, merged).catch(error => {
+          console.error('Failed to sync AI response card:', error);
+        });
+      }
+    }, UPDATE_FLUSH_DELAY));
+  }
+
+  static async createReply(roomId: string, reply: AIResponseReply): Promise<void> {
+    const { error } = await supabase
+      .from('ai_response_replies')
+      .insert({
+        id: reply.id,
+        response_id: reply.responseId,
+        room_id: roomId,
+        from_user_id: reply.fromUserId,
+        prompt: reply.prompt,
+        content: reply.content,
+        provider: reply.provider ?? null,
+        citations: reply.citations ?? null,
+        status: reply.status
+      });
+
+    if (error) throw error;
+  }
+
+  static async updateReply(
+    id: string,
+    updates: Pick<AIResponseReply, 'content' | 'status' | 'provider' | 'citations'>
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('ai_response_replies')
+      .update({
+        content: updates.content,
+        status: updates.status,
+        ...(updates.provider !== undefined && { provider: updates.provider }),
+        ...(updates.citations !== undefined && { citations: updates.citations })
+      })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  static async deleteResponse(id: string): Promise<void> {
+    const timer = this.flushTimers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.flushTimers.delete(id);
+    }
+    this.pendingUpdates.delete(id);
+
+    const { error } = await supabase
+      .from('ai_responses')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Real-time subscription for AI response cards in a room
+  static subscribeToRoomResponses(roomId: string, handlers: AIResponseChangeHandlers) {
+    return supabase
+      .channel(`ai_responses_${roomId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'ai_responses',
+        filter: `room_id=eq.${roomId}`
+      }, (payload) => {
+        if (payload.eventType === 'DELETE') {
+          const oldRow = payload.old as Partial<AIResponseRow>;
+          if (oldRow.id) handlers.onDelete(oldRow.id);
+        } else {
+          handlers.onUpsert(fromRow(payload.new as AIResponseRow));
+        }
+      })
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'ai_response_replies',
+        filter: `room_id=eq.${roomId}`
+      }, (payload) => {
+        if (payload.eventType === 'DELETE') {
+          const oldRow = payload.old as Partial<AIResponseReplyRow>;
+          if (oldRow.id) handlers.onReplyDelete?.(oldRow.id);
+        } else {
+          handlers.onReplyUpsert?.(replyFromRow(payload.new as AIResponseReplyRow));
+        }
+      })
+      .subscribe();
+  }
+}
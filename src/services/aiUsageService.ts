@@ -0,0 +1,157 @@
+import { supabase } from '../lib/supabase';
+import type {
+  AIBudgetSettings,
+  AICompletionResult,
+  AIProviderId,
+  AIUsageRecord,
+  AIUsageSummary
+} from '../types/ai';
+
+interface ModelPrice {
+  input: number; // USD per million input tokens
+  output: number; // USD per million output tokens
+}
+
+// Matched by model name prefix, most specific first
+const MODEL_PRICING: Array<{ prefix: string; price: ModelPrice }> = [
+  { prefix: 'gpt-4o-mini', price: { input: 0.15, output: 0.6 } },
+  { prefix: 'gpt-4o', price: { input: 2.5, output: 10 } },
+  { prefix: 'gpt-4.1-mini', price: { input: 0.4, output: 1.6 } },
+  { prefix: 'gpt-4.1', price: { input: 2, output: 8 } },
+  { prefix: 'claude-3-5-haiku', price: { input: 0.8, output: 4 } },
+  { prefix: 'claude-3-5-sonnet', price: { input: 3, output: 15 } },
+  { prefix: 'claude-sonnet-4', price: { input: 3, output: 15 } },
+  { prefix: 'claude-opus-4', price: { input: 15, output: 75 } },
+  { prefix: 'gemini-1.5-flash', price: { input: 0.075, output: 0.3 } },
+  { prefix: 'gemini-1.5-pro', price: { input: 1.25, output: 5 } },
+  { prefix: 'gemini-2.0-flash', price: { input: 0.1, output: 0.4 } }
+];
+
+// Used for models missing from the table above
+const PROVIDER_FALLBACK_PRICING: Record<AIProviderId, ModelPrice> = {
+  openai: { input: 2.5, output: 10 },
+  anthropic: { input: 3, output: 15 },
+  google: { input: 1.25, output: 5 },
+  local: { input: 0, output: 0 },
+  mock: { input: 0, output: 0 }
+};
+
+export const DEFAULT_AI_BUDGET: AIBudgetSettings = {
+  roomLimitUsd: null,
+  participantLimitUsd: null,
+  participantOverrides: {}
+};
+
+export function estimateCost(provider: AIProviderId, model: string, inputTokens: number, outputTokens: number): number {
+  // Self-hosted and mock answers cost nothing, whatever the model is called
+  const price = provider === 'mock' || provider === 'local'
+    ? PROVIDER_FALLBACK_PRICING[provider]
+    : MODEL_PRICING.find(entry => model.startsWith(entry.prefix))?.price ?? PROVIDER_FALLBACK_PRICING[provider];
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+export const formatUsd = (amount: number) =>
+  amount < 0.01 && amount > 0 ? `$${amount.toFixed(4)}` : `$${amount.toFixed(2)}`;
+
+export class AIUsageService {
+  static async recordUsage(
+    roomId: string,
+    userId: string,
+    result: AICompletionResult,
+    source: AIUsageRecord['source']
+  ): Promise<void> {
+    // Providers that do not report usage cannot be billed accurately; record the request anyway
+    const inputTokens = result.usage?.inputTokens ?? 0;
+    const outputTokens = result.usage?.outputTokens ?? 0;
+
+    const { error } = await supabase
+      .from('ai_usage')
+      .insert({
+        room_id: roomId,
+        user_id: userId,
+        provider: result.provider,
+        model: result.model,
+        input_tokens: inputTokens,
+        output_tokens: outputTokens,
+        cost_usd: estimateCost(result.provider, result.model, inputTokens, outputTokens),
+        source
+      });
+
+    if (error) throw error;
+  }
+
+  static async getUsageSummary(roomId: string): Promise<AIUsageSummary> {
+    const { data, error } = await supabase
+      .from('ai_usage')
+      .select('user_id, input_tokens, output_tokens, cost_usd')
+      .eq('room_id', roomId);
+
+    if (error) throw error;
+
+    const summary: AIUsageSummary = { totalCostUsd: 0, byUser: {} };
+    data.forEach(row => {
+      const cost = Number(row.cost_usd);
+      const entry = summary.byUser[row.user_id] ?? { requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+      entry.requests += 1;
+      entry.inputTokens += row.input_tokens;
+      entry.outputTokens += row.output_tokens;
+      entry.costUsd += cost;
+      summary.byUser[row.user_id] = entry;
+      summary.totalCostUsd += cost;
+    });
+    return summary;
+  }
+
+  static async getBudget(roomId: string): Promise<AIBudgetSettings> {
+    const { data, error } = await supabase
+      .from('rooms')
+      .select('settings')
+      .eq('id', roomId)
+      .single();
+
+    if (error) throw error;
+
+    return { ...DEFAULT_AI_BUDGET, ...(data.settings?.aiBudget ?? {}) };
+  }
+
+  static async setBudget(roomId: string, budget: AIBudgetSettings): Promise<void> {
+    // settings holds other room options, so merge rather than overwrite
+    const { data, error: fetchError } = await supabase
+      .from('rooms')
+      .select('settings')
+      .eq('id', roomId)
+      .single();
+
+    if (fetchError) throw fetchError;
+
+    const { error } = await supabase
+      .from('rooms')
+      .update({ settings: { ...(data.settings ?? {}), aiBudget: budget } })
+      .eq('id', roomId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Returns a message explaining why the participant may not spend more, or null if they may.
+   * Costs are only known after a request finishes, so a budget can be overshot by one request.
+   */
+  static async checkBudget(roomId: string, userId: string): Promise<string | null> {
+    const [budget, summary] = await Promise.all([
+      this.getBudget(roomId),
+      this.getUsageSummary(roomId)
+    ]);
+
+    if (budget.roomLimitUsd !== null && summary.totalCostUsd >= budget.roomLimitUsd) {
+      return `This room has used its AI budget of ${formatUsd(budget.roomLimitUsd)}. Ask the host to raise it.`;
+    }
+
+    const userLimit = budget.participantOverrides[userId] ?? budget.participantLimitUsd;
+    const userCost = summary.byUser[userId]?.costUsd ?? 0;
+    if (userLimit !== null && userCost >= userLimit) {
+      return `You have used your AI budget of ${formatUsd(userLimit)} in this room. Ask the host to raise it.`;
+    }
+
+    return null;
+  }
+}
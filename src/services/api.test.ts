@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { apiService } from './api';
+
+// The proxy call only needs fetch; the client is never reached
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const proxyRequest = {
+  roomId: 'room-1',
+  userId: 'user-1',
+  provider: 'mock' as const,
+  messages: [{ role: 'user' as const, content: 'Hello there' }]
+};
+
+const jsonResponse = (body: object, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('requestAICompletion', () => {
+  it('posts the request to the ai-completion function and returns its answer', async () => {
+    const answer = { content: 'Mock response to: Hello there', provider: 'mock', model: 'mock-echo' };
+    const fetchMock = vi.fn(async () => jsonResponse(answer));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(apiService.requestAICompletion(proxyRequest)).resolves.toEqual(answer);
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toMatch(/\/functions\/v1\/ai-completion$/);
+    expect(JSON.parse(init.body as string)).toEqual(proxyRequest);
+  });
+
+  it('keeps the error code of a refusal', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => jsonResponse({ error: 'Room budget reached', code: 'budget_exceeded' }, 402)));
+
+    await expect(apiService.requestAICompletion(proxyRequest)).rejects.toMatchObject({
+      message: 'Room budget reached',
+      code: 'budget_exceeded'
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { supabase } from '../lib/supabase';
 import { CreateRoomRequest, CreateRoomResponse, JoinRoomRequest, JoinRoomResponse, RoomDetailsResponse, CreateInviteLinkRequest, CreateInviteLinkResponse, InviteLink } from '../types/room';
+import type { AICompletionResult, AIFileExcerpt, AIKeySummary, AIProviderId, AIProxyCompletionRequest } from '../types/ai';
 
 // API configuration
 const API_BASE = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1`;
@@ -446,6 +447,104 @@ class ApiService {
       }
     );
   }
+
+  /**
+   * Ask the ai-completion edge function to answer with the room's stored key.
+   * There is no direct fallback: keys can only be decrypted server-side.
+   */
+  async requestAICompletion(request: AIProxyCompletionRequest, signal?: AbortSignal): Promise<AICompletionResult> {
+    const response = await fetch(`${API_BASE}/ai-completion`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+      },
+      body: JSON.stringify(request),
+      signal,
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      // Keep the error code (e.g. budget_exceeded) so callers can tell refusals from failures
+      throw Object.assign(new Error(error.error || 'Failed to get AI completion'), { code: error.code });
+    }
+
+    return response.json();
+  }
+
+  // Providers with a key in the room's vault, masked
+  async listAIKeys(roomId: string, userId: string): Promise<AIKeySummary[]> {
+    const params = new URLSearchParams({ roomId, userId });
+    const response = await fetch(`${API_BASE}/ai-keys?${params}`, {
+      headers: {
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to load API keys');
+    }
+
+    const data = await response.json();
+    return data.keys;
+  }
+
+  // Validates the key with the provider, then stores it encrypted; saving over an existing key rotates it
+  async saveAIKey(roomId: string, userId: string, provider: AIProviderId, apiKey: string): Promise<AIKeySummary> {
+    const response = await fetch(`${API_BASE}/ai-keys`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+      },
+      body: JSON.stringify({ roomId, userId, provider, apiKey }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to save API key');
+    }
+
+    const data = await response.json();
+    return data.key;
+  }
+
+  async revokeAIKey(roomId: string, userId: string, provider: AIProviderId): Promise<void> {
+    const response = await fetch(`${API_BASE}/ai-keys`, {
+      method: 'DELETE',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+      },
+      body: JSON.stringify({ roomId, userId, provider }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to revoke API key');
+    }
+  }
+
+  // Passages of the room's shared files that match a prompt; files are read on first use
+  async searchRoomFiles(roomId: string, userId: string, query: string): Promise<AIFileExcerpt[]> {
+    const response = await fetch(`${API_BASE}/file-context`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+      },
+      body: JSON.stringify({ roomId, userId, query }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to search room files');
+    }
+
+    const data = await response.json();
+    return data.excerpts;
+  }
 }
 
 export const apiService = new ApiService(); 
\ No newline at end of file
@@ -1,181 +1,859 @@
-import { WebRTCSignalingManager } from '../lib/realtimeWebRTC';
+import { acquireSignalingManager, releaseSignalingManager, type WebRTCSignalingManager } from '../lib/realtimeWebRTC';
+import { RELAY_PROVIDERS, getProviderAdapter, isProviderReady } from './aiProviders';
+import { apiService } from './api';
+import { buildRoomContext, citedSources, type RoomContext } from './aiContextBuilder';
+import { AIRequestQueue, AIRequestQueueConfig } from './aiRequestQueue';
+import { AIUsageService } from './aiUsageService';
+import { AIPersonaService, DEFAULT_AI_PERSONA } from './aiPersonaService';
+import { AIRelayElection } from './aiRelayElection';
+import { AI_CANVAS_TOOLS, appendCanvasActionSummary, isCanvasToolCall, type AICanvasToolRun } from './aiCanvasTools';
+import type {
+  AICanvasAction,
+  AICompletionResult,
+  AIDataMessage,
+  AIPersonaSettings,
+  AIProviderId,
+  AIRequestErrorCode,
+  AIRequestMessage,
+  AIThreadContext,
+  AIToolCall
+} from '../types/ai';
 
-interface AIRequest {
-  type: 'ai_request';
-  message: string;
-  requestId: string;
-  fromUserId: string;
+export interface AIRequestOptions {
+  // Called for every streamed fragment with the text accumulated so far
+  onChunk?: (delta: string, content: string) => void;
+  // Aborting cancels the request mid-stream, both locally and on the relay
+  signal?: AbortSignal;
+  // Called while the request waits in the relay's queue; position 0 means it has started
+  onQueuePosition?: (position: number, queueLength: number) => void;
+  // Answer with this provider instead of the relay's default (e.g. /ask @claude)
+  provider?: AIProviderId;
+  // Continue this conversation, e.g. a follow-up on an AI response card
+  thread?: AIThreadContext;
+  // Offer the board tools, so the answer may add, move, group or link cards
+  canvasTools?: boolean;
 }
 
-interface AIResponse {
-  type: 'ai_response';
+interface PendingRequest {
+  // Participant relaying this request, so it can be re-routed if they leave
+  relayUserId: string;
   content: string;
-  requestId: string;
-  fromUserId: string;
+  onChunk?: (delta: string, content: string) => void;
+  onQueuePosition?: (position: number, queueLength: number) => void;
+  resolve: (result: AICompletionResult) => void;
+  reject: (error: Error) => void;
+  timeout: ReturnType<typeof setTimeout> | null;
 }
 
+// Reset on every chunk, so long answers keep streaming as long as the relay is alive
+const RESPONSE_IDLE_TIMEOUT = 30000;
+// Waiting in the relay's queue can take longer than a stalled stream
+const QUEUED_IDLE_TIMEOUT = 5 * 60 * 1000;
+// How long a participant waits for the relay to list its providers
+const PROVIDER_LIST_TIMEOUT = 3000;
+
+const abortError = () => new DOMException('Request cancelled', 'AbortError');
+
+// How many times one request may follow the relay role to a new participant
+const MAX_RELAY_REROUTES = 2;
+
+// Relay rejections that the server-side proxy must not be used to get around
+const NON_RETRYABLE_CODES: AIRequestErrorCode[] = ['cancelled', 'rate_limited', 'queue_full', 'budget_exceeded'];
+
+export class AIRequestError extends Error {
+  code: AIRequestErrorCode;
+  retryAfterMs?: number;
+
+  constructor(message: string, code: AIRequestErrorCode, retryAfterMs?: number) {
+    super(message);
+    this.name = 'AIRequestError';
+    this.code = code;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+const queueRejectionMessage = (reason: 'rate_limited' | 'queue_full', retryAfterMs?: number) =>
+  reason === 'rate_limited'
+    ? `Too many AI requests. Try again in ${Math.ceil((retryAfterMs ?? 0) / 1000)}s.`
+    : 'You already have the maximum number of AI requests waiting.';
+
+// Called when the AI relay role moves to another participant; previousRelayUserId is null on the first election
+export type AIRelayHandoffHandler = (relayUserId: string | null, previousRelayUserId: string | null) => void;
+
+// For relay: Carry out the model's board changes for the requester, returning what happened to each call
+export type AICanvasToolHandler = (calls: AIToolCall[], requesterId: string) => AICanvasToolRun;
+
+// For requesters: Board changes the relay made for one of our answers, to record in our own history
+export type AICanvasActionsHandler = (actions: AICanvasAction[]) => void;
+
 export class AIService {
   private signalingManager: WebRTCSignalingManager | null = null;
-  private isHost: boolean;
+  private removeDataMessageHandler: (() => void) | null = null;
+  private election: AIRelayElection | null = null;
   private apiKey: string | null = null;
-  private pendingRequests: Map<string, (response: string) => void> = new Map();
+  private providerId: AIProviderId | null = null;
+  private pendingRequests: Map<string, PendingRequest> = new Map();
+  // Relay side: every provider call, relayed or our own, goes through one fair queue
+  private queue = new AIRequestQueue();
+  private queuedRejects: Map<string, (error: Error) => void> = new Map();
+  private localQueueListeners: Map<string, (position: number, queueLength: number) => void> = new Map();
+  private providerListRequests: Map<string, (providers: AIProviderId[]) => void> = new Map();
+  private roomId: string;
   private userId: string;
-  private hostUserId: string | undefined;
+  // Participant answering AI requests for the room: the room host until the first election says otherwise
+  private relayUserId: string | null;
+  private hasElectedRelay = false;
+  private relayHandoffHandler: AIRelayHandoffHandler | null = null;
+  private canvasToolHandler: AICanvasToolHandler | null = null;
+  private canvasActionsHandler: AICanvasActionsHandler | null = null;
+  // Providers with a key in the room's vault, which a relay answers with through the proxy
+  private vaultProviders: AIProviderId[] = [];
 
-  constructor(roomId: string, userId: string, isHost: boolean, apiKey?: string, hostUserId?: string) {
-    this.isHost = isHost;
+  constructor(roomId: string, userId: string, isHost: boolean, apiKey?: string, hostUserId?: string, providerId?: AIProviderId) {
+    this.roomId = roomId;
     this.userId = userId;
-    if (isHost && apiKey) {
+    // Anyone may hold a key and take over as relay, so every participant keeps its own
+    if (apiKey) {
       this.apiKey = apiKey;
     }
-    if (!isHost) {
-      if (!hostUserId) {
-        throw new Error('hostUserId is required for participants');
+    if (providerId) {
+      this.providerId = providerId;
+    }
+    // Without a reachable relay, requests go through the ai-completion edge function
+    this.relayUserId = isHost ? userId : hostUserId ?? null;
+    this.queue.setPositionsChangeHandler(positions => {
+      positions.forEach(({ requestId, userId: requesterId, position, queueLength }) => {
+        const localListener = this.localQueueListeners.get(requestId);
+        if (localListener) {
+          localListener(position, queueLength);
+          return;
+        }
+        this.signalingManager?.sendDataMessage(requesterId, JSON.stringify({
+          type: 'ai_queue_position',
+          requestId,
+          fromUserId: requesterId,
+          position,
+          queueLength
+        }));
+      });
+    });
+
+    this.election = new AIRelayElection(roomId, userId, isHost, (relayUserId) => this.handleRelayChange(relayUserId));
+    this.election.setCanRelay(this.holdsKey());
+    this.refreshVaultProviders();
+
+    console.log('🔌 Initializing WebRTC for AI Service:', { isHost, userId, hostUserId });
+    // Shared with the canvas sync, which sends its ops over the same data channels
+    this.signalingManager = acquireSignalingManager(roomId, userId);
+
+    // Set up connection state callback
+    this.signalingManager.setConnectionStateCallback(userId, (state) => {
+      console.log('🔌 AI Service WebRTC connection state:', { userId, state });
+    });
+
+    // Set up message handler for AI requests/responses
+    this.removeDataMessageHandler = this.signalingManager.addDataMessageHandler((fromUserId, message) => {
+      try {
+        const data = JSON.parse(message) as AIDataMessage;
+        console.log('📨 AI Service received message:', { fromUserId, messageType: data.type });
+
+        // The relay receives requests and cancellations, and streams responses back
+        if (data.type === 'ai_request') {
+          console.log('📥 Relay received AI request:', { fromUserId, requestId: data.requestId });
+          // The sender is the peer the channel belongs to, never what the message claims
+          this.handleAIRequest(data, fromUserId);
+        } else if (data.type === 'ai_cancel') {
+          // Still honoured after handing the role off, for requests we are finishing; only by whoever sent them
+          console.log('🛑 Relay received AI cancel:', { fromUserId, requestId: data.requestId });
+          if (this.queue.ownerOf(data.requestId) === fromUserId) {
+            this.cancelQueued(data.requestId);
+          }
+        } else if (data.type === 'ai_providers_request') {
+          this.signalingManager?.sendDataMessage(fromUserId, JSON.stringify({
+            type: 'ai_providers',
+            requestId: data.requestId,
+            fromUserId,
+            providers: this.isRelay ? this.listLocalProviders() : []
+          }));
+        } else if (data.fromUserId === this.userId) {
+          this.handleResponseMessage(data);
+        }
+      } catch (error) {
+        console.error('Failed to parse AI message:', error);
       }
-      this.hostUserId = hostUserId;
+    });
+  }
+
+  // Set the key used when this participant relays
+  setApiKey(apiKey: string) {
+    this.apiKey = apiKey;
+    this.election?.setCanRelay(this.holdsKey());
+  }
+
+  // Select which provider adapter answers requests while this participant relays
+  setProvider(providerId: AIProviderId, apiKey?: string) {
+    this.providerId = providerId;
+    if (apiKey !== undefined) {
+      this.apiKey = apiKey;
+    }
+    this.election?.setCanRelay(this.holdsKey());
+  }
+
+  // Look again at the room's vault, e.g. after a key was saved or revoked, and volunteer as relay accordingly
+  async refreshVaultProviders() {
+    this.vaultProviders = await this.listVaultProviders();
+    this.election?.setCanRelay(this.holdsKey());
+  }
+
+  // Notified whenever another participant takes over answering AI requests
+  setRelayHandoffHandler(handler: AIRelayHandoffHandler | null) {
+    this.relayHandoffHandler = handler;
+  }
+
+  // The board changes the model asks for are made by whoever relays, through this handler
+  setCanvasToolHandler(handler: AICanvasToolHandler | null) {
+    this.canvasToolHandler = handler;
+  }
+
+  // Told about board changes made for our answers, wherever the relay that made them is
+  setCanvasActionsHandler(handler: AICanvasActionsHandler | null) {
+    this.canvasActionsHandler = handler;
+  }
+
+  getRelayUserId(): string | null {
+    return this.relayUserId;
+  }
+
+  private get isRelay(): boolean {
+    return this.relayUserId === this.userId;
+  }
+
+  // Volunteer as relay only with a room key, a provider key or a local endpoint; the keyless mock answers nobody else
+  private holdsKey(): boolean {
+    return this.vaultProviders.length > 0 || RELAY_PROVIDERS.some(id => this.canAnswerWith(id));
+  }
+
+  // Re-route requests the departed relay never answered; requests already streaming cannot be replayed
+  private handleRelayChange(relayUserId: string | null) {
+    const previousRelayUserId = this.relayUserId;
+    const isFirstElection = !this.hasElectedRelay;
+    this.hasElectedRelay = true;
+    if (relayUserId === previousRelayUserId) return;
+
+    this.relayUserId = relayUserId;
+    console.log('🔁 AI relay handed off:', { from: previousRelayUserId, to: relayUserId });
+
+    this.pendingRequests.forEach((pending, requestId) => {
+      if (pending.relayUserId === relayUserId || this.election?.isPresent(pending.relayUserId)) return;
+      this.settleRequest(requestId, undefined, new AIRequestError(
+        pending.content ? 'The AI relay left before finishing this answer.' : 'The AI relay left',
+        'relay_changed'
+      ));
+    });
+
+    if (!isFirstElection) {
+      this.relayHandoffHandler?.(relayUserId, previousRelayUserId);
+    }
+  }
+
+  // Providers a request can be answered with: the relay's keys, asked for over the data channel by participants,
+  // plus the room's vault keys, which the server-side proxy answers with
+  async getAvailableProviders(): Promise<AIProviderId[]> {
+    const [relayProviders, vaultProviders] = await Promise.all([
+      this.isRelay ? Promise.resolve(this.listLocalProviders()) : this.requestRelayProviders(),
+      this.listVaultProviders()
+    ]);
+    return [...new Set([...relayProviders, ...vaultProviders])];
+  }
+
+  private async listVaultProviders(): Promise<AIProviderId[]> {
+    try {
+      const keys = await apiService.listAIKeys(this.roomId, this.userId);
+      return keys.map(key => key.provider);
+    } catch (error) {
+      console.error('Failed to list room API keys:', error);
+      return [];
+    }
+  }
+
+  private requestRelayProviders(): Promise<AIProviderId[]> {
+    const relayUserId = this.relayUserId;
+    if (!relayUserId || !this.signalingManager?.isDataChannelOpen(relayUserId)) {
+      return Promise.resolve([]);
     }
 
-    // Only initialize WebRTC if we're the host or if we need to receive responses
-    if (isHost || !isHost) {
-      console.log('🔌 Initializing WebRTC for AI Service:', { isHost, userId, hostUserId });
-      this.signalingManager = new WebRTCSignalingManager(roomId, userId);
-      
-      // Set up connection state callback
-      this.signalingManager.setConnectionStateCallback(userId, (state) => {
-        console.log('🔌 AI Service WebRTC connection state:', { userId, state });
+    const requestId = Math.random().toString(36).substring(7);
+    return new Promise<AIProviderId[]>((resolve) => {
+      const timeout = setTimeout(() => {
+        this.providerListRequests.delete(requestId);
+        resolve([]);
+      }, PROVIDER_LIST_TIMEOUT);
+      this.providerListRequests.set(requestId, (providers) => {
+        clearTimeout(timeout);
+        this.providerListRequests.delete(requestId);
+        resolve(providers);
       });
-      
-      // Set up message handler for AI requests/responses
-      this.signalingManager.setDataMessageHandler((fromUserId, message) => {
-        console.log('📨 AI Service received message:', { fromUserId, messageType: JSON.parse(message).type });
-        try {
-          const data = JSON.parse(message);
-          
-          if (this.isHost) {
-            // Host receives requests and sends responses
-            if (data.type === 'ai_request') {
-              console.log('📥 Host received AI request:', { fromUserId, requestId: data.requestId });
-              this.handleAIRequest(data);
-            }
-          } else {
-            // Participants receive responses
-            if (data.type === 'ai_response' && data.fromUserId === this.userId) {
-              console.log('📥 Participant received AI response:', { requestId: data.requestId });
-              const resolve = this.pendingRequests.get(data.requestId);
-              if (resolve) {
-                resolve(data.content);
-                this.pendingRequests.delete(data.requestId);
-              }
-            }
-          }
-        } catch (error) {
-          console.error('Failed to parse AI message:', error);
+      this.signalingManager?.sendDataMessage(relayUserId, JSON.stringify({
+        type: 'ai_providers_request',
+        requestId
+      }));
+    });
+  }
+
+  // For relay: Tune concurrency and per-participant limits
+  setQueueConfig(config: Partial<AIRequestQueueConfig>) {
+    this.queue.setConfig(config);
+  }
+
+  // Send a request to the relay and stream the answer back. The relay answers its own requests directly,
+  // and the server-side proxy takes over when no relay with a key can be reached.
+  // The room persona's provider is preferred when it can answer; /ask and compare mode pick their own.
+  async sendRequest(message: string, options: AIRequestOptions = {}): Promise<AICompletionResult> {
+    const persona = await this.loadPersona();
+    const result = await this.routeRequest(message, options, persona, 0);
+    if (result.canvasActions?.length) {
+      this.canvasActionsHandler?.(result.canvasActions);
+    }
+    return result;
+  }
+
+  // The host's persona for the room; an unreadable one should not take the AI offline
+  private async loadPersona(): Promise<AIPersonaSettings> {
+    try {
+      return await AIPersonaService.getPersona(this.roomId);
+    } catch (error) {
+      console.error('Failed to load AI persona:', error);
+      return DEFAULT_AI_PERSONA;
+    }
+  }
+
+  // For relay: The provider asked for, else the persona's if we can answer with it, else our own;
+  // null leaves the choice to the proxy
+  private relayProvider(provider: AIProviderId | undefined, persona: AIPersonaSettings): AIProviderId | null {
+    if (provider) return provider;
+    if (persona.provider && this.canRelayWith(persona.provider)) return persona.provider;
+    return this.providerId && this.canAnswerWith(this.providerId) ? this.providerId : null;
+  }
+
+  private async routeRequest(
+    message: string,
+    options: AIRequestOptions,
+    persona: AIPersonaSettings,
+    reroutes: number
+  ): Promise<AICompletionResult> {
+    const { onChunk, signal, onQueuePosition, provider, thread, canvasTools } = options;
+    if (signal?.aborted) {
+      throw abortError();
+    }
+
+    const relayUserId = this.relayUserId;
+    if (this.isRelay) {
+      const providerId = this.relayProvider(provider, persona);
+      if (!this.canRelayWith(providerId)) {
+        return this.requestViaServer(message, options, persona);
+      }
+      return this.requestAsRelay(message, providerId, options, persona);
+    }
+
+    if (!relayUserId || !this.signalingManager?.isDataChannelOpen(relayUserId)) {
+      console.log('☁️ AI relay unreachable, using server-side proxy');
+      return this.requestViaServer(message, options, persona);
+    }
+
+    let receivedChunk = false;
+    try {
+      return await this.requestViaRelay(message, relayUserId, {
+        signal,
+        onQueuePosition,
+        provider,
+        thread,
+        canvasTools,
+        onChunk: (delta, content) => {
+          receivedChunk = true;
+          onChunk?.(delta, content);
         }
       });
+    } catch (error) {
+      // Only retry when the relay never started answering; a partial stream is not replayed
+      if (signal?.aborted || receivedChunk) {
+        throw error;
+      }
+      if (error instanceof AIRequestError && NON_RETRYABLE_CODES.includes(error.code)) {
+        throw error;
+      }
+      // Follow the role to whoever took over, or to ourselves
+      if (error instanceof AIRequestError && error.code === 'relay_changed' && reroutes < MAX_RELAY_REROUTES) {
+        console.log('🔁 Re-routing AI request to the new relay');
+        return this.routeRequest(message, options, persona, reroutes + 1);
+      }
+      console.warn('⚠️ AI relay failed, retrying through server-side proxy:', error);
+      return this.requestViaServer(message, options, persona);
+    }
+  }
 
-      // Start polling for signals
-      this.signalingManager.startSignalPolling();
+  // For relay: Providers we hold keys or an endpoint for, or the keyless default (mock) when there are none
+  private listLocalProviders(): AIProviderId[] {
+    const keyed = RELAY_PROVIDERS.filter(id => this.canAnswerWith(id));
+    if (keyed.length === 0 && this.providerId) {
+      return [this.providerId];
     }
+    return keyed;
   }
 
-  // For host: Set API key
-  setApiKey(apiKey: string) {
-    if (this.isHost) {
-      this.apiKey = apiKey;
+  // Whether we hold a key, or a configured endpoint, for the provider. Keys live in the room's vault;
+  // the only one this browser holds is the key handed to the service for its selected provider.
+  private canAnswerWith(providerId: AIProviderId): boolean {
+    if (getProviderAdapter(providerId).requiresKey) {
+      return providerId === this.providerId && !!this.apiKey;
     }
+    return isProviderReady(providerId);
+  }
+
+  // For relay: Whether we can answer with the provider, in this browser or with the room's key; null means any
+  private canRelayWith(providerId: AIProviderId | null): boolean {
+    if (!providerId) return this.vaultProviders.length > 0;
+    return this.canAnswerWith(providerId) || this.vaultProviders.includes(providerId);
   }
 
-  // For participants: Send request to host
-  async sendRequest(message: string): Promise<string> {
+  // For relay: Answer our own request through the shared queue
+  private async requestAsRelay(
+    message: string,
+    providerId: AIProviderId | null,
+    options: AIRequestOptions,
+    persona: AIPersonaSettings
+  ): Promise<AICompletionResult> {
+    const { onChunk, signal, onQueuePosition } = options;
+    const requestId = Math.random().toString(36).substring(7);
+    const handleAbort = () => this.cancelQueued(requestId);
+    signal?.addEventListener('abort', handleAbort, { once: true });
+    // Registered even without a callback so our own place in line is never sent over the wire
+    this.localQueueListeners.set(requestId, onQueuePosition ?? (() => {}));
+
+    let content = '';
+    try {
+      await this.ensureWithinBudget(this.userId);
+      return await this.runQueued(requestId, this.userId, (queueSignal) => {
+        this.localQueueListeners.delete(requestId);
+        onQueuePosition?.(0, 0);
+        return this.streamAIAPICall(message, options.thread, !!options.canvasTools, providerId, persona, this.userId, queueSignal, (delta) => {
+          content += delta;
+          onChunk?.(delta, content);
+        });
+      });
+    } finally {
+      this.localQueueListeners.delete(requestId);
+      signal?.removeEventListener('abort', handleAbort);
+    }
+  }
+
+  // For relay: Run a provider call once the queue gives it a slot and the requester still has budget
+  private runQueued<T>(requestId: string, userId: string, task: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queuedRejects.set(requestId, reject);
+      const result = this.queue.enqueue({
+        requestId,
+        userId,
+        run: (signal) => {
+          this.queuedRejects.delete(requestId);
+          // Requests queued together all passed the first check before any of them was billed, so check again
+          return this.ensureWithinBudget(userId)
+            .then(() => task(signal))
+            .then(resolve, (error) => {
+              reject(signal.aborted ? abortError() : error);
+            });
+        }
+      });
+
+      if (!result.accepted) {
+        this.queuedRejects.delete(requestId);
+        reject(new AIRequestError(queueRejectionMessage(result.reason, result.retryAfterMs), result.reason, result.retryAfterMs));
+      }
+    });
+  }
+
+  // For relay: Drop a waiting request or abort a running one
+  private cancelQueued(requestId: string) {
+    this.queue.cancel(requestId);
+    const reject = this.queuedRejects.get(requestId);
+    if (reject) {
+      this.queuedRejects.delete(requestId);
+      reject(abortError());
+    }
+  }
+
+  // For participants: Send a request over the data channel to the relay
+  private async requestViaRelay(message: string, relayUserId: string, options: AIRequestOptions): Promise<AICompletionResult> {
+    const { onChunk, signal, onQueuePosition, provider, thread, canvasTools } = options;
     if (!this.signalingManager) {
       console.error('❌ AI Service not connected: signalingManager is null');
       throw new Error('Not connected to room');
     }
 
-    if (this.isHost) {
-      console.error('❌ Host attempted to use sendRequest');
-      throw new Error('Host should use handleAIRequest directly');
-    }
-
     const requestId = Math.random().toString(36).substring(7);
-    console.log('📤 Sending AI request:', { requestId, toHost: this.hostUserId });
-    
-    // Create a promise that will be resolved when we get the response
-    const responsePromise = new Promise<string>((resolve) => {
-      this.pendingRequests.set(requestId, resolve);
+    console.log('📤 Sending AI request:', { requestId, toRelay: relayUserId });
+
+    // Create a promise that settles when the relay finishes, fails or we cancel
+    const responsePromise = new Promise<AICompletionResult>((resolve, reject) => {
+      this.pendingRequests.set(requestId, { relayUserId, content: '', onChunk, onQueuePosition, resolve, reject, timeout: null });
+      this.resetResponseTimeout(requestId);
     });
 
-    // Send the request to the host
+    const handleAbort = () => {
+      console.log('🛑 Cancelling AI request:', { requestId });
+      this.signalingManager?.sendDataMessage(relayUserId, JSON.stringify({
+        type: 'ai_cancel',
+        requestId
+      }));
+      this.settleRequest(requestId, undefined, abortError());
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
+    // Send the request to the relay
     try {
-      await this.signalingManager.sendDataMessage(this.hostUserId!, JSON.stringify({
+      this.signalingManager.sendDataMessage(relayUserId, JSON.stringify({
         type: 'ai_request',
         message,
         requestId,
-        fromUserId: this.userId
+        provider,
+        thread,
+        canvasTools
       }));
       console.log('✅ AI request sent successfully');
     } catch (error) {
       console.error('❌ Failed to send AI request:', error);
-      this.pendingRequests.delete(requestId);
+      this.settleRequest(requestId, undefined, error instanceof Error ? error : new Error(String(error)));
+    }
+
+    try {
+      return await responsePromise;
+    } finally {
+      signal?.removeEventListener('abort', handleAbort);
+    }
+  }
+
+  // Answer through the ai-completion edge function using the room's stored key; the proxy answers in text only.
+  // The persona's provider is asked for only when the room holds a key for it; otherwise the proxy picks.
+  private async requestViaServer(message: string, options: AIRequestOptions, persona: AIPersonaSettings): Promise<AICompletionResult> {
+    const { onChunk, signal, thread } = options;
+    // The proxy cannot reach a local model; answer from this browser's own endpoint instead
+    if (options.provider === 'local') {
+      if (!this.canAnswerWith('local')) {
+        throw new AIRequestError('No local model endpoint is configured', 'no_provider');
+      }
+      let content = '';
+      return this.streamAIAPICall(message, thread, !!options.canvasTools, 'local', persona, this.userId, signal, (delta) => {
+        content += delta;
+        onChunk?.(delta, content);
+      });
+    }
+    let provider: AIProviderId | undefined = options.provider;
+    if (!provider && persona.provider && (await this.listVaultProviders()).includes(persona.provider)) {
+      provider = persona.provider;
+    }
+    const result = await this.completeViaProxy(message, thread, provider, persona, this.userId, signal);
+    // The proxy does not stream, so the whole answer arrives as one chunk
+    onChunk?.(result.content, result.content);
+    return result;
+  }
+
+  // One answer from the ai-completion edge function, which checks the requester's budget and bills them
+  private async completeViaProxy(
+    message: string,
+    thread: AIThreadContext | undefined,
+    provider: AIProviderId | undefined,
+    persona: AIPersonaSettings,
+    requesterId: string,
+    signal: AbortSignal | undefined
+  ): Promise<AICompletionResult> {
+    // Without an explicit provider the proxy picks the room's key, so budget for the smallest context window
+    const context = await this.buildMessages(message, provider ?? this.providerId ?? 'openai', thread, persona.systemPrompt);
+    let result: AICompletionResult;
+    try {
+      result = await apiService.requestAICompletion({
+        roomId: this.roomId,
+        userId: requesterId,
+        provider,
+        model: provider && provider === persona.provider ? persona.model ?? undefined : undefined,
+        temperature: persona.temperature ?? undefined,
+        maxTokens: persona.maxTokens ?? undefined,
+        messages: context.messages
+      }, signal);
+    } catch (error) {
+      const code = (error as { code?: AIRequestErrorCode }).code;
+      if (error instanceof Error && code) {
+        throw new AIRequestError(error.message, code);
+      }
       throw error;
     }
+    return { ...result, citations: citedSources(result.content, context.citations) };
+  }
 
-    // Wait for response with timeout
-    const timeoutPromise = new Promise<string>((_, reject) => {
-      setTimeout(() => {
-        console.error('⏰ AI request timed out:', { requestId });
-        this.pendingRequests.delete(requestId);
-        reject(new Error('Request timed out'));
-      }, 30000); // 30 second timeout
-    });
+  // Wrap the prompt with recent chat, earlier AI cards, prompt history and matching file passages from the room
+  private buildMessages(
+    message: string,
+    providerId: AIProviderId,
+    thread?: AIThreadContext,
+    instructions?: string,
+    canvasTools?: boolean
+  ): Promise<RoomContext> {
+    return buildRoomContext(this.roomId, this.userId, message, providerId, thread, instructions || undefined, canvasTools);
+  }
+
+  // For participants: Apply a streamed response message to its pending request
+  private handleResponseMessage(data: AIDataMessage) {
+    if (data.type === 'ai_request' || data.type === 'ai_cancel' || data.type === 'ai_providers_request') {
+      return;
+    }
+
+    if (data.type === 'ai_providers') {
+      this.providerListRequests.get(data.requestId)?.(data.providers);
+      return;
+    }
+
+    const pending = this.pendingRequests.get(data.requestId);
+    if (!pending) return;
 
-    return Promise.race([responsePromise, timeoutPromise]);
+    if (data.type === 'ai_queue_position') {
+      pending.onQueuePosition?.(data.position, data.queueLength);
+      this.resetResponseTimeout(data.requestId, data.position > 0 ? QUEUED_IDLE_TIMEOUT : RESPONSE_IDLE_TIMEOUT);
+    } else if (data.type === 'ai_response_chunk') {
+      pending.content += data.delta;
+      pending.onChunk?.(data.delta, pending.content);
+      this.resetResponseTimeout(data.requestId);
+    } else if (data.type === 'ai_response_done') {
+      console.log('📥 Participant received AI response:', { requestId: data.requestId });
+      this.settleRequest(data.requestId, {
+        content: data.content,
+        provider: data.provider,
+        model: data.model,
+        citations: data.citations,
+        canvasActions: data.canvasActions
+      });
+    } else {
+      console.error('❌ AI request failed on relay:', { requestId: data.requestId, error: data.error });
+      this.settleRequest(
+        data.requestId,
+        undefined,
+        data.code === 'cancelled' ? abortError() : new AIRequestError(data.error, data.code, data.retryAfterMs)
+      );
+    }
+  }
+
+  private resetResponseTimeout(requestId: string, timeoutMs = RESPONSE_IDLE_TIMEOUT) {
+    const pending = this.pendingRequests.get(requestId);
+    if (!pending) return;
+
+    if (pending.timeout) {
+      clearTimeout(pending.timeout);
+    }
+    pending.timeout = setTimeout(() => {
+      console.error('⏰ AI request timed out:', { requestId });
+      this.settleRequest(requestId, undefined, new Error('Request timed out'));
+    }, timeoutMs);
+  }
+
+  private settleRequest(requestId: string, result?: AICompletionResult, error?: Error) {
+    const pending = this.pendingRequests.get(requestId);
+    if (!pending) return;
+
+    if (pending.timeout) {
+      clearTimeout(pending.timeout);
+    }
+    this.pendingRequests.delete(requestId);
+
+    if (error || !result) {
+      pending.reject(error ?? new Error('Empty AI response'));
+    } else {
+      pending.resolve(result);
+    }
   }
 
-  // For host: Handle incoming requests
-  private async handleAIRequest(request: AIRequest) {
-    if (!this.isHost || !this.apiKey || !this.signalingManager) {
+  // For relay: Queue incoming requests, then relay the stream chunk by chunk; requesterId is the data channel's peer
+  private async handleAIRequest(request: AIRequestMessage, requesterId: string) {
+    if (!this.signalingManager) {
+      return;
+    }
+
+    const send = (payload: AIDataMessage) => {
+      this.signalingManager?.sendDataMessage(requesterId, JSON.stringify(payload));
+    };
+
+    // The sender has not seen the handoff yet; tell them to look again
+    if (!this.isRelay) {
+      send({
+        type: 'ai_response_error',
+        requestId: request.requestId,
+        fromUserId: requesterId,
+        error: 'This participant is no longer the AI relay',
+        code: 'relay_changed'
+      });
+      return;
+    }
+
+    // Let the participant fall back to the server-side proxy right away
+    const persona = await this.loadPersona();
+    const providerId = this.relayProvider(request.provider, persona);
+    if (!this.canRelayWith(providerId)) {
+      send({
+        type: 'ai_response_error',
+        requestId: request.requestId,
+        fromUserId: requesterId,
+        error: request.provider ? `Relay has no ${request.provider} key` : 'Relay has no AI provider configured',
+        code: 'no_provider'
+      });
       return;
     }
 
+    let index = 0;
+
     try {
-      // Make the actual API call using the host's API key
-      const response = await this.makeAIAPICall(request.message);
-      
-      // Broadcast the response back to the requesting user
-      this.signalingManager.sendDataMessage(request.fromUserId, JSON.stringify({
-        type: 'ai_response',
-        content: response,
+      await this.ensureWithinBudget(requesterId);
+      // Make the actual API call using our API key once a slot is free
+      const result = await this.runQueued(request.requestId, requesterId, (signal) => {
+        send({
+          type: 'ai_queue_position',
+          requestId: request.requestId,
+          fromUserId: requesterId,
+          position: 0,
+          queueLength: 0
+        });
+        return this.streamAIAPICall(request.message, request.thread, !!request.canvasTools, providerId, persona, requesterId, signal, (delta) => {
+          send({
+            type: 'ai_response_chunk',
+            requestId: request.requestId,
+            fromUserId: requesterId,
+            index: index++,
+            delta
+          });
+        });
+      });
+
+      send({
+        type: 'ai_response_done',
         requestId: request.requestId,
-        fromUserId: request.fromUserId
-      }));
+        fromUserId: requesterId,
+        content: result.content,
+        provider: result.provider,
+        model: result.model,
+        citations: result.citations,
+        canvasActions: result.canvasActions
+      });
     } catch (error) {
-      console.error('Failed to handle AI request:', error);
-      // Broadcast error response
-      this.signalingManager.sendDataMessage(request.fromUserId, JSON.stringify({
-        type: 'ai_response',
-        content: 'Sorry, there was an error processing your request.',
+      if (error instanceof AIRequestError) {
+        send({
+          type: 'ai_response_error',
+          requestId: request.requestId,
+          fromUserId: requesterId,
+          error: error.message,
+          code: error.code,
+          retryAfterMs: error.retryAfterMs
+        });
+        return;
+      }
+
+      const cancelled = error instanceof DOMException && error.name === 'AbortError';
+      if (!cancelled) {
+        console.error('Failed to handle AI request:', error);
+      }
+      send({
+        type: 'ai_response_error',
         requestId: request.requestId,
-        fromUserId: request.fromUserId
-      }));
+        fromUserId: requesterId,
+        error: cancelled ? 'Request cancelled' : 'Sorry, there was an error processing your request.',
+        code: cancelled ? 'cancelled' : 'provider_error'
+      });
+    }
+  }
+
+  // For relay: Refuse requests from participants who have spent their share of the room budget
+  private async ensureWithinBudget(userId: string) {
+    let refusal: string | null = null;
+    try {
+      refusal = await AIUsageService.checkBudget(this.roomId, userId);
+    } catch (error) {
+      // An unreadable budget should not take the AI offline for everyone
+      console.error('Failed to check AI budget:', error);
+    }
+    if (refusal) {
+      throw new AIRequestError(refusal, 'budget_exceeded');
     }
   }
 
-  // For host: Make actual API call
-  private async makeAIAPICall(message: string): Promise<string> {
-    if (!this.apiKey) {
+  // For relay: Make actual API call with the room persona applied, streaming deltas as they arrive, and bill it to the requester.
+  // Board changes the model asks for are made here, on the relay's canvas, noted under the answer and returned
+  // so the requester can take them back.
+  // Room keys never reach this browser, so those requests go through the proxy, in text only.
+  private async streamAIAPICall(
+    message: string,
+    thread: AIThreadContext | undefined,
+    canvasTools: boolean,
+    providerId: AIProviderId | null,
+    persona: AIPersonaSettings,
+    requesterId: string,
+    signal: AbortSignal | undefined,
+    onDelta: (delta: string) => void
+  ): Promise<AICompletionResult> {
+    if (!providerId || !this.canAnswerWith(providerId)) {
+      const proxied = await this.completeViaProxy(message, thread, providerId ?? undefined, persona, requesterId, signal);
+      onDelta(proxied.content);
+      return proxied;
+    }
+
+    const adapter = getProviderAdapter(providerId);
+    const apiKey = providerId === this.providerId ? this.apiKey : null;
+    if (adapter.requiresKey && !apiKey) {
       throw new Error('No API key available');
     }
 
-    // TODO: Implement actual API call to OpenAI/other providers
-    // This is where you'd use the host's API key to make the request
-    // For now, returning a mock response
-    return `Mock response to: ${message}`;
+    const offerTools = canvasTools && !!this.canvasToolHandler;
+    const context = await this.buildMessages(message, providerId, thread, persona.systemPrompt, offerTools);
+    const result = await adapter.stream(apiKey, {
+      messages: context.messages,
+      model: providerId === persona.provider ? persona.model ?? undefined : undefined,
+      temperature: persona.temperature ?? undefined,
+      maxTokens: persona.maxTokens ?? undefined,
+      tools: offerTools ? AI_CANVAS_TOOLS : undefined,
+      signal
+    }, onDelta);
+
+    AIUsageService.recordUsage(this.roomId, requesterId, result, 'host').catch(error => {
+      console.error('Failed to record AI usage:', error);
+    });
+
+    let content = result.content;
+    let canvasActions: AICanvasAction[] | undefined;
+    const canvasCalls = (result.toolCalls ?? []).filter(isCanvasToolCall);
+    if (canvasCalls.length > 0 && this.canvasToolHandler && !signal?.aborted) {
+      const run = this.canvasToolHandler(canvasCalls, requesterId);
+      content = appendCanvasActionSummary(content, run.outcomes);
+      canvasActions = run.applied;
+    }
+    return {
+      ...result,
+      content,
+      toolCalls: undefined,
+      canvasActions,
+      citations: citedSources(result.content, context.citations)
+    };
   }
 
   cleanup() {
-    this.signalingManager?.cleanup();
-    this.signalingManager = null;
-    this.pendingRequests.clear();
+    this.queue.clear();
+    this.queuedRejects.forEach(reject => reject(new Error('AI service closed')));
+    this.queuedRejects.clear();
+    this.localQueueListeners.clear();
+    this.providerListRequests.forEach(resolve => resolve([]));
+    this.providerListRequests.clear();
+    this.pendingRequests.forEach((_, requestId) => {
+      this.settleRequest(requestId, undefined, new Error('AI service closed'));
+    });
+    this.election?.cleanup();
+    this.election = null;
+    this.removeDataMessageHandler?.();
+    this.removeDataMessageHandler = null;
+    if (this.signalingManager) {
+      releaseSignalingManager(this.roomId, this.userId);
+      this.signalingManager = null;
+    }
   }
-} 
\ No newline at end of file
+}
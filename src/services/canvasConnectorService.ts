@@ -0,0 +1,158 @@
+import { supabase } from '../lib/supabase';
+import type {
+  CanvasConnector,
+  CanvasConnectorUpdate,
+  ConnectorAnchor,
+  ConnectorArrowhead,
+  ConnectorRouting
+} from '../types/room';
+
+interface CanvasConnectorRow {
+  id: string;
+  room_id: string;
+  from_card_id: string;
+  to_card_id: string;
+  from_anchor: ConnectorAnchor;
+  to_anchor: ConnectorAnchor;
+  routing: ConnectorRouting;
+  start_arrow: ConnectorArrowhead;
+  end_arrow: ConnectorArrowhead;
+  label: string | null;
+  created_by: string;
+}
+
+export interface CanvasConnectorChangeHandlers {
+  onUpsert: (connector: CanvasConnector) => void;
+  onDelete: (id: string) => void;
+}
+
+// Look of a newly drawn connector, and of rows saved before connectors could be styled
+export const CONNECTOR_DEFAULTS: Required<Omit<CanvasConnectorUpdate, 'label'>> = {
+  fromAnchor: 'auto',
+  toAnchor: 'auto',
+  routing: 'straight',
+  startArrow: 'none',
+  endArrow: 'arrow'
+};
+
+// Editing a label fires on every keystroke; row updates are batched per connector
+const UPDATE_FLUSH_DELAY = 300; // ms
+
+const fromRow = (row: CanvasConnectorRow): CanvasConnector => ({
+  id: row.id,
+  fromCardId: row.from_card_id,
+  toCardId: row.to_card_id,
+  fromAnchor: row.from_anchor ?? CONNECTOR_DEFAULTS.fromAnchor,
+  toAnchor: row.to_anchor ?? CONNECTOR_DEFAULTS.toAnchor,
+  routing: row.routing ?? CONNECTOR_DEFAULTS.routing,
+  startArrow: row.start_arrow ?? CONNECTOR_DEFAULTS.startArrow,
+  endArrow: row.end_arrow ?? CONNECTOR_DEFAULTS.endArrow,
+  label: row.label ?? undefined,
+  createdBy: row.created_by
+});
+
+const toRow = (update: CanvasConnectorUpdate): Partial<CanvasConnectorRow> => {
+  const row: Partial<CanvasConnectorRow> = {};
+  if (update.fromAnchor !== undefined) row.from_anchor = update.fromAnchor;
+  if (update.toAnchor !== undefined) row.to_anchor = update.toAnchor;
+  if (update.routing !== undefined) row.routing = update.routing;
+  if (update.startArrow !== undefined) row.start_arrow = update.startArrow;
+  if (update.endArrow !== undefined) row.end_arrow = update.endArrow;
+  // An explicit undefined label clears it
+  if ('label' in update) row.label = update.label || null;
+  return row;
+};
+
+export class CanvasConnectorService {
+  private static pendingUpdates = new Map<string, CanvasConnectorUpdate>();
+  private static flushTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  static async getRoomConnectors(roomId: string): Promise<CanvasConnector[]> {
+    const { data, error } = await supabase
+      .from('canvas_connectors')
+      .select('*')
+      .eq('room_id', roomId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data as CanvasConnectorRow[]).map(fromRow);
+  }
+
+  static async createConnector(roomId: string, connector: CanvasConnector): Promise<void> {
+    const { error } = await supabase
+      .from('canvas_connectors')
+      .insert({
+        ...toRow(connector),
+        id: connector.id,
+        room_id: roomId,
+        from_card_id: connector.fromCardId,
+        to_card_id: connector.toCardId,
+        label: connector.label ?? null,
+        created_by: connector.createdBy
+      });
+
+    if (error) throw error;
+  }
+
+  static async updateConnector(id: string, update: CanvasConnectorUpdate): Promise<void> {
+    const { error } = await supabase
+      .from('canvas_connectors')
+      .update(toRow(update))
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Merge rapid edits to one connector (typing its label) into a single row update
+  static queueUpdate(id: string, update: CanvasConnectorUpdate) {
+    this.pendingUpdates.set(id, { ...this.pendingUpdates.get(id), ...update });
+
+    if (this.flushTimers.has(id)) return;
+    this.flushTimers.set(id, setTimeout(() => {
+      const merged = this.pendingUpdates.get(id);
+      this.pendingUpdates.delete(id);
+      this.flushTimers.delete(id);
+      if (merged) {
+        this.updateConnector(id, merged).catch(error => {
+          console.error('Failed to sync canvas connector:', error);
+        });
+      }
+    }, UPDATE_FLUSH_DELAY));
+  }
+
+  static async deleteConnector(id: string): Promise<void> {
+    const timer = this.flushTimers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.flushTimers.delete(id);
+    }
+    this.pendingUpdates.delete(id);
+
+    const { error } = await supabase
+      .from('canvas_connectors')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Real-time subscription for connectors in a room
+  static subscribeToRoomConnectors(roomId: string, handlers: CanvasConnectorChangeHandlers) {
+    return supabase
+      .channel(`canvas_connectors_${roomId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'canvas_connectors',
+        filter: `room_id=eq.${roomId}`
+      }, (payload) => {
+        if (payload.eventType === 'DELETE') {
+          const oldRow = payload.old as Partial<CanvasConnectorRow>;
+          if (oldRow.id) handlers.onDelete(oldRow.id);
+        } else {
+          handlers.onUpsert(fromRow(payload.new as CanvasConnectorRow));
+        }
+      })
+      .subscribe();
+  }
+}
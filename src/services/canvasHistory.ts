@@ -0,0 +1,82 @@
+// One change to the board that can be taken back and made again
+export interface CanvasHistoryEntry {
+  id: string;
+  // Shown next to the undo button, e.g. 'AI created a note'
+  label: string;
+  // Participant the change was made for; AI actions belong to whoever asked
+  userId: string;
+  source: 'user' | 'ai';
+  // Each returns false when someone else has since changed what the entry touched, so it is dropped instead of overwriting their work
+  undo: () => boolean | void;
+  redo: () => boolean | void;
+  createdAt: number;
+}
+
+// Oldest entries are dropped past this many
+const MAX_HISTORY_ENTRIES = 100;
+
+const latestFor = (entries: CanvasHistoryEntry[], userId: string) =>
+  [...entries].reverse().find(entry => entry.userId === userId);
+
+// Undo and redo stacks for canvas changes made in this browser, taken per user. AI changes are recorded by
+// whoever asked for them, not by the relay that made them.
+export class CanvasHistory {
+  private entries: CanvasHistoryEntry[] = [];
+  private undone: CanvasHistoryEntry[] = [];
+  private onChange: (() => void) | null = null;
+
+  // Called whenever what can be undone or redone changes
+  setChangeHandler(handler: (() => void) | null) {
+    this.onChange = handler;
+  }
+
+  canUndo(userId: string) {
+    return !!latestFor(this.entries, userId);
+  }
+
+  canRedo(userId: string) {
+    return !!latestFor(this.undone, userId);
+  }
+
+  // A new change makes what its user undid before it impossible to redo
+  push(entry: Omit<CanvasHistoryEntry, 'id' | 'createdAt'>): CanvasHistoryEntry {
+    const added = { ...entry, id: crypto.randomUUID(), createdAt: Date.now() };
+    this.entries = [...this.entries, added].slice(-MAX_HISTORY_ENTRIES);
+    this.undone = this.undone.filter(candidate => candidate.userId !== entry.userId);
+    this.onChange?.();
+    return added;
+  }
+
+  // Undo a user's latest change that still applies; null if there is none
+  undo(userId: string): CanvasHistoryEntry | null {
+    for (let entry = latestFor(this.entries, userId); entry; entry = latestFor(this.entries, userId)) {
+      if (this.undoEntry(entry.id)) return entry;
+    }
+    return null;
+  }
+
+  // Undo one particular entry; null if it is gone or no longer applies
+  undoEntry(id: string): CanvasHistoryEntry | null {
+    const entry = this.entries.find(candidate => candidate.id === id);
+    if (!entry) return null;
+
+    this.entries = this.entries.filter(candidate => candidate.id !== id);
+    const applied = entry.undo() !== false;
+    if (applied) this.undone = [...this.undone, entry];
+    this.onChange?.();
+    return applied ? entry : null;
+  }
+
+  // Make a user's most recently undone change again; null if there is nothing left to redo
+  redo(userId: string): CanvasHistoryEntry | null {
+    for (let entry = latestFor(this.undone, userId); entry; entry = latestFor(this.undone, userId)) {
+      const current = entry;
+      this.undone = this.undone.filter(candidate => candidate.id !== current.id);
+      const applied = current.redo() !== false;
+      if (applied) this.entries = [...this.entries, current].slice(-MAX_HISTORY_ENTRIES);
+      this.onChange?.();
+      if (applied) return current;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,233 @@
+import { supabase } from '../lib/supabase';
+import type {
+  CanvasObject,
+  CanvasObjectStyle,
+  CanvasObjectType,
+  CanvasObjectUpdate,
+  CanvasShapeKind,
+  InkTool,
+  StrokePoint
+} from '../types/canvas';
+import type { CanvasObjectState } from '../lib/canvasCrdt';
+
+interface CanvasObjectRow {
+  id: string;
+  room_id: string;
+  type: CanvasObjectType;
+  content: string;
+  props: { shape?: CanvasShapeKind; src?: string; tool?: InkTool; points?: StrokePoint[] };
+  style: CanvasObjectStyle;
+  position_x: number;
+  position_y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  z_index: number;
+  owner_id: string;
+  group_id: string | null;
+  crdt_state: CanvasObjectState | null;
+  updated_at: string;
+}
+
+// A row as read back: the plain object, and the mergeable state it was written from
+export interface StoredCanvasObject {
+  object: CanvasObject;
+  state: CanvasObjectState | null;
+}
+
+export interface CanvasObjectChangeHandlers {
+  onUpsert: (stored: StoredCanvasObject) => void;
+  onDelete: (id: string) => void;
+}
+
+// Drag, resize and typing fire constantly; row writes are batched per object
+const UPDATE_FLUSH_DELAY = 150; // ms
+
+// Size and look of a newly placed object of each type
+export const CANVAS_OBJECT_DEFAULTS: Record<CanvasObjectType, { size: { width: number; height: number }; style: CanvasObjectStyle }> = {
+  sticky_note: { size: { width: 200, height: 200 }, style: { fill: '#fef08a', textColor: '#1f2937', fontSize: 16 } },
+  text: { size: { width: 240, height: 48 }, style: { textColor: '#111827', fontSize: 20 } },
+  shape: { size: { width: 160, height: 120 }, style: { fill: '#dbeafe', stroke: '#3b82f6', strokeWidth: 2, textColor: '#1e3a8a', fontSize: 14 } },
+  image: { size: { width: 320, height: 240 }, style: {} },
+  frame: { size: { width: 640, height: 420 }, style: { stroke: '#9ca3af', strokeWidth: 2, textColor: '#4b5563', fontSize: 14 } },
+  // Strokes are sized to what was drawn; the style here is the pen's
+  stroke: { size: { width: 0, height: 0 }, style: { stroke: '#111827', strokeWidth: 4 } }
+};
+
+// Line width and see-through-ness of each ink tool; the colour is picked while drawing
+export const INK_TOOL_STYLES: Record<InkTool, CanvasObjectStyle> = {
+  pen: { strokeWidth: 4 },
+  highlighter: { strokeWidth: 20, opacity: 0.4 }
+};
+
+// Colours each ink tool offers; the first is where it starts
+export const INK_COLORS: Record<InkTool, string[]> = {
+  pen: ['#111827', '#dc2626', '#2563eb', '#16a34a', '#9333ea'],
+  highlighter: ['#fde047', '#86efac', '#f9a8d4', '#93c5fd']
+};
+
+const fromRow = (row: CanvasObjectRow): CanvasObject => {
+  const base = {
+    id: row.id,
+    position: { x: row.position_x, y: row.position_y },
+    size: { width: row.width, height: row.height },
+    rotation: row.rotation,
+    zIndex: row.z_index,
+    style: row.style ?? {},
+    ownerId: row.owner_id,
+    groupId: row.group_id ?? undefined,
+    updatedAt: row.updated_at
+  };
+
+  switch (row.type) {
+    case 'sticky_note':
+    case 'text':
+      return { ...base, type: row.type, text: row.content };
+    case 'shape':
+      return { ...base, type: 'shape', shape: row.props?.shape ?? 'rectangle', text: row.content };
+    case 'image':
+      return { ...base, type: 'image', src: row.props?.src ?? '', alt: row.content };
+    case 'frame':
+      return { ...base, type: 'frame', title: row.content };
+    case 'stroke':
+      return { ...base, type: 'stroke', tool: row.props?.tool ?? 'pen', points: row.props?.points ?? [] };
+  }
+};
+
+// The text each type keeps in the content column
+const contentOf = (update: CanvasObjectUpdate): string | undefined =>
+  update.text ?? update.title ?? update.alt;
+
+const toRow = (update: CanvasObjectUpdate): Partial<CanvasObjectRow> => {
+  const row: Partial<CanvasObjectRow> = {};
+  const content = contentOf(update);
+  if (content !== undefined) row.content = content;
+  // Rows are written whole, so each type's props replace the column together
+  if (update.shape !== undefined) row.props = { shape: update.shape };
+  if (update.src !== undefined) row.props = { src: update.src };
+  if (update.points !== undefined) row.props = { tool: update.tool, points: update.points };
+  if (update.style !== undefined) row.style = update.style;
+  if (update.position) {
+    row.position_x = update.position.x;
+    row.position_y = update.position.y;
+  }
+  if (update.size) {
+    row.width = update.size.width;
+    row.height = update.size.height;
+  }
+  if (update.rotation !== undefined) row.rotation = update.rotation;
+  if (update.zIndex !== undefined) row.z_index = update.zIndex;
+  if (update.groupId !== undefined) row.group_id = update.groupId;
+  return row;
+};
+
+// Every field of an object in update form, for writing its whole row
+const fullUpdate = (object: CanvasObject): CanvasObjectUpdate => {
+  const common = {
+    position: object.position,
+    size: object.size,
+    rotation: object.rotation,
+    zIndex: object.zIndex,
+    style: object.style,
+    groupId: object.groupId ?? null
+  };
+  switch (object.type) {
+    case 'sticky_note':
+    case 'text':
+      return { ...common, text: object.text };
+    case 'shape':
+      return { ...common, shape: object.shape, text: object.text };
+    case 'image':
+      return { ...common, src: object.src, alt: object.alt };
+    case 'frame':
+      return { ...common, title: object.title };
+    case 'stroke':
+      return { ...common, tool: object.tool, points: object.points };
+  }
+};
+
+const storedFromRow = (row: CanvasObjectRow): StoredCanvasObject => ({
+  object: fromRow(row),
+  state: row.crdt_state
+});
+
+export class CanvasObjectService {
+  private static pendingSaves = new Map<string, StoredCanvasObject>();
+  private static flushTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  // Loaded bottom to top, so later objects render above earlier ones
+  static async getRoomObjects(roomId: string): Promise<StoredCanvasObject[]> {
+    const { data, error } = await supabase
+      .from('canvas_objects')
+      .select('*')
+      .eq('room_id', roomId)
+      .order('z_index', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data as CanvasObjectRow[]).map(storedFromRow);
+  }
+
+  static async createObject(roomId: string, { object, state }: StoredCanvasObject): Promise<void> {
+    const { error } = await supabase
+      .from('canvas_objects')
+      .insert({
+        ...toRow(fullUpdate(object)),
+        id: object.id,
+        room_id: roomId,
+        type: object.type,
+        owner_id: object.ownerId,
+        crdt_state: state
+      });
+
+    if (error) throw error;
+  }
+
+  // Overwrites the row with an already merged state; a row removed with its room is not brought back
+  static async saveObject({ object, state }: StoredCanvasObject): Promise<void> {
+    const { error } = await supabase
+      .from('canvas_objects')
+      .update({ ...toRow(fullUpdate(object)), crdt_state: state })
+      .eq('id', object.id);
+
+    if (error) throw error;
+  }
+
+  // Write an object's latest merged state once its edits settle; each save supersedes the last
+  static queueSave(stored: StoredCanvasObject) {
+    const id = stored.object.id;
+    this.pendingSaves.set(id, stored);
+
+    if (this.flushTimers.has(id)) return;
+    this.flushTimers.set(id, setTimeout(() => {
+      const latest = this.pendingSaves.get(id);
+      this.pendingSaves.delete(id);
+      this.flushTimers.delete(id);
+      if (latest) {
+        this.saveObject(latest).catch(error => {
+          console.error('Failed to sync canvas object:', error);
+        });
+      }
+    }, UPDATE_FLUSH_DELAY));
+  }
+
+  // Real-time subscription for whiteboard objects in a room
+  static subscribeToRoomObjects(roomId: string, handlers: CanvasObjectChangeHandlers) {
+    return supabase
+      .channel(`canvas_objects_${roomId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'canvas_objects',
+        filter: `room_id=eq.${roomId}`
+      }, (payload) => {
+        if (payload.eventType === 'DELETE') {
+          const oldRow = payload.old as Partial<CanvasObjectRow>;
+          if (oldRow.id) handlers.onDelete(oldRow.id);
+        } else {
+          handlers.onUpsert(storedFromRow(payload.new as CanvasObjectRow));
+        }
+      })
+      .subscribe();
+  }
+}
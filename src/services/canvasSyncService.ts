@@ -0,0 +1,319 @@
+import { acquireSignalingManager, releaseSignalingManager, type WebRTCSignalingManager } from '../lib/realtimeWebRTC';
+import { CanvasCrdtDocument, type CanvasOp } from '../lib/canvasCrdt';
+import { CanvasObjectService, type StoredCanvasObject } from './canvasObjectService';
+import type { CanvasObject, CanvasObjectUpdate, LiveStroke, RemoteSelection, StrokePoint } from '../types/canvas';
+
+// Sent to every peer with an open data channel after each local edit
+interface CanvasOpsMessage {
+  type: 'canvas_ops';
+  fromUserId: string;
+  ops: CanvasOp[];
+}
+
+// Points added to a stroke being drawn since the last message; `from` is the index of the first one
+interface CanvasStrokeMessage {
+  type: 'canvas_stroke';
+  fromUserId: string;
+  stroke: Omit<LiveStroke, 'userId' | 'points'>;
+  from: number;
+  points: StrokePoint[];
+  done?: boolean;
+}
+
+// Everything the sender has selected; an empty list clears their selection
+interface CanvasSelectionMessage {
+  type: 'canvas_selection';
+  fromUserId: string;
+  ids: string[];
+}
+
+type CanvasSyncMessage = CanvasOpsMessage | CanvasStrokeMessage | CanvasSelectionMessage;
+
+export type CanvasObjectsChangeHandler = (objects: CanvasObject[]) => void;
+export type LiveStrokesChangeHandler = (strokes: LiveStroke[]) => void;
+export type RemoteSelectionsChangeHandler = (selections: RemoteSelection[]) => void;
+
+// A peer's stroke that stops getting points this long is dropped, e.g. when they left mid-line
+const LIVE_STROKE_TIMEOUT = 5000; // ms
+
+// A selection is re-sent this often, so people who join later see it too; one not heard of for
+// two rounds is dropped, e.g. when its owner left
+const SELECTION_REFRESH_INTERVAL = 5000; // ms
+const SELECTION_TIMEOUT = SELECTION_REFRESH_INTERVAL * 2;
+
+/**
+ * Keeps a room's whiteboard objects in one CRDT document per participant. Edits travel to peers
+ * as ops over WebRTC data channels and are written to the row as merged state, which reaches
+ * peers without a channel (and anyone who joins later) through Supabase realtime.
+ */
+export class CanvasSyncService {
+  private roomId: string;
+  private userId: string;
+  private doc: CanvasCrdtDocument;
+  private signalingManager: WebRTCSignalingManager | null = null;
+  private removeDataMessageHandler: (() => void) | null = null;
+  private channel: ReturnType<typeof CanvasObjectService.subscribeToRoomObjects> | null = null;
+  private onChange: CanvasObjectsChangeHandler;
+  private onLiveStrokesChange: LiveStrokesChangeHandler | null = null;
+  // Other participants' strokes in progress, with when each last grew
+  private liveStrokes = new Map<string, { stroke: LiveStroke; updatedAt: number }>();
+  // How many points of each of our own strokes peers already have
+  private sentStrokePoints = new Map<string, number>();
+  private liveStrokeTimer: ReturnType<typeof setInterval> | null = null;
+  private onRemoteSelectionsChange: RemoteSelectionsChangeHandler | null = null;
+  // Other participants' selections, with when each was last heard of
+  private remoteSelections = new Map<string, { ids: string[]; updatedAt: number }>();
+  private selectedIds: string[] = [];
+  private selectionTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(roomId: string, userId: string, onChange: CanvasObjectsChangeHandler) {
+    this.roomId = roomId;
+    this.userId = userId;
+    this.onChange = onChange;
+    // One replica per tab, so the same participant in two tabs still gets distinct stamps
+    this.doc = new CanvasCrdtDocument(`${userId}:${crypto.randomUUID().slice(0, 8)}`);
+
+    // The room's shared manager: ops ride the data channels the AI service already uses
+    this.signalingManager = acquireSignalingManager(roomId, userId);
+    this.removeDataMessageHandler = this.signalingManager.addDataMessageHandler((fromUserId, message) => {
+      try {
+        const data = JSON.parse(message) as CanvasSyncMessage;
+        if (data.type === 'canvas_ops') {
+          this.applyRemoteOps(data.ops);
+        } else if (data.type === 'canvas_stroke') {
+          this.applyRemoteStroke(fromUserId, data);
+        } else if (data.type === 'canvas_selection') {
+          this.applyRemoteSelection(fromUserId, data.ids);
+        }
+      } catch (error) {
+        console.error('Failed to parse canvas message:', error);
+      }
+    });
+
+    this.channel = CanvasObjectService.subscribeToRoomObjects(roomId, {
+      onUpsert: (stored) => this.mergeStored(stored),
+      onDelete: (id) => this.emitIfChanged(this.doc.forgetObject(id))
+    });
+    this.load();
+    this.liveStrokeTimer = setInterval(() => this.dropStaleStrokes(), LIVE_STROKE_TIMEOUT);
+    this.selectionTimer = setInterval(() => this.refreshSelections(), SELECTION_REFRESH_INTERVAL);
+  }
+
+  setLiveStrokeHandler(handler: LiveStrokesChangeHandler | null) {
+    this.onLiveStrokesChange = handler;
+  }
+
+  setRemoteSelectionHandler(handler: RemoteSelectionsChangeHandler | null) {
+    this.onRemoteSelectionsChange = handler;
+  }
+
+  private async load() {
+    try {
+      const stored = await CanvasObjectService.getRoomObjects(this.roomId);
+      stored.forEach(entry => this.mergeStored(entry));
+    } catch (error) {
+      console.error('Failed to load canvas objects:', error);
+    }
+  }
+
+  createObject(object: CanvasObject) {
+    this.broadcast(this.doc.createObject(object));
+    this.emit();
+    const stored = this.stored(object.id);
+    if (stored) {
+      CanvasObjectService.createObject(this.roomId, stored).catch(error => {
+        console.error('Failed to save canvas object:', error);
+      });
+    }
+  }
+
+  updateObject(id: string, update: CanvasObjectUpdate) {
+    this.broadcast(this.doc.updateObject(id, update));
+    this.emit();
+    this.persist(id);
+  }
+
+  // Deleted objects keep their row, marked deleted in its state, so the delete can be undone
+  deleteObject(id: string) {
+    this.broadcast(this.doc.deleteObject(id));
+    this.emit();
+    this.persist(id);
+  }
+
+  restoreObject(id: string) {
+    this.broadcast(this.doc.restoreObject(id));
+    this.emit();
+    this.persist(id);
+  }
+
+  getObject(id: string): CanvasObject | null {
+    return this.doc.getObject(id);
+  }
+
+  // Send peers the points added to one of our strokes since the last call
+  streamStroke(stroke: LiveStroke) {
+    const from = this.sentStrokePoints.get(stroke.id) ?? 0;
+    if (stroke.points.length <= from) return;
+    this.sentStrokePoints.set(stroke.id, stroke.points.length);
+    this.send({
+      type: 'canvas_stroke',
+      fromUserId: this.userId,
+      stroke: { id: stroke.id, tool: stroke.tool, style: stroke.style },
+      from,
+      points: stroke.points.slice(from)
+    });
+  }
+
+  // The stroke is finished, or abandoned; a finished one arrives as an object, so send this after creating it
+  endStroke(stroke: LiveStroke) {
+    this.sentStrokePoints.delete(stroke.id);
+    this.send({
+      type: 'canvas_stroke',
+      fromUserId: this.userId,
+      stroke: { id: stroke.id, tool: stroke.tool, style: stroke.style },
+      from: stroke.points.length,
+      points: [],
+      done: true
+    });
+  }
+
+  // Show peers what we have selected
+  shareSelection(ids: string[]) {
+    if (ids.length === 0 && this.selectedIds.length === 0) return;
+    this.selectedIds = ids;
+    this.send({ type: 'canvas_selection', fromUserId: this.userId, ids });
+  }
+
+  private stored(id: string): StoredCanvasObject | null {
+    const object = this.doc.getSnapshot(id);
+    const state = this.doc.exportState(id);
+    return object && state ? { object, state } : null;
+  }
+
+  private persist(id: string) {
+    const stored = this.stored(id);
+    if (stored) CanvasObjectService.queueSave(stored);
+  }
+
+  private applyRemoteOps(ops: CanvasOp[]) {
+    this.emitIfChanged(this.doc.applyOps(ops));
+  }
+
+  // A row from the database: merge its state, and write ours back if the row is missing edits we hold
+  private mergeStored({ object, state }: StoredCanvasObject) {
+    if (!state) {
+      this.emitIfChanged(this.doc.seedObject(object));
+      return;
+    }
+    this.emitIfChanged(this.doc.mergeState(state));
+    if (this.doc.isAheadOf(state)) {
+      this.persist(object.id);
+    }
+  }
+
+  // Points that do not follow on from what we hold mean a message was missed; the stroke waits for its object instead
+  private applyRemoteStroke(fromUserId: string, message: CanvasStrokeMessage) {
+    const { stroke, from, points, done } = message;
+    if (done) {
+      if (this.liveStrokes.delete(stroke.id)) this.emitLiveStrokes();
+      return;
+    }
+
+    const existing = this.liveStrokes.get(stroke.id)?.stroke.points ?? [];
+    if (from > existing.length) return;
+    this.liveStrokes.set(stroke.id, {
+      stroke: { ...stroke, userId: fromUserId, points: [...existing.slice(0, from), ...points] },
+      updatedAt: Date.now()
+    });
+    this.emitLiveStrokes();
+  }
+
+  private dropStaleStrokes() {
+    const cutoff = Date.now() - LIVE_STROKE_TIMEOUT;
+    let dropped = false;
+    this.liveStrokes.forEach(({ updatedAt }, id) => {
+      if (updatedAt < cutoff) {
+        this.liveStrokes.delete(id);
+        dropped = true;
+      }
+    });
+    if (dropped) this.emitLiveStrokes();
+  }
+
+  private applyRemoteSelection(fromUserId: string, ids: string[]) {
+    if (ids.length > 0) {
+      this.remoteSelections.set(fromUserId, { ids, updatedAt: Date.now() });
+    } else if (!this.remoteSelections.delete(fromUserId)) {
+      return;
+    }
+    this.emitRemoteSelections();
+  }
+
+  // Re-send our selection, and drop peers' selections that have not been re-sent
+  private refreshSelections() {
+    if (this.selectedIds.length > 0) {
+      this.send({ type: 'canvas_selection', fromUserId: this.userId, ids: this.selectedIds });
+    }
+    const cutoff = Date.now() - SELECTION_TIMEOUT;
+    let dropped = false;
+    this.remoteSelections.forEach(({ updatedAt }, userId) => {
+      if (updatedAt < cutoff) {
+        this.remoteSelections.delete(userId);
+        dropped = true;
+      }
+    });
+    if (dropped) this.emitRemoteSelections();
+  }
+
+  private emitRemoteSelections() {
+    this.onRemoteSelectionsChange?.(
+      [...this.remoteSelections.entries()].map(([userId, { ids }]) => ({ userId, ids }))
+    );
+  }
+
+  private emitLiveStrokes() {
+    this.onLiveStrokesChange?.([...this.liveStrokes.values()].map(entry => entry.stroke));
+  }
+
+  private broadcast(ops: CanvasOp[]) {
+    if (ops.length === 0) return;
+    this.send({ type: 'canvas_ops', fromUserId: this.userId, ops });
+  }
+
+  private send(data: CanvasSyncMessage) {
+    if (!this.signalingManager) return;
+    const message = JSON.stringify(data);
+    this.signalingManager.getConnectedPeers().forEach(peerId => {
+      if (this.signalingManager?.isDataChannelOpen(peerId)) {
+        this.signalingManager.sendDataMessage(peerId, message);
+      }
+    });
+  }
+
+  private emitIfChanged(changedIds: string[]) {
+    if (changedIds.length > 0) this.emit();
+  }
+
+  private emit() {
+    this.onChange(this.doc.getObjects());
+  }
+
+  cleanup() {
+    if (this.liveStrokeTimer) {
+      clearInterval(this.liveStrokeTimer);
+      this.liveStrokeTimer = null;
+    }
+    if (this.selectionTimer) {
+      clearInterval(this.selectionTimer);
+      this.selectionTimer = null;
+    }
+    this.channel?.unsubscribe();
+    this.channel = null;
+    this.removeDataMessageHandler?.();
+    this.removeDataMessageHandler = null;
+    if (this.signalingManager) {
+      releaseSignalingManager(this.roomId, this.userId);
+      this.signalingManager = null;
+    }
+  }
+}
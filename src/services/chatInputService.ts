@@ -1,57 +1,81 @@
-import { WebRTCSignalingManager } from '../lib/realtimeWebRTC';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
 
-interface ChatInputState {
+// One raised hand; the earliest in a room holds the input
+export interface ChatTurn {
   userId: string;
   isTyping: boolean;
+  raisedAt: string;
   lastActivity: number;
 }
 
+interface ChatInputStateRow {
+  user_id: string;
+  is_typing: boolean;
+  raised_at: string;
+  last_activity: string;
+}
+
+const toChatTurn = (row: ChatInputStateRow): ChatTurn => ({
+  userId: row.user_id,
+  isTyping: row.is_typing,
+  raisedAt: row.raised_at,
+  lastActivity: new Date(row.last_activity).getTime()
+});
+
 export class ChatInputService {
   private static readonly IDLE_TIMEOUT = 10000; // 10 seconds
   private static readonly POLL_INTERVAL = 1000; // 1 second
+  // A holder this quiet has left without letting go; the host's client moves the queue on
+  private static readonly STALE_TIMEOUT = 30000; // 30 seconds
+  // Typing refreshes last_activity at most this often
+  private static readonly ACTIVITY_THROTTLE = 2000; // 2 seconds
   private pollInterval: NodeJS.Timeout | null = null;
-  private signalingManager: WebRTCSignalingManager | null = null;
-  private onStateChange: ((state: ChatInputState | null) => void) | null = null;
+  private channel: RealtimeChannel | null = null;
+  private onStateChange: ((queue: ChatTurn[]) => void) | null = null;
+  private roomId: string;
   private userId: string;
-  private hostUserId: string;
-  private currentState: ChatInputState | null = null;
+  private isHost: boolean;
+  private queue: ChatTurn[] = [];
+  // When this client first saw us at the front, so idle time counts from the start of our turn
+  private heldSince: number | null = null;
+  private lastActivitySent = 0;
 
-  constructor(roomId: string, userId: string, hostUserId: string) {
+  constructor(roomId: string, userId: string, isHost: boolean) {
+    this.roomId = roomId;
     this.userId = userId;
-    this.hostUserId = hostUserId;
-    this.signalingManager = new WebRTCSignalingManager(roomId, userId);
-    
-    // Set up message handler for chat input state
-    this.signalingManager.setDataMessageHandler((fromUserId, message) => {
-      try {
-        const data = JSON.parse(message);
-        if (data.type === 'chat_input_state') {
-          this.currentState = data.state;
-          this.onStateChange?.(data.state);
-        }
-      } catch (error) {
-        console.error('Failed to parse chat input state message:', error);
-      }
-    });
+    this.isHost = isHost;
+  }
+
+  // Join the end of the queue; does nothing if our hand is already up
+  async raiseHand(): Promise<void> {
+    const { error } = await supabase
+      .from('chat_input_state')
+      .upsert({
+        room_id: this.roomId,
+        user_id: this.userId,
+        is_typing: false,
+        raised_at: new Date().toISOString()
+      }, { onConflict: 'room_id,user_id', ignoreDuplicates: true });
+
+    if (error) {
+      console.error('Failed to raise hand:', error);
+      throw new Error('Failed to join the queue');
+    }
+    await this.refresh();
   }
 
-  // Start typing in the chat input
+  // Leave the queue, or give up the input if we hold it
+  async lowerHand(): Promise<void> {
+    await this.removeFromQueue(this.userId);
+  }
+
+  // Start typing in the chat input; false unless it is our turn
   async startTyping(): Promise<boolean> {
-    if (!this.signalingManager) return false;
+    if (!this.isHolder(this.userId)) return false;
 
     try {
-      const state: ChatInputState = {
-        userId: this.userId,
-        isTyping: true,
-        lastActivity: Date.now()
-      };
-
-      // Send state to the host
-      this.signalingManager.sendDataMessage(this.hostUserId, JSON.stringify({
-        type: 'chat_input_state',
-        state
-      }));
-
+      await this.writeActivity(true);
       return true;
     } catch (error) {
       console.error('Failed to start typing:', error);
@@ -59,22 +83,10 @@ export class ChatInputService {
     }
   }
 
-  // Stop typing in the chat input
+  // Stop typing in the chat input, passing the turn to whoever is next
   async stopTyping(): Promise<void> {
-    if (!this.signalingManager) return;
-
     try {
-      const state: ChatInputState = {
-        userId: this.userId,
-        isTyping: false,
-        lastActivity: Date.now()
-      };
-
-      // Send state to the host
-      this.signalingManager.sendDataMessage(this.hostUserId, JSON.stringify({
-        type: 'chat_input_state',
-        state
-      }));
+      await this.lowerHand();
     } catch (error) {
       console.error('Failed to stop typing:', error);
     }
@@ -82,30 +94,80 @@ export class ChatInputService {
 
   // Update last activity timestamp
   async updateActivity(): Promise<void> {
-    if (!this.signalingManager) return;
+    if (!this.isHolder(this.userId)) return;
+    if (Date.now() - this.lastActivitySent < ChatInputService.ACTIVITY_THROTTLE) return;
 
     try {
-      const state: ChatInputState = {
-        userId: this.userId,
-        isTyping: true,
-        lastActivity: Date.now()
-      };
-
-      // Send state to the host
-      this.signalingManager.sendDataMessage(this.hostUserId, JSON.stringify({
-        type: 'chat_input_state',
-        state
-      }));
+      await this.writeActivity(true);
     } catch (error) {
       console.error('Failed to update activity:', error);
     }
   }
 
+  // For host: Move a participant to the front; they take the input from the current holder
+  async giveTurnTo(userId: string): Promise<void> {
+    if (!this.isHost) return;
+
+    const holder = this.queue[0];
+    if (!holder || holder.userId === userId) return;
+
+    const { error } = await supabase
+      .from('chat_input_state')
+      .update({ raised_at: new Date(new Date(holder.raisedAt).getTime() - 1).toISOString() })
+      .eq('room_id', this.roomId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Failed to give turn:', error);
+      throw new Error('Failed to give the turn');
+    }
+    await this.refresh();
+  }
+
+  // Take someone out of the queue; the host may remove anyone, everyone else only themselves
+  async removeFromQueue(userId: string): Promise<void> {
+    if (userId !== this.userId && !this.isHost) return;
+
+    const { error } = await supabase
+      .from('chat_input_state')
+      .delete()
+      .eq('room_id', this.roomId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Failed to leave the queue:', error);
+      throw new Error('Failed to leave the queue');
+    }
+    await this.refresh();
+  }
+
+  // 0 holds the input, 1 is next, and so on; -1 when not in the queue
+  getPosition(userId = this.userId): number {
+    return this.queue.findIndex(turn => turn.userId === userId);
+  }
+
   // Subscribe to chat input state changes
-  subscribeToChatInputState(callback: (state: ChatInputState | null) => void) {
-    this.onStateChange = (state: ChatInputState | null) => callback(state);
+  subscribeToChatInputState(callback: (queue: ChatTurn[]) => void) {
+    this.onStateChange = callback;
+    this.channel = supabase
+      .channel(`chat_input_state_${this.roomId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'chat_input_state',
+        filter: `room_id=eq.${this.roomId}`
+      }, () => {
+        this.refresh();
+      })
+      .subscribe();
+
+    this.refresh();
     return () => {
       this.onStateChange = null;
+      if (this.channel) {
+        supabase.removeChannel(this.channel);
+        this.channel = null;
+      }
     };
   }
 
@@ -117,15 +179,18 @@ export class ChatInputService {
 
     this.pollInterval = setInterval(() => {
       const now = Date.now();
-      if (this.onStateChange) {
-        const state = this.currentState as ChatInputState | null;
-        this.onStateChange(state);
-        if (state && state.userId === this.userId && state.isTyping) {
-          if (now - state.lastActivity > ChatInputService.IDLE_TIMEOUT) {
-            this.stopTyping();
-            onIdle();
-          }
+      const holder = this.queue[0];
+      if (!holder) return;
+
+      if (holder.userId === this.userId) {
+        const lastActivity = Math.max(holder.lastActivity, this.heldSince ?? 0);
+        if (now - lastActivity > ChatInputService.IDLE_TIMEOUT) {
+          this.stopTyping();
+          onIdle();
         }
+      } else if (this.isHost && now - holder.lastActivity > ChatInputService.STALE_TIMEOUT) {
+        console.log('⏭️ Advancing chat queue past idle holder:', { userId: holder.userId });
+        this.removeFromQueue(holder.userId).catch(() => {});
       }
     }, ChatInputService.POLL_INTERVAL);
   }
@@ -138,11 +203,55 @@ export class ChatInputService {
     }
   }
 
+  private isHolder(userId: string): boolean {
+    return this.queue[0]?.userId === userId;
+  }
+
+  private async writeActivity(isTyping: boolean) {
+    this.lastActivitySent = Date.now();
+    const { error } = await supabase
+      .from('chat_input_state')
+      .update({ is_typing: isTyping, last_activity: new Date().toISOString() })
+      .eq('room_id', this.roomId)
+      .eq('user_id', this.userId);
+
+    if (error) throw error;
+  }
+
+  private async refresh() {
+    const { data, error } = await supabase
+      .from('chat_input_state')
+      .select('user_id, is_typing, raised_at, last_activity')
+      .eq('room_id', this.roomId)
+      .order('raised_at', { ascending: true });
+
+    if (error) {
+      console.error('Failed to load chat queue:', error);
+      return;
+    }
+
+    this.queue = (data as ChatInputStateRow[]).map(toChatTurn);
+
+    // Our turn just started: reset the idle clock everyone else sees
+    if (this.isHolder(this.userId)) {
+      if (this.heldSince === null) {
+        this.heldSince = Date.now();
+        this.writeActivity(false).catch(error => console.error('Failed to claim turn:', error));
+      }
+    } else {
+      this.heldSince = null;
+    }
+
+    this.onStateChange?.(this.queue);
+  }
+
   // Cleanup
   cleanup() {
     this.stopPolling();
-    this.signalingManager?.cleanup();
-    this.signalingManager = null;
+    if (this.channel) {
+      supabase.removeChannel(this.channel);
+      this.channel = null;
+    }
     this.onStateChange = null;
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CommandRegistry, parseCommand } from './commandRegistry';
+import type { CommandContext } from '../types/commands';
+
+const commandContext = (): CommandContext => ({
+  roomId: 'room-1',
+  userId: 'user-1',
+  askAI: vi.fn(),
+  compareAI: vi.fn(async () => {}),
+  createNote: vi.fn(),
+  clearMyCards: vi.fn()
+});
+
+describe('parseCommand', () => {
+  it('splits the name from the rest of the line', () => {
+    expect(parseCommand('  /Ask @claude  what is   new? ')).toEqual({ name: 'ask', args: '@claude  what is   new?' });
+    expect(parseCommand('/note first line\nsecond line')).toEqual({ name: 'note', args: 'first line\nsecond line' });
+    expect(parseCommand('/recap')).toEqual({ name: 'recap', args: '' });
+  });
+
+  it('leaves ordinary prompts alone', () => {
+    expect(parseCommand('what does /summarize do?')).toBeNull();
+    expect(parseCommand('')).toBeNull();
+  });
+});
+
+describe('CommandRegistry', () => {
+  it('finds commands by name regardless of case and knows nothing of unknown ones', () => {
+    expect(CommandRegistry.get('SUMMARIZE')?.name).toBe('summarize');
+    expect(CommandRegistry.get('summarise')).toBeUndefined();
+    expect(CommandRegistry.get('')).toBeUndefined();
+  });
+
+  it('suggests commands starting with the typed prefix, in name order', () => {
+    expect(CommandRegistry.search('c').map(command => command.name)).toEqual(['clear', 'compare']);
+    expect(CommandRegistry.search('Re').map(command => command.name)).toEqual(['recap']);
+    expect(CommandRegistry.search('zz')).toEqual([]);
+    expect(CommandRegistry.search('').length).toBeGreaterThanOrEqual(6);
+  });
+
+  it('unregisters only the command it registered', () => {
+    const first = { name: 'poll', description: 'First', execute: vi.fn() };
+    const second = { name: 'Poll', description: 'Second', execute: vi.fn() };
+    const unregisterFirst = CommandRegistry.register(first);
+    const unregisterSecond = CommandRegistry.register(second);
+
+    unregisterFirst();
+    expect(CommandRegistry.get('poll')).toBe(second);
+    unregisterSecond();
+    expect(CommandRegistry.get('poll')).toBeUndefined();
+  });
+
+  it('sends /ask to the provider named by its alias', () => {
+    const context = commandContext();
+    CommandRegistry.get('ask')!.execute('@Gemini  compare the two plans ', context);
+
+    expect(context.askAI).toHaveBeenCalledWith('compare the two plans', { provider: 'google' });
+  });
+
+  it('rejects /ask without a known provider or a question', () => {
+    const context = commandContext();
+    const ask = CommandRegistry.get('ask')!;
+
+    expect(() => ask.execute('@bard hello', context)).toThrow('Usage: /ask');
+    expect(() => ask.execute('@claude', context)).toThrow('Usage: /ask');
+    expect(() => ask.execute('hello', context)).toThrow('Usage: /ask');
+    expect(context.askAI).not.toHaveBeenCalled();
+  });
+
+  it('refuses commands that need an argument when given none', async () => {
+    const context = commandContext();
+
+    expect(() => CommandRegistry.get('note')!.execute('', context)).toThrow('Usage: /note <text>');
+    await expect(CommandRegistry.get('compare')!.execute('', context)).rejects.toThrow('Usage: /compare <question>');
+  });
+});
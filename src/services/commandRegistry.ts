@@ -0,0 +1,123 @@
+import type { AIProviderId } from '../types/ai';
+import type { SlashCommand } from '../types/commands';
+
+// Names people use for each provider in /ask @name
+const PROVIDER_ALIASES: Record<string, AIProviderId> = {
+  openai: 'openai',
+  gpt: 'openai',
+  chatgpt: 'openai',
+  anthropic: 'anthropic',
+  claude: 'anthropic',
+  google: 'google',
+  gemini: 'google',
+  local: 'local',
+  mock: 'mock'
+};
+
+export interface ParsedCommand {
+  name: string;
+  args: string;
+}
+
+// Split "/name rest of line" into its parts; null for ordinary prompts
+export function parseCommand(input: string): ParsedCommand | null {
+  const match = input.trim().match(/^\/(\S*)\s*([\s\S]*)$/);
+  if (!match) return null;
+  return { name: match[1].toLowerCase(), args: match[2].trim() };
+}
+
+export class CommandRegistry {
+  private static commands = new Map<string, SlashCommand>();
+
+  /**
+   * Add a command to every CommandInput. Room features call this on mount and the
+   * returned function on unmount. A later registration replaces one with the same name.
+   */
+  static register(command: SlashCommand): () => void {
+    const name = command.name.toLowerCase();
+    this.commands.set(name, command);
+    return () => {
+      if (this.commands.get(name) === command) {
+        this.commands.delete(name);
+      }
+    };
+  }
+
+  static get(name: string): SlashCommand | undefined {
+    return this.commands.get(name.toLowerCase());
+  }
+
+  // Commands whose name starts with the typed prefix, for autocomplete
+  static search(prefix: string): SlashCommand[] {
+    const query = prefix.toLowerCase();
+    return [...this.commands.values()]
+      .filter(command => command.name.toLowerCase().startsWith(query))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
+
+CommandRegistry.register({
+  name: 'ask',
+  description: 'Ask a specific AI provider',
+  usage: '@claude|@gpt|@gemini|@local <question>',
+  execute: (args, context) => {
+    const match = args.match(/^@(\S+)\s+([\s\S]+)$/);
+    const provider = match ? PROVIDER_ALIASES[match[1].toLowerCase()] : undefined;
+    if (!match || !provider) {
+      throw new Error('Usage: /ask @claude|@gpt|@gemini|@local <question>');
+    }
+    context.askAI(match[2].trim(), { provider });
+  }
+});
+
+CommandRegistry.register({
+  name: 'compare',
+  description: 'Ask every provider and compare the answers',
+  usage: '<question>',
+  execute: async (args, context) => {
+    if (!args) {
+      throw new Error('Usage: /compare <question>');
+    }
+    await context.compareAI(args);
+  }
+});
+
+CommandRegistry.register({
+  name: 'summarize',
+  description: 'Summarize the room discussion so far',
+  usage: '[focus]',
+  execute: (args, context) => {
+    const focus = args ? ` Focus on: ${args}.` : '';
+    context.askAI(`Summarize the discussion in this room so far in a few short paragraphs.${focus}`);
+  }
+});
+
+CommandRegistry.register({
+  name: 'recap',
+  description: 'List decisions, open questions and next steps',
+  execute: (_args, context) => {
+    context.askAI(
+      'Recap this room for someone who just joined, as three bullet lists: decisions made, open questions, and next steps with owners where known.'
+    );
+  }
+});
+
+CommandRegistry.register({
+  name: 'note',
+  description: 'Put a plain note on the canvas',
+  usage: '<text>',
+  execute: (args, context) => {
+    if (!args) {
+      throw new Error('Usage: /note <text>');
+    }
+    context.createNote(args);
+  }
+});
+
+CommandRegistry.register({
+  name: 'clear',
+  description: 'Remove your AI cards from the canvas',
+  execute: (_args, context) => {
+    context.clearMyCards();
+  }
+});
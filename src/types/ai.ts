@@ -1,7 +1,280 @@
+import type { ConnectorRouting } from './room';
+
 export interface AIProvider {
   id: string;
   name: string;
   description: string;
   website: string;
   hasKey: boolean;
-} 
\ No newline at end of file
+}
+
+// Provider ids match the entries listed in AIProviderModal
+export type AIProviderId = 'openai' | 'anthropic' | 'google' | 'local' | 'mock';
+
+// An OpenAI-compatible server such as llama.cpp or Ollama, reachable from this browser only
+export interface AILocalEndpointConfig {
+  baseUrl: string; // e.g. 'http://localhost:11434/v1'
+  apiKey?: string; // most local servers need none
+  model?: string; // the server's default when absent
+}
+
+// A room key as the ai-keys edge function describes it; the key itself never leaves the server
+export interface AIKeySummary {
+  provider: AIProviderId;
+  masked: string; // e.g. 'sk-…a1b2'
+  fingerprint: string | null; // first bytes of the key's SHA-256, hex
+  createdAt: string;
+  rotatedAt: string | null;
+  lastUsedAt: string | null;
+}
+
+export interface AIChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// A function the model may call, with a JSON Schema for its arguments
+export interface AIToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+// A call the model asked for; arguments are parsed from the provider's JSON but not yet validated
+export interface AIToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+type BoardPoint = { x: number; y: number };
+
+// A board change the relay made for a tool call, with what it replaced. It travels back to whoever asked,
+// whose own history takes it back, since the relay's undo stack is not theirs.
+export type AICanvasAction =
+  | { tool: 'create_note'; description: string; cardId: string }
+  | { tool: 'move_card'; description: string; cardId: string; from: BoardPoint; to: BoardPoint }
+  | {
+      tool: 'group_cards';
+      description: string;
+      groupId: string;
+      cards: { cardId: string; from: BoardPoint; fromGroupId?: string; to: BoardPoint }[];
+    }
+  | {
+      tool: 'draw_connector';
+      description: string;
+      connectorId: string;
+      fromCardId: string;
+      toCardId: string;
+      label?: string;
+      routing?: ConnectorRouting;
+    };
+
+export interface AICompletionRequest {
+  messages: AIChatMessage[];
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  // Offered to the model alongside the prompt; calls come back in AICompletionResult.toolCalls
+  tools?: AIToolDefinition[];
+  signal?: AbortSignal;
+}
+
+export interface AIUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AICompletionResult {
+  content: string;
+  provider: AIProviderId;
+  model: string;
+  usage?: AIUsage;
+  // Room files the answer cites with [n] markers
+  citations?: AIFileCitation[];
+  toolCalls?: AIToolCall[];
+  // Board changes the relay made for the answer's tool calls
+  canvasActions?: AICanvasAction[];
+}
+
+export interface AIProviderAdapter {
+  id: AIProviderId;
+  defaultModel: string;
+  requiresKey: boolean;
+  // For providers set up in this browser without a key, e.g. a local endpoint
+  isConfigured?: () => boolean;
+  complete(apiKey: string | null, request: AICompletionRequest): Promise<AICompletionResult>;
+  // Calls onDelta for each text fragment as it arrives and resolves with the full result
+  stream(
+    apiKey: string | null,
+    request: AICompletionRequest,
+    onDelta: (delta: string) => void
+  ): Promise<AICompletionResult>;
+}
+
+// A passage of a file shared in the room, as the file-context edge function returns it
+export interface AIFileExcerpt {
+  fileId: string;
+  filename: string;
+  downloadUrl: string | null;
+  content: string;
+  startLine: number | null;
+  endLine: number | null;
+  page: number | null; // PDFs only
+  heading: string | null; // nearest markdown heading above the passage
+}
+
+// Where an answer's [index] marker points; stored with the card, so the passage text is left out
+export type AIFileCitation = Omit<AIFileExcerpt, 'content'> & { index: number };
+
+// An earlier conversation to continue, e.g. the thread on an AI response card
+export interface AIThreadContext {
+  cardId: string;
+  // Prompt/answer turns so far, oldest first
+  turns: AIChatMessage[];
+}
+
+// Body of the ai-completion edge function, which answers with the room's stored key
+export interface AIProxyCompletionRequest {
+  roomId: string;
+  userId: string;
+  provider?: AIProviderId;
+  model?: string;
+  messages: AIChatMessage[];
+  maxTokens?: number;
+  temperature?: number;
+}
+
+// Spending limits in USD, stored under rooms.settings.aiBudget. null means unlimited.
+export interface AIBudgetSettings {
+  roomLimitUsd: number | null;
+  participantLimitUsd: number | null;
+  // Per-participant limits that replace participantLimitUsd, keyed by user id
+  participantOverrides: Record<string, number>;
+}
+
+// What the room's assistant is told and how it answers, stored under rooms.settings.aiPersona.
+// null fields fall back to the answering provider's defaults.
+export interface AIPersonaSettings {
+  // Shown in the command input, e.g. 'Design critic'; empty for the plain assistant
+  name: string;
+  // Added to the system message of every request in the room
+  systemPrompt: string;
+  provider: AIProviderId | null;
+  // Only applied when the request is answered by `provider`, since model names are provider-specific
+  model: string | null;
+  temperature: number | null;
+  maxTokens: number | null;
+}
+
+// One row of the ai_usage table
+export interface AIUsageRecord {
+  roomId: string;
+  userId: string;
+  provider: AIProviderId;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  source: 'host' | 'proxy';
+  createdAt?: string;
+}
+
+export interface AIParticipantUsage {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface AIUsageSummary {
+  totalCostUsd: number;
+  byUser: Record<string, AIParticipantUsage>;
+}
+
+// Messages exchanged between participants and the AI relay over the data channel. Requests, cancellations
+// and provider lists carry no sender: the relay takes it from the channel, which a peer cannot forge.
+export interface AIRequestMessage {
+  type: 'ai_request';
+  message: string;
+  requestId: string;
+  // Provider override from /ask; the relay answers with its default when absent
+  provider?: AIProviderId;
+  thread?: AIThreadContext;
+  // Let the model act on the board; the relay runs the calls
+  canvasTools?: boolean;
+}
+
+export interface AICancelMessage {
+  type: 'ai_cancel';
+  requestId: string;
+}
+
+export interface AIResponseChunkMessage {
+  type: 'ai_response_chunk';
+  requestId: string;
+  fromUserId: string;
+  index: number;
+  delta: string;
+}
+
+export interface AIResponseDoneMessage {
+  type: 'ai_response_done';
+  requestId: string;
+  fromUserId: string;
+  content: string;
+  provider: AIProviderId;
+  model: string;
+  citations?: AIFileCitation[];
+  canvasActions?: AICanvasAction[];
+}
+
+export type AIRequestErrorCode =
+  | 'cancelled'
+  | 'no_provider'
+  | 'rate_limited'
+  | 'queue_full'
+  | 'budget_exceeded'
+  | 'relay_changed'
+  | 'provider_error';
+
+export interface AIResponseErrorMessage {
+  type: 'ai_response_error';
+  requestId: string;
+  fromUserId: string;
+  error: string;
+  code: AIRequestErrorCode;
+  retryAfterMs?: number;
+}
+
+// Asks the relay which providers it holds keys for, e.g. before a compare request
+export interface AIProvidersRequestMessage {
+  type: 'ai_providers_request';
+  requestId: string;
+}
+
+export interface AIProvidersMessage {
+  type: 'ai_providers';
+  requestId: string;
+  fromUserId: string;
+  providers: AIProviderId[];
+}
+
+// Sent by the relay while a request waits for a free provider slot
+export interface AIQueuePositionMessage {
+  type: 'ai_queue_position';
+  requestId: string;
+  fromUserId: string;
+  position: number;
+  queueLength: number;
+}
+
+export type AIDataMessage =
+  | AIRequestMessage
+  | AICancelMessage
+  | AIResponseChunkMessage
+  | AIResponseDoneMessage
+  | AIResponseErrorMessage
+  | AIQueuePositionMessage
+  | AIProvidersRequestMessage
+  | AIProvidersMessage;
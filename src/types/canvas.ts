@@ -0,0 +1,99 @@
+export type CanvasObjectType = 'sticky_note' | 'text' | 'shape' | 'image' | 'frame' | 'stroke';
+
+export type CanvasShapeKind = 'rectangle' | 'ellipse' | 'triangle' | 'diamond';
+
+export type InkTool = 'pen' | 'highlighter';
+
+// x and y, then pen pressure from 0 to 1
+export type StrokePoint = [number, number, number];
+
+// Colors are CSS color strings; anything left out falls back to the object type's default look
+export interface CanvasObjectStyle {
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+  textColor?: string;
+  fontSize?: number;
+  opacity?: number;
+}
+
+interface CanvasObjectBase {
+  id: string;
+  // Canvas coordinates of the top-left corner, like AI response cards
+  position: { x: number; y: number };
+  size: { width: number; height: number };
+  rotation: number; // degrees
+  zIndex: number;
+  style: CanvasObjectStyle;
+  // Participant who created the object
+  ownerId: string;
+  // Objects (and AI cards) sharing a group are selected and moved together
+  groupId?: string;
+  updatedAt?: string;
+}
+
+export interface StickyNoteObject extends CanvasObjectBase {
+  type: 'sticky_note';
+  text: string;
+}
+
+export interface TextObject extends CanvasObjectBase {
+  type: 'text';
+  text: string;
+}
+
+export interface ShapeObject extends CanvasObjectBase {
+  type: 'shape';
+  shape: CanvasShapeKind;
+  // Label drawn in the middle of the shape
+  text: string;
+}
+
+export interface ImageObject extends CanvasObjectBase {
+  type: 'image';
+  src: string;
+  alt: string;
+}
+
+// A titled area that other objects are arranged inside
+export interface FrameObject extends CanvasObjectBase {
+  type: 'frame';
+  title: string;
+}
+
+// A freehand line; points are relative to the object's corner at the size it was drawn, and stretch with it
+export interface StrokeObject extends CanvasObjectBase {
+  type: 'stroke';
+  tool: InkTool;
+  points: StrokePoint[];
+}
+
+// A stroke someone is still drawing, streamed point by point; points are in board coordinates
+export interface LiveStroke {
+  id: string;
+  userId: string;
+  tool: InkTool;
+  style: CanvasObjectStyle;
+  points: StrokePoint[];
+}
+
+// What another participant has selected, shown to everyone else as outlines in their colour
+export interface RemoteSelection {
+  userId: string;
+  ids: string[];
+}
+
+export type CanvasObject = StickyNoteObject | TextObject | ShapeObject | ImageObject | FrameObject | StrokeObject;
+
+// Fields any object can change after it is created; the type never changes
+export type CanvasObjectUpdate = Partial<Omit<CanvasObjectBase, 'id' | 'ownerId' | 'groupId' | 'updatedAt'>> & {
+  // Null takes the object out of its group
+  groupId?: string | null;
+  text?: string;
+  shape?: CanvasShapeKind;
+  src?: string;
+  alt?: string;
+  title?: string;
+  tool?: InkTool;
+  points?: StrokePoint[];
+};
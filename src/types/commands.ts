@@ -0,0 +1,27 @@
+import type { AIProviderId } from './ai';
+
+export interface AskAIOptions {
+  // Answer with this provider instead of the host's default
+  provider?: AIProviderId;
+}
+
+// What a slash command can do in the room it was typed in
+export interface CommandContext {
+  roomId: string;
+  userId: string;
+  askAI: (prompt: string, options?: AskAIOptions) => void;
+  // Send one prompt to every provider with a key; rejects when fewer than two are available
+  compareAI: (prompt: string) => Promise<void>;
+  createNote: (content: string) => void;
+  clearMyCards: () => void;
+}
+
+export interface SlashCommand {
+  // Typed after the slash, e.g. 'summarize' for /summarize
+  name: string;
+  description: string;
+  // Argument hint shown in autocomplete, e.g. '@provider <question>'
+  usage?: string;
+  // Throw to keep the input open and show the message to the user
+  execute: (args: string, context: CommandContext) => void | Promise<void>;
+}
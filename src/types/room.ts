@@ -1,3 +1,5 @@
+import type { AIFileCitation } from './ai';
+
 export interface Room {
   id: string;
   room_code: string;
@@ -93,14 +95,91 @@ export interface CreateInviteLinkResponse {
   expiresAt?: string;
 }
 
+export type AIResponseStatus = 'streaming' | 'done' | 'error' | 'cancelled';
+
 export interface AIResponse {
   id: string;
   content: string;
+  status?: AIResponseStatus;
   position: {
     x: number;
     y: number;
   };
+  size?: {
+    width: number;
+    height: number;
+  };
   rotation: number;
   fromUserId: string;
   zIndex: number;
-}
\ No newline at end of file
+  provider?: string;
+  prompt?: string;
+  // Cards answering the same prompt in compare mode share a group id
+  groupId?: string;
+  // Time from sending the prompt to the finished answer
+  latencyMs?: number;
+  // Room files the answer cites with [n] markers
+  citations?: AIFileCitation[];
+  // Follow-up questions asked on this card, oldest first; stored in their own table
+  replies?: AIResponseReply[];
+  // Place in the AI host's queue while waiting; local only, never persisted
+  queuePosition?: number;
+}
+
+export interface AIResponseReply {
+  id: string;
+  responseId: string;
+  fromUserId: string;
+  prompt: string;
+  content: string;
+  status: AIResponseStatus;
+  provider?: string;
+  citations?: AIFileCitation[];
+  createdAt: string;
+}
+
+// An arrow from one card to another on the canvas
+// Side of an item a connector end sticks to; 'auto' takes whichever side faces the other end
+export type ConnectorAnchor = 'auto' | 'top' | 'right' | 'bottom' | 'left';
+
+export type ConnectorRouting = 'straight' | 'elbow' | 'curved';
+
+export type ConnectorArrowhead = 'none' | 'arrow' | 'triangle';
+
+// An arrow between two board items: AI cards or canvas objects. It re-routes as either end moves.
+export interface CanvasConnector {
+  id: string;
+  fromCardId: string;
+  toCardId: string;
+  fromAnchor: ConnectorAnchor;
+  toAnchor: ConnectorAnchor;
+  routing: ConnectorRouting;
+  startArrow: ConnectorArrowhead;
+  endArrow: ConnectorArrowhead;
+  label?: string;
+  createdBy: string;
+}
+
+// What can change about a connector once drawn; its ends stay the same
+export type CanvasConnectorUpdate = Partial<Pick<CanvasConnector,
+  'fromAnchor' | 'toAnchor' | 'routing' | 'startArrow' | 'endArrow' | 'label'
+>>;
+
+// Emitted repeatedly while an AI response streams in; the card with the same id is updated in place
+export interface AIResponseUpdate {
+  id: string;
+  content: string;
+  fromUserId: string;
+  status: AIResponseStatus;
+  prompt?: string;
+  provider?: string;
+  queuePosition?: number;
+  groupId?: string;
+  // Column of the card within its compare group, used to lay the cards out side by side
+  groupIndex?: number;
+  latencyMs?: number;
+  citations?: AIFileCitation[];
+  // Where a new card goes; defaults to just above the chat input
+  position?: { x: number; y: number };
+  cancel?: () => void;
+}
@@ -0,0 +1,404 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.38.4';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+type ProviderId = 'openai' | 'anthropic' | 'google' | 'mock';
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+interface AICompletionRequest {
+  roomId: string;
+  userId: string;
+  provider?: ProviderId;
+  model?: string;
+  messages: ChatMessage[];
+  maxTokens?: number;
+  temperature?: number;
+}
+
+interface CompletionResult {
+  content: string;
+  model: string;
+  usage?: { inputTokens: number; outputTokens: number };
+}
+
+const SUPPORTED_PROVIDERS: ProviderId[] = ['openai', 'anthropic', 'google', 'mock'];
+
+// The mock needs no key and costs nothing, so it would let anyone skip the room's budget; development only
+const MOCK_ENABLED = Deno.env.get('ENVIRONMENT') === 'development';
+
+const DEFAULT_MODELS: Record<ProviderId, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+  google: 'gemini-1.5-flash',
+  mock: 'mock-echo',
+};
+
+// USD per million tokens, matched by model name prefix. Keep in sync with src/services/aiUsageService.ts
+const MODEL_PRICING: Array<{ prefix: string; input: number; output: number }> = [
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { prefix: 'gpt-4o', input: 2.5, output: 10 },
+  { prefix: 'gpt-4.1-mini', input: 0.4, output: 1.6 },
+  { prefix: 'gpt-4.1', input: 2, output: 8 },
+  { prefix: 'claude-3-5-haiku', input: 0.8, output: 4 },
+  { prefix: 'claude-3-5-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-sonnet-4', input: 3, output: 15 },
+  { prefix: 'claude-opus-4', input: 15, output: 75 },
+  { prefix: 'gemini-1.5-flash', input: 0.075, output: 0.3 },
+  { prefix: 'gemini-1.5-pro', input: 1.25, output: 5 },
+  { prefix: 'gemini-2.0-flash', input: 0.1, output: 0.4 },
+];
+
+const PROVIDER_FALLBACK_PRICING: Record<ProviderId, { input: number; output: number }> = {
+  openai: { input: 2.5, output: 10 },
+  anthropic: { input: 3, output: 15 },
+  google: { input: 1.25, output: 5 },
+  mock: { input: 0, output: 0 },
+};
+
+const DEFAULT_MAX_TOKENS = 1024;
+const MAX_MESSAGES = 100;
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const splitSystemPrompt = (messages: ChatMessage[]) => {
+  const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+  return { system: system || undefined, conversation: messages.filter(m => m.role !== 'system') };
+};
+
+const estimateCost = (provider: ProviderId, model: string, inputTokens: number, outputTokens: number) => {
+  const price = provider === 'mock'
+    ? PROVIDER_FALLBACK_PRICING.mock
+    : MODEL_PRICING.find(entry => model.startsWith(entry.prefix)) ?? PROVIDER_FALLBACK_PRICING[provider];
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+};
+
+const formatUsd = (amount: number) => `$${amount.toFixed(2)}`;
+
+// Returns why the participant may not spend more of the room's budget, or null if they may
+async function checkBudget(
+  supabase: ReturnType<typeof createClient>,
+  roomId: string,
+  userId: string
+): Promise<string | null> {
+  const [roomResult, usageResult] = await Promise.all([
+    supabase.from('rooms').select('settings').eq('id', roomId).single(),
+    supabase.from('ai_usage').select('user_id, cost_usd').eq('room_id', roomId),
+  ]);
+
+  if (roomResult.error) throw roomResult.error;
+  if (usageResult.error) throw usageResult.error;
+
+  const budget = roomResult.data?.settings?.aiBudget;
+  if (!budget) return null;
+
+  let roomCost = 0;
+  let userCost = 0;
+  for (const row of usageResult.data || []) {
+    const cost = Number(row.cost_usd);
+    roomCost += cost;
+    if (row.user_id === userId) userCost += cost;
+  }
+
+  if (typeof budget.roomLimitUsd === 'number' && roomCost >= budget.roomLimitUsd) {
+    return `This room has used its AI budget of ${formatUsd(budget.roomLimitUsd)}. Ask the host to raise it.`;
+  }
+
+  const userLimit = budget.participantOverrides?.[userId] ?? budget.participantLimitUsd;
+  if (typeof userLimit === 'number' && userCost >= userLimit) {
+    return `You have used your AI budget of ${formatUsd(userLimit)} in this room. Ask the host to raise it.`;
+  }
+
+  return null;
+}
+
+async function recordUsage(
+  supabase: ReturnType<typeof createClient>,
+  request: AICompletionRequest,
+  provider: ProviderId,
+  result: CompletionResult
+) {
+  const inputTokens = result.usage?.inputTokens ?? 0;
+  const outputTokens = result.usage?.outputTokens ?? 0;
+  const { error } = await supabase.from('ai_usage').insert({
+    room_id: request.roomId,
+    user_id: request.userId,
+    provider,
+    model: result.model,
+    input_tokens: inputTokens,
+    output_tokens: outputTokens,
+    cost_usd: estimateCost(provider, result.model, inputTokens, outputTokens),
+    source: 'proxy',
+  });
+
+  if (error) {
+    console.error('Failed to record AI usage:', error);
+  }
+}
+
+async function readProviderError(response: Response, provider: ProviderId): Promise<Error> {
+  const text = await response.text();
+  console.error(`${provider} API error:`, response.status, text);
+  return new Error(`${provider} request failed with status ${response.status}`);
+}
+
+async function callOpenAI(apiKey: string, model: string, request: AICompletionRequest): Promise<CompletionResult> {
+  const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify({
+      model,
+      messages: request.messages,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: request.temperature,
+    }),
+  });
+
+  if (!response.ok) throw await readProviderError(response, 'openai');
+  const data = await response.json();
+
+  return {
+    content: data.choices?.[0]?.message?.content ?? '',
+    model: data.model || model,
+    usage: data.usage
+      ? { inputTokens: data.usage.prompt_tokens, outputTokens: data.usage.completion_tokens }
+      : undefined,
+  };
+}
+
+async function callAnthropic(apiKey: string, model: string, request: AICompletionRequest): Promise<CompletionResult> {
+  const { system, conversation } = splitSystemPrompt(request.messages);
+  const response = await fetch('https://api.anthropic.com/v1/messages', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': apiKey,
+      'anthropic-version': '2023-06-01',
+    },
+    body: JSON.stringify({
+      model,
+      system,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: request.temperature,
+      messages: conversation.map(m => ({
+        role: m.role === 'assistant' ? 'assistant' : 'user',
+        content: m.content,
+      })),
+    }),
+  });
+
+  if (!response.ok) throw await readProviderError(response, 'anthropic');
+  const data = await response.json();
+
+  return {
+    content: (data.content || [])
+      .map((block: { type: string; text?: string }) => (block.type === 'text' ? block.text : ''))
+      .join(''),
+    model: data.model || model,
+    usage: data.usage
+      ? { inputTokens: data.usage.input_tokens, outputTokens: data.usage.output_tokens }
+      : undefined,
+  };
+}
+
+async function callGoogle(apiKey: string, model: string, request: AICompletionRequest): Promise<CompletionResult> {
+  const { system, conversation } = splitSystemPrompt(request.messages);
+  const url = `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}:generateContent?key=${encodeURIComponent(apiKey)}`;
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+      contents: conversation.map(m => ({
+        role: m.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: m.content }],
+      })),
+      generationConfig: {
+        maxOutputTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature,
+      },
+    }),
+  });
+
+  if (!response.ok) throw await readProviderError(response, 'google');
+  const data = await response.json();
+
+  return {
+    content: (data.candidates?.[0]?.content?.parts || [])
+      .map((part: { text?: string }) => part.text || '')
+      .join(''),
+    model,
+    usage: data.usageMetadata
+      ? { inputTokens: data.usageMetadata.promptTokenCount, outputTokens: data.usageMetadata.candidatesTokenCount }
+      : undefined,
+  };
+}
+
+// Mirrors the client-side mock provider so the proxy path can be exercised without a real key
+function callMock(model: string, request: AICompletionRequest): CompletionResult {
+  const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+  const lastUserMessage = [...request.messages].reverse().find(m => m.role === 'user');
+  const content = `Mock response to: ${lastUserMessage?.content ?? ''}`;
+  return {
+    content,
+    model,
+    usage: {
+      inputTokens: request.messages.reduce((total, m) => total + countWords(m.content), 0),
+      outputTokens: countWords(content),
+    },
+  };
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    const request: AICompletionRequest = await req.json();
+    const { roomId, userId, provider, messages } = request;
+
+    if (!roomId || !userId || !Array.isArray(messages) || messages.length === 0) {
+      return jsonResponse({ error: 'Missing required fields' }, 400);
+    }
+
+    if (messages.length > MAX_MESSAGES) {
+      return jsonResponse({ error: `At most ${MAX_MESSAGES} messages are allowed` }, 400);
+    }
+
+    if (provider && (!SUPPORTED_PROVIDERS.includes(provider) || (provider === 'mock' && !MOCK_ENABLED))) {
+      return jsonResponse({ error: 'Unsupported provider' }, 400);
+    }
+
+    // Only participants of the room may spend its keys
+    const { data: participant, error: participantError } = await supabase
+      .from('participants')
+      .select('user_id')
+      .eq('room_id', roomId)
+      .eq('user_id', userId)
+      .single();
+
+    if (participantError || !participant) {
+      return jsonResponse({ error: 'User is not a participant in this room' }, 403);
+    }
+
+    try {
+      const refusal = await checkBudget(supabase, roomId, userId);
+      if (refusal) {
+        return jsonResponse({ error: refusal, code: 'budget_exceeded' }, 402);
+      }
+    } catch (error) {
+      // An unreadable budget should not take the AI offline for the room
+      console.error('Budget check error:', error);
+    }
+
+    if (provider === 'mock') {
+      const mockResult = callMock(request.model || DEFAULT_MODELS.mock, request);
+      await recordUsage(supabase, request, 'mock', mockResult);
+      return jsonResponse({ ...mockResult, provider: 'mock' }, 200);
+    }
+
+    // Use the requested provider, or the most recently used active key in the room
+    let keyQuery = supabase
+      .from('ai_api_keys')
+      .select('id, provider, encrypted_key')
+      .eq('room_id', roomId)
+      .eq('is_active', true);
+
+    if (provider) {
+      keyQuery = keyQuery.eq('provider', provider);
+    } else {
+      // The mock was answered above when asked for; a stored mock key is never a real provider to fall back on
+      keyQuery = keyQuery.neq('provider', 'mock');
+    }
+
+    const { data: keys, error: keyError } = await keyQuery
+      .order('last_used_at', { ascending: false, nullsFirst: false })
+      .limit(1);
+
+    if (keyError) {
+      console.error('API key fetch error:', keyError);
+      return jsonResponse({ error: 'Failed to load API key' }, 500);
+    }
+
+    const keyRow = keys?.[0];
+    if (!keyRow) {
+      return jsonResponse({ error: 'No API key configured for this room' }, 404);
+    }
+
+    const { data: apiKey, error: decryptError } = await supabase.rpc('decrypt_api_key', {
+      encrypted_key: keyRow.encrypted_key,
+    });
+
+    if (decryptError || !apiKey) {
+      console.error('API key decrypt error:', decryptError);
+      return jsonResponse({ error: 'Failed to decrypt API key' }, 500);
+    }
+
+    const providerId = keyRow.provider as ProviderId;
+    const model = request.model || DEFAULT_MODELS[providerId];
+
+    let result: CompletionResult;
+    try {
+      switch (providerId) {
+        case 'openai':
+          result = await callOpenAI(apiKey, model, request);
+          break;
+        case 'anthropic':
+          result = await callAnthropic(apiKey, model, request);
+          break;
+        case 'google':
+          result = await callGoogle(apiKey, model, request);
+          break;
+        default:
+          return jsonResponse({ error: 'Unsupported provider' }, 400);
+      }
+    } catch (error) {
+      return jsonResponse({ error: error instanceof Error ? error.message : 'Provider request failed' }, 502);
+    }
+
+    await recordUsage(supabase, request, providerId, result);
+
+    // Track usage of the key
+    const { error: updateError } = await supabase
+      .from('ai_api_keys')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', keyRow.id);
+
+    if (updateError) {
+      console.error('Failed to update last_used_at:', updateError);
+    }
+
+    return jsonResponse({ ...result, provider: providerId }, 200);
+
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
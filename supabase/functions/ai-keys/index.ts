@@ -0,0 +1,192 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.38.4';
+import { supportedProviders, validateKey, type ProviderId } from './validateKey.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+// Mock keys are only accepted, and only listed, where ai-completion also answers with the mock
+const MOCK_ENABLED = Deno.env.get('ENVIRONMENT') === 'development';
+const SUPPORTED_PROVIDERS = supportedProviders(MOCK_ENABLED);
+
+interface KeyRow {
+  provider: ProviderId;
+  created_at: string;
+  last_used_at: string | null;
+  metadata: { masked?: string; fingerprint?: string; rotated_at?: string } | null;
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Only the start and end of a key are ever shown again
+const maskKey = (apiKey: string) =>
+  apiKey.length > 12 ? `${apiKey.slice(0, 3)}…${apiKey.slice(-4)}` : `…${apiKey.slice(-2)}`;
+
+// Short hash so two keys with the same ending can still be told apart
+async function fingerprintKey(apiKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(apiKey));
+  return Array.from(new Uint8Array(digest).slice(0, 4))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+const toSummary = (row: KeyRow) => ({
+  provider: row.provider,
+  masked: row.metadata?.masked ?? '••••',
+  fingerprint: row.metadata?.fingerprint ?? null,
+  createdAt: row.created_at,
+  rotatedAt: row.metadata?.rotated_at ?? null,
+  lastUsedAt: row.last_used_at,
+});
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    let roomId: string | null;
+    let userId: string | null;
+    let body: { roomId?: string; userId?: string; provider?: ProviderId; apiKey?: string } = {};
+
+    if (req.method === 'GET') {
+      const url = new URL(req.url);
+      roomId = url.searchParams.get('roomId');
+      userId = url.searchParams.get('userId');
+    } else if (req.method === 'POST' || req.method === 'DELETE') {
+      body = await req.json();
+      roomId = body.roomId ?? null;
+      userId = body.userId ?? null;
+    } else {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    if (!roomId || !userId) {
+      return jsonResponse({ error: 'Missing required fields' }, 400);
+    }
+
+    const { data: participant, error: participantError } = await supabase
+      .from('participants')
+      .select('user_id, rooms!inner(host_user_id)')
+      .eq('room_id', roomId)
+      .eq('user_id', userId)
+      .single();
+
+    if (participantError || !participant) {
+      return jsonResponse({ error: 'User is not a participant in this room' }, 403);
+    }
+
+    // Everyone may see which providers are configured; never the keys themselves
+    if (req.method === 'GET') {
+      const { data: keys, error } = await supabase
+        .from('ai_api_keys')
+        .select('provider, created_at, last_used_at, metadata')
+        .eq('room_id', roomId)
+        .eq('is_active', true);
+
+      if (error) {
+        console.error('API key list error:', error);
+        return jsonResponse({ error: 'Failed to load API keys' }, 500);
+      }
+
+      const usable = (keys as KeyRow[]).filter(key => SUPPORTED_PROVIDERS.includes(key.provider));
+      return jsonResponse({ keys: usable.map(toSummary) }, 200);
+    }
+
+    const room = participant.rooms as unknown as { host_user_id: string };
+    if (room.host_user_id !== userId) {
+      return jsonResponse({ error: 'Only the host can manage API keys' }, 403);
+    }
+
+    const { provider, apiKey } = body;
+    if (!provider || !SUPPORTED_PROVIDERS.includes(provider)) {
+      return jsonResponse({ error: 'Unsupported provider' }, 400);
+    }
+
+    // Revoke: the encrypted key is deleted, not just deactivated
+    if (req.method === 'DELETE') {
+      const { error } = await supabase
+        .from('ai_api_keys')
+        .delete()
+        .eq('room_id', roomId)
+        .eq('provider', provider);
+
+      if (error) {
+        console.error('API key revoke error:', error);
+        return jsonResponse({ error: 'Failed to revoke API key' }, 500);
+      }
+
+      return jsonResponse({ success: true }, 200);
+    }
+
+    const trimmedKey = apiKey?.trim();
+    if (!trimmedKey) {
+      return jsonResponse({ error: 'Missing API key' }, 400);
+    }
+
+    if (!(await validateKey(provider, trimmedKey))) {
+      return jsonResponse({ error: 'The provider rejected this key', code: 'invalid_key' }, 400);
+    }
+
+    const { data: encryptedKey, error: encryptError } = await supabase.rpc('encrypt_api_key', {
+      api_key: trimmedKey,
+    });
+
+    if (encryptError || !encryptedKey) {
+      console.error('API key encrypt error:', encryptError);
+      return jsonResponse({ error: 'Failed to encrypt API key' }, 500);
+    }
+
+    // Saving over an existing key is a rotation
+    const { data: existing } = await supabase
+      .from('ai_api_keys')
+      .select('id')
+      .eq('room_id', roomId)
+      .eq('provider', provider)
+      .maybeSingle();
+
+    const metadata = {
+      masked: maskKey(trimmedKey),
+      fingerprint: await fingerprintKey(trimmedKey),
+      ...(existing && { rotated_at: new Date().toISOString() }),
+    };
+
+    const { data: saved, error: saveError } = await supabase
+      .from('ai_api_keys')
+      .upsert({
+        room_id: roomId,
+        provider,
+        encrypted_key: encryptedKey,
+        created_by: userId,
+        is_active: true,
+        metadata,
+      }, { onConflict: 'room_id,provider' })
+      .select('provider, created_at, last_used_at, metadata')
+      .single();
+
+    if (saveError || !saved) {
+      console.error('API key save error:', saveError);
+      return jsonResponse({ error: 'Failed to save API key' }, 500);
+    }
+
+    return jsonResponse({ key: toSummary(saved as KeyRow) }, 200);
+
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
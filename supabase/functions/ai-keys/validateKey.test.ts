@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { supportedProviders, validateKey } from './validateKey.ts';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('supportedProviders', () => {
+  it('offers the mock only when it is enabled', () => {
+    expect(supportedProviders(true)).toContain('mock');
+    expect(supportedProviders(false)).toEqual(['openai', 'anthropic', 'google']);
+  });
+});
+
+describe('validateKey', () => {
+  it('accepts mock keys by prefix without calling out', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(validateKey('mock', 'mock-test-key')).resolves.toBe(true);
+    await expect(validateKey('mock', 'sk-real-looking')).resolves.toBe(false);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('rejects a key the provider refuses', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{}', { status: 401 })));
+
+    await expect(validateKey('openai', 'sk-wrong')).resolves.toBe(false);
+  });
+
+  it('saves a key when the provider is down rather than blocking it', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{}', { status: 503 })));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(validateKey('anthropic', 'sk-ant-key')).resolves.toBe(true);
+  });
+});
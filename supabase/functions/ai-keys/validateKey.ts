@@ -0,0 +1,43 @@
+export type ProviderId = 'openai' | 'anthropic' | 'google' | 'mock';
+
+const KEYED_PROVIDERS: ProviderId[] = ['openai', 'anthropic', 'google'];
+
+// The mock takes any "mock-" key and costs nothing, so only development deployments accept it
+export const supportedProviders = (mockEnabled: boolean): ProviderId[] =>
+  mockEnabled ? [...KEYED_PROVIDERS, 'mock'] : KEYED_PROVIDERS;
+
+/**
+ * Make the cheapest authenticated call each provider offers, so a mistyped key is
+ * rejected before it is stored. The mock provider accepts keys starting with "mock-".
+ */
+export async function validateKey(provider: ProviderId, apiKey: string): Promise<boolean> {
+  let response: Response;
+  switch (provider) {
+    case 'mock':
+      return apiKey.startsWith('mock-');
+    case 'openai':
+      response = await fetch('https://api.openai.com/v1/models', {
+        headers: { 'Authorization': `Bearer ${apiKey}` },
+      });
+      break;
+    case 'anthropic':
+      response = await fetch('https://api.anthropic.com/v1/models', {
+        headers: { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' },
+      });
+      break;
+    case 'google':
+      response = await fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models?key=${encodeURIComponent(apiKey)}`
+      );
+      break;
+  }
+
+  if (response.status === 401 || response.status === 403 || response.status === 400) {
+    return false;
+  }
+  if (!response.ok) {
+    // Provider outages should not block saving; the key is checked again on first use
+    console.error(`${provider} key validation returned status`, response.status);
+  }
+  return true;
+}
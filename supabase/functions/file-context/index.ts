@@ -0,0 +1,287 @@
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2.38.4';
+import { extractText, getDocumentProxy } from 'npm:unpdf@0.12.1';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+// Upload types that are plain text; .md also gets its headings tracked
+const TEXT_EXTENSIONS = ['.txt', '.md', '.js', '.ts', '.css', '.html', '.json', '.xml', '.py'];
+
+// Larger files are left out rather than slowing every question down
+const MAX_INDEX_BYTES = 5 * 1024 * 1024; // 5MB
+// Unread files are indexed on the first question that needs them, a few at a time
+const MAX_FILES_INDEXED_PER_REQUEST = 5;
+
+// Passage size in characters, with a few lines repeated so a sentence cut at the edge is found in both
+const CHUNK_CHARS = 1500;
+const CHUNK_OVERLAP_LINES = 2;
+// Minified files have no line breaks to cut at
+const MAX_CHUNK_CHARS = 4000;
+
+const DEFAULT_LIMIT = 6;
+const MAX_LIMIT = 12;
+
+interface FileRow {
+  id: string;
+  original_filename: string;
+  file_size: number;
+  storage_path: string | null;
+  transfer_type: string;
+  text_index_status: 'indexed' | 'unsupported' | 'failed' | null;
+}
+
+interface ChunkRow {
+  file_id: string;
+  chunk_index: number;
+  content: string;
+  start_line: number | null;
+  end_line: number | null;
+  page: number | null;
+  heading: string | null;
+}
+
+type Passage = Omit<ChunkRow, 'file_id' | 'chunk_index'>;
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+function getFileExtension(filename: string): string {
+  const lastDot = filename.lastIndexOf('.');
+  return lastDot !== -1 ? filename.slice(lastDot).toLowerCase() : '';
+}
+
+/**
+ * Split text into passages of about CHUNK_CHARS, cutting at line breaks. In markdown a heading
+ * always starts a new passage, and every passage remembers the heading it sits under.
+ */
+function splitIntoPassages(text: string, page: number | null, isMarkdown: boolean): Passage[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const passages: Passage[] = [];
+  let start = 0;
+  let size = 0;
+  let heading: string | null = null;
+  let passageHeading: string | null = null;
+
+  const flush = (end: number) => {
+    const content = lines.slice(start, end).join('\n').trim();
+    if (!content) return;
+    passages.push({
+      content: content.slice(0, MAX_CHUNK_CHARS),
+      // Line numbers mean little once a PDF's text is pulled out of its layout
+      start_line: page === null ? start + 1 : null,
+      end_line: page === null ? end : null,
+      page,
+      heading: passageHeading,
+    });
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const headingMatch = isMarkdown ? /^#{1,6}\s+(.+)$/.exec(lines[i]) : null;
+    if (size > 0 && (headingMatch || size + lines[i].length > CHUNK_CHARS)) {
+      flush(i);
+      start = headingMatch ? i : Math.max(start + 1, i - CHUNK_OVERLAP_LINES);
+      size = lines.slice(start, i).reduce((sum, line) => sum + line.length + 1, 0);
+      passageHeading = heading;
+    }
+    if (headingMatch) {
+      heading = headingMatch[1].trim();
+      passageHeading = heading;
+    }
+    size += lines[i].length + 1;
+  }
+  flush(lines.length);
+
+  return passages;
+}
+
+// Text passages of a file, or null when its type cannot be read
+async function extractPassages(filename: string, data: Blob): Promise<Passage[] | null> {
+  const extension = getFileExtension(filename);
+
+  if (TEXT_EXTENSIONS.includes(extension)) {
+    return splitIntoPassages(await data.text(), null, extension === '.md');
+  }
+
+  if (extension === '.pdf') {
+    const pdf = await getDocumentProxy(new Uint8Array(await data.arrayBuffer()));
+    const { text } = await extractText(pdf, { mergePages: false });
+    // Scanned PDFs have no text layer and come back empty
+    return (text as string[]).flatMap((pageText, index) => splitIntoPassages(pageText, index + 1, false));
+  }
+
+  return null;
+}
+
+// Read a file from storage into shared_file_chunks and record the outcome on the file
+async function indexFile(supabase: SupabaseClient, roomId: string, file: FileRow): Promise<void> {
+  let status: 'indexed' | 'unsupported' | 'failed' = 'unsupported';
+
+  try {
+    if (file.storage_path && file.transfer_type === 'server' && file.file_size <= MAX_INDEX_BYTES) {
+      const { data, error } = await supabase.storage.from('shared-files').download(file.storage_path);
+      if (error || !data) throw error ?? new Error('Empty download');
+
+      const passages = await extractPassages(file.original_filename, data);
+      if (passages) {
+        const rows = passages.map((passage, index) => ({
+          ...passage,
+          file_id: file.id,
+          room_id: roomId,
+          chunk_index: index,
+        }));
+        // Another question may be indexing the same file right now
+        const { error: insertError } = await supabase
+          .from('shared_file_chunks')
+          .upsert(rows, { onConflict: 'file_id,chunk_index', ignoreDuplicates: true });
+        if (insertError) throw insertError;
+        status = 'indexed';
+        console.log('📚 Indexed shared file:', { fileId: file.id, passages: rows.length });
+      }
+    }
+  } catch (error) {
+    console.error('File indexing error:', { fileId: file.id, error });
+    status = 'failed';
+  }
+
+  await supabase
+    .from('shared_files')
+    .update({ text_index_status: status, text_indexed_at: new Date().toISOString() })
+    .eq('id', file.id);
+}
+
+// Files named in the question, e.g. "what does spec.md say about auth"
+function findMentionedFiles(query: string, files: FileRow[]): FileRow[] {
+  const lowerQuery = query.toLowerCase();
+  return files.filter(file => lowerQuery.includes(file.original_filename.toLowerCase()));
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    const { roomId, userId, query, limit } = await req.json() as {
+      roomId?: string;
+      userId?: string;
+      query?: string;
+      limit?: number;
+    };
+
+    if (!roomId || !userId || !query?.trim()) {
+      return jsonResponse({ error: 'Missing required fields' }, 400);
+    }
+
+    const { data: participant, error: participantError } = await supabase
+      .from('participants')
+      .select('user_id')
+      .eq('room_id', roomId)
+      .eq('user_id', userId)
+      .single();
+
+    if (participantError || !participant) {
+      return jsonResponse({ error: 'User is not a participant in this room' }, 403);
+    }
+
+    const { data: files, error: filesError } = await supabase
+      .from('shared_files')
+      .select('id, original_filename, file_size, storage_path, transfer_type, text_index_status')
+      .eq('room_id', roomId)
+      .order('created_at', { ascending: false });
+
+    if (filesError) {
+      console.error('Files fetch error:', filesError);
+      return jsonResponse({ error: 'Failed to fetch files' }, 500);
+    }
+
+    const roomFiles = files as FileRow[];
+    if (roomFiles.length === 0) {
+      return jsonResponse({ excerpts: [] }, 200);
+    }
+
+    // Files named in the question are read first
+    const mentioned = findMentionedFiles(query, roomFiles);
+    const unindexed = [
+      ...mentioned,
+      ...roomFiles.filter(file => !mentioned.includes(file))
+    ].filter(file => !file.text_index_status);
+    for (const file of unindexed.slice(0, MAX_FILES_INDEXED_PER_REQUEST)) {
+      await indexFile(supabase, roomId, file);
+    }
+
+    const resultLimit = Math.min(Math.max(1, limit ?? DEFAULT_LIMIT), MAX_LIMIT);
+    const fileIds = mentioned.length > 0 ? mentioned.map(file => file.id) : null;
+
+    const { data: matches, error: searchError } = await supabase.rpc('search_shared_file_chunks', {
+      p_room_id: roomId,
+      p_query: query,
+      p_file_ids: fileIds,
+      p_limit: resultLimit,
+    });
+
+    if (searchError) {
+      console.error('File search error:', searchError);
+      return jsonResponse({ error: 'Failed to search files' }, 500);
+    }
+
+    let chunks = matches as ChunkRow[];
+    // "Summarize spec.md" shares no words with the file, so fall back to its opening passages
+    if (chunks.length === 0 && fileIds) {
+      const { data: opening, error: openingError } = await supabase
+        .from('shared_file_chunks')
+        .select('file_id, chunk_index, content, start_line, end_line, page, heading')
+        .in('file_id', fileIds)
+        .order('chunk_index', { ascending: true })
+        .limit(resultLimit);
+
+      if (openingError) {
+        console.error('File passages fetch error:', openingError);
+        return jsonResponse({ error: 'Failed to search files' }, 500);
+      }
+      chunks = opening as ChunkRow[];
+    }
+
+    const fileMap = new Map(roomFiles.map(file => [file.id, file]));
+    const excerpts = chunks.map(chunk => {
+      const file = fileMap.get(chunk.file_id)!;
+      const downloadUrl = file.storage_path && file.transfer_type === 'server'
+        ? supabase.storage.from('shared-files').getPublicUrl(file.storage_path).data.publicUrl
+        : null;
+
+      return {
+        fileId: chunk.file_id,
+        filename: file.original_filename,
+        downloadUrl,
+        content: chunk.content,
+        startLine: chunk.start_line,
+        endLine: chunk.end_line,
+        page: chunk.page,
+        heading: chunk.heading,
+      };
+    });
+
+    return jsonResponse({ excerpts }, 200);
+
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
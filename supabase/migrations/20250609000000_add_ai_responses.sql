@@ -0,0 +1,78 @@
+/*
+  # Persist AI Response Cards
+
+  1. New Tables
+    - `ai_responses`
+      - `id` (uuid, primary key, generated by the requesting client)
+      - `room_id` (uuid, foreign key to rooms)
+      - `from_user_id` (uuid, participant who asked)
+      - `prompt` (text, the question that produced the card)
+      - `content` (text, the AI answer)
+      - `provider` (varchar, e.g., 'openai', 'anthropic', 'google', 'mock')
+      - `status` (varchar, 'streaming', 'done', 'error' or 'cancelled')
+      - `position_x`, `position_y` (double precision, canvas coordinates)
+      - `width`, `height` (double precision, card size)
+      - `rotation` (double precision, degrees)
+      - `z_index` (integer, stacking order)
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Security
+    - Enable RLS on ai_responses table
+    - Add open policy for hackathon use
+
+  3. Realtime
+    - Add table to the supabase_realtime publication so moves and resizes sync
+
+  4. Performance
+    - Add index for loading a room's cards in order
+*/
+
+CREATE TABLE IF NOT EXISTS ai_responses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id uuid NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  from_user_id uuid NOT NULL,
+  prompt text,
+  content text NOT NULL DEFAULT '',
+  provider varchar(50),
+  status varchar(20) NOT NULL DEFAULT 'done',
+  position_x double precision NOT NULL DEFAULT 0,
+  position_y double precision NOT NULL DEFAULT 0,
+  width double precision NOT NULL DEFAULT 300,
+  height double precision NOT NULL DEFAULT 200,
+  rotation double precision NOT NULL DEFAULT 0,
+  z_index integer NOT NULL DEFAULT 1,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT ai_responses_status_check CHECK (status IN ('streaming', 'done', 'error', 'cancelled'))
+);
+
+-- Enable RLS
+ALTER TABLE ai_responses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on ai_responses"
+  ON ai_responses
+  FOR ALL
+  USING (true);
+
+-- Keep updated_at current on every change
+CREATE OR REPLACE FUNCTION update_ai_responses_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_ai_responses_updated_at
+  BEFORE UPDATE ON ai_responses
+  FOR EACH ROW
+  EXECUTE FUNCTION update_ai_responses_updated_at();
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_ai_responses_room_time ON ai_responses(room_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_responses_from_user ON ai_responses(from_user_id);
+
+-- Broadcast row changes to subscribed clients
+ALTER PUBLICATION supabase_realtime ADD TABLE ai_responses;
+
+COMMENT ON TABLE ai_responses IS 'AI response cards placed on a room canvas, shared with every participant';
@@ -0,0 +1,53 @@
+/*
+  # Track AI Usage and Cost per Participant
+
+  1. New Tables
+    - `ai_usage`
+      - `id` (uuid, primary key)
+      - `room_id` (uuid, foreign key to rooms)
+      - `user_id` (uuid, participant the request was billed to)
+      - `provider` (varchar, e.g., 'openai', 'anthropic', 'google', 'mock')
+      - `model` (varchar, model that answered)
+      - `input_tokens`, `output_tokens` (integer, as reported by the provider)
+      - `cost_usd` (numeric, estimated from the model's list price)
+      - `source` (varchar, 'host' for relayed requests or 'proxy' for the ai-completion function)
+      - `created_at` (timestamp)
+
+  2. Budgets
+    - Host budgets live in rooms.settings under `aiBudget`:
+      { "roomLimitUsd": number | null, "participantLimitUsd": number | null, "participantOverrides": { "<user_id>": number } }
+
+  3. Security
+    - Enable RLS on ai_usage table
+    - Add open policy for hackathon use
+
+  4. Performance
+    - Add index for summing a room's usage per participant
+*/
+
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id uuid NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  provider varchar(50) NOT NULL,
+  model varchar(100) NOT NULL,
+  input_tokens integer NOT NULL DEFAULT 0,
+  output_tokens integer NOT NULL DEFAULT 0,
+  cost_usd numeric(12, 6) NOT NULL DEFAULT 0,
+  source varchar(20) NOT NULL DEFAULT 'host',
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT ai_usage_source_check CHECK (source IN ('host', 'proxy'))
+);
+
+-- Enable RLS
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on ai_usage"
+  ON ai_usage
+  FOR ALL
+  USING (true);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_ai_usage_room_user ON ai_usage(room_id, user_id);
+
+COMMENT ON TABLE ai_usage IS 'Token usage and estimated cost of each AI request, billed to the participant who asked';
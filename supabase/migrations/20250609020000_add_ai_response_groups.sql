@@ -0,0 +1,16 @@
+/*
+  # Link Compare-Mode AI Response Cards
+
+  1. Changes
+    - `ai_responses`
+      - Add `group_id` (uuid, shared by the cards answering one prompt in compare mode)
+      - Add `latency_ms` (integer, time from sending the prompt to the finished answer)
+
+  2. Performance
+    - Add index for loading the cards of a compare group
+*/
+
+ALTER TABLE ai_responses ADD COLUMN IF NOT EXISTS group_id uuid;
+ALTER TABLE ai_responses ADD COLUMN IF NOT EXISTS latency_ms integer;
+
+CREATE INDEX IF NOT EXISTS idx_ai_responses_group ON ai_responses(group_id) WHERE group_id IS NOT NULL;
@@ -0,0 +1,62 @@
+/*
+  # Follow-up Threads on AI Response Cards
+
+  1. New Tables
+    - `ai_response_replies`
+      - `id` (uuid, primary key, generated by the requesting client)
+      - `response_id` (uuid, foreign key to ai_responses, the card the thread belongs to)
+      - `room_id` (uuid, foreign key to rooms)
+      - `from_user_id` (uuid, participant who asked the follow-up)
+      - `prompt` (text, the follow-up question)
+      - `content` (text, the AI answer)
+      - `provider` (varchar, e.g., 'openai', 'anthropic', 'google', 'mock')
+      - `status` (varchar, 'streaming', 'done', 'error' or 'cancelled')
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Security
+    - Enable RLS on ai_response_replies table
+    - Add open policy for hackathon use
+
+  3. Realtime
+    - Add table to the supabase_realtime publication so threads sync
+
+  4. Performance
+    - Add indexes for loading a room's threads in order
+*/
+
+CREATE TABLE IF NOT EXISTS ai_response_replies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  response_id uuid NOT NULL REFERENCES ai_responses(id) ON DELETE CASCADE,
+  room_id uuid NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  from_user_id uuid NOT NULL,
+  prompt text NOT NULL,
+  content text NOT NULL DEFAULT '',
+  provider varchar(50),
+  status varchar(20) NOT NULL DEFAULT 'done',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT ai_response_replies_status_check CHECK (status IN ('streaming', 'done', 'error', 'cancelled'))
+);
+
+-- Enable RLS
+ALTER TABLE ai_response_replies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on ai_response_replies"
+  ON ai_response_replies
+  FOR ALL
+  USING (true);
+
+-- Keep updated_at current on every change
+CREATE TRIGGER update_ai_response_replies_updated_at
+  BEFORE UPDATE ON ai_response_replies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_ai_responses_updated_at();
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_ai_response_replies_room_time ON ai_response_replies(room_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_response_replies_response ON ai_response_replies(response_id);
+
+-- Broadcast row changes to subscribed clients
+ALTER PUBLICATION supabase_realtime ADD TABLE ai_response_replies;
+
+COMMENT ON TABLE ai_response_replies IS 'Follow-up questions and answers threaded under an AI response card';
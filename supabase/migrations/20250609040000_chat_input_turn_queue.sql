@@ -0,0 +1,98 @@
+/*
+  # Turn-taking Queue for the Chat Input
+
+  1. Changes
+    - `chat_input_state` now holds one row per participant waiting for the input, ordered by `raised_at`
+      - the first row in a room holds the input; everyone after it is waiting in line
+      - `raised_at` (timestamptz, when the participant raised their hand; the host moves people up by rewriting it)
+    - Replace UNIQUE(room_id), which only allowed a single lock holder, with UNIQUE(room_id, user_id)
+
+  2. Security
+    - Keep reads open to authenticated users
+    - Participants may add, update and remove only their own row
+    - The room host may also reorder and remove other participants' rows
+
+  3. Realtime
+    - Add table to the supabase_realtime publication so queue positions sync
+
+  4. Performance
+    - Add an index for reading a room's queue in order
+*/
+
+ALTER TABLE chat_input_state DROP CONSTRAINT IF EXISTS chat_input_state_room_id_key;
+
+ALTER TABLE chat_input_state
+  ADD COLUMN IF NOT EXISTS raised_at timestamptz NOT NULL DEFAULT now();
+
+ALTER TABLE chat_input_state
+  ADD CONSTRAINT chat_input_state_room_user_key UNIQUE (room_id, user_id);
+
+DROP POLICY IF EXISTS "Allow read access to all participants" ON chat_input_state;
+DROP POLICY IF EXISTS "Allow update access to room participants" ON chat_input_state;
+DROP POLICY IF EXISTS "Allow insert access to room participants" ON chat_input_state;
+
+CREATE POLICY "Allow read access to all participants"
+  ON chat_input_state
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Raise your own hand while you're in the room
+CREATE POLICY "Allow participants to join the queue"
+  ON chat_input_state
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM participants
+      WHERE participants.room_id = chat_input_state.room_id
+      AND participants.user_id = auth.uid()
+      AND participants.is_online = true
+    )
+  );
+
+-- Update your own row; the host may also move others up the queue
+CREATE POLICY "Allow participants and the host to update the queue"
+  ON chat_input_state
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM participants
+      WHERE participants.room_id = chat_input_state.room_id
+      AND participants.user_id = auth.uid()
+      AND (chat_input_state.user_id = auth.uid() OR participants.is_host = true)
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM participants
+      WHERE participants.room_id = chat_input_state.room_id
+      AND participants.user_id = auth.uid()
+      AND (chat_input_state.user_id = auth.uid() OR participants.is_host = true)
+    )
+  );
+
+-- Lower your own hand; the host may also remove others
+CREATE POLICY "Allow participants and the host to leave the queue"
+  ON chat_input_state
+  FOR DELETE
+  TO authenticated
+  USING (
+    user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM participants
+      WHERE participants.room_id = chat_input_state.room_id
+      AND participants.user_id = auth.uid()
+      AND participants.is_host = true
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_chat_input_state_room_raised ON chat_input_state(room_id, raised_at);
+
+-- Broadcast row changes to subscribed clients
+ALTER PUBLICATION supabase_realtime ADD TABLE chat_input_state;
+
+COMMENT ON TABLE chat_input_state IS 'Participants waiting for the chat input in raise-hand order; the earliest row holds the input';
+COMMENT ON COLUMN chat_input_state.raised_at IS 'When the participant joined the queue; sets their place in line';
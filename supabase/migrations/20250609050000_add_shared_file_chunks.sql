@@ -0,0 +1,110 @@
+/*
+  # Searchable Text of Shared Files for AI Answers
+
+  1. Changes
+    - `shared_files`
+      - Add `text_index_status` (varchar, 'indexed', 'unsupported' or 'failed'; null until the file-context function reads it)
+      - Add `text_indexed_at` (timestamp)
+    - `ai_responses`, `ai_response_replies`
+      - Add `citations` (jsonb, the room files an answer cites, numbered as in its [n] markers)
+
+  2. New Tables
+    - `shared_file_chunks`
+      - `id` (uuid, primary key)
+      - `file_id` (uuid, foreign key to shared_files)
+      - `room_id` (uuid, foreign key to rooms)
+      - `chunk_index` (integer, position within the file)
+      - `content` (text, extracted passage)
+      - `start_line`, `end_line` (integer, 1-based line range for text files)
+      - `page` (integer, 1-based page for PDFs)
+      - `heading` (text, nearest markdown heading above the passage)
+      - `search` (tsvector, generated from heading and content)
+      - `created_at` (timestamp)
+
+  3. Functions
+    - `search_shared_file_chunks` ranks a room's passages against a question, matching any of its words
+
+  4. Security
+    - Enable RLS on shared_file_chunks table
+    - Add open policy for hackathon use
+
+  5. Performance
+    - Add a GIN index for full-text search and an index for reading a file's passages in order
+*/
+
+ALTER TABLE shared_files ADD COLUMN IF NOT EXISTS text_index_status varchar(20);
+ALTER TABLE shared_files ADD COLUMN IF NOT EXISTS text_indexed_at timestamptz;
+
+ALTER TABLE ai_responses ADD COLUMN IF NOT EXISTS citations jsonb;
+ALTER TABLE ai_response_replies ADD COLUMN IF NOT EXISTS citations jsonb;
+
+CREATE TABLE IF NOT EXISTS shared_file_chunks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_id uuid NOT NULL REFERENCES shared_files(id) ON DELETE CASCADE,
+  room_id uuid NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  chunk_index integer NOT NULL,
+  content text NOT NULL,
+  start_line integer,
+  end_line integer,
+  page integer,
+  heading text,
+  search tsvector GENERATED ALWAYS AS (
+    to_tsvector('english', coalesce(heading, '') || ' ' || content)
+  ) STORED,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT shared_file_chunks_file_chunk_key UNIQUE (file_id, chunk_index)
+);
+
+-- Enable RLS
+ALTER TABLE shared_file_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on shared_file_chunks"
+  ON shared_file_chunks
+  FOR ALL
+  USING (true);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_shared_file_chunks_search ON shared_file_chunks USING gin(search);
+CREATE INDEX IF NOT EXISTS idx_shared_file_chunks_room ON shared_file_chunks(room_id);
+
+-- Questions are OR-ed lexeme by lexeme, since a passage rarely contains every word of one
+CREATE OR REPLACE FUNCTION search_shared_file_chunks(
+  p_room_id uuid,
+  p_query text,
+  p_file_ids uuid[] DEFAULT NULL,
+  p_limit integer DEFAULT 6
+)
+RETURNS TABLE (
+  file_id uuid,
+  chunk_index integer,
+  content text,
+  start_line integer,
+  end_line integer,
+  page integer,
+  heading text,
+  rank real
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH terms AS (
+    SELECT string_agg(quote_literal(lexeme), ' | ') AS expression
+    FROM unnest(to_tsvector('english', p_query))
+  ),
+  query AS (
+    SELECT expression::tsquery AS tsquery
+    FROM terms
+    WHERE expression IS NOT NULL
+  )
+  SELECT c.file_id, c.chunk_index, c.content, c.start_line, c.end_line, c.page, c.heading,
+         ts_rank_cd(c.search, query.tsquery) AS rank
+  FROM shared_file_chunks c, query
+  WHERE c.room_id = p_room_id
+    AND (p_file_ids IS NULL OR c.file_id = ANY(p_file_ids))
+    AND c.search @@ query.tsquery
+  ORDER BY rank DESC, c.file_id, c.chunk_index
+  LIMIT p_limit;
+$$;
+
+COMMENT ON TABLE shared_file_chunks IS 'Text extracted from shared files in passages, searched to ground AI answers';
+COMMENT ON COLUMN ai_responses.citations IS 'Room files cited by the answer: [{ index, fileId, filename, downloadUrl, startLine, endLine, page, heading }]';
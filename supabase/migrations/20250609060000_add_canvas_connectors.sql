@@ -0,0 +1,49 @@
+/*
+  # Connectors Between Cards on the Canvas
+
+  1. New Tables
+    - `canvas_connectors`
+      - `id` (uuid, primary key, generated by the creating client)
+      - `room_id` (uuid, foreign key to rooms)
+      - `from_card_id`, `to_card_id` (uuid, foreign keys to ai_responses; the arrow points at to_card_id)
+      - `label` (text, optional caption drawn at the middle of the line)
+      - `created_by` (uuid, participant who drew it, or who asked the AI to)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on canvas_connectors table
+    - Add open policy for hackathon use
+
+  3. Realtime
+    - Add table to the supabase_realtime publication so connectors sync
+
+  4. Performance
+    - Add index for loading a room's connectors
+*/
+
+CREATE TABLE IF NOT EXISTS canvas_connectors (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id uuid NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  from_card_id uuid NOT NULL REFERENCES ai_responses(id) ON DELETE CASCADE,
+  to_card_id uuid NOT NULL REFERENCES ai_responses(id) ON DELETE CASCADE,
+  label text,
+  created_by uuid NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT canvas_connectors_distinct_ends CHECK (from_card_id <> to_card_id)
+);
+
+-- Enable RLS
+ALTER TABLE canvas_connectors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on canvas_connectors"
+  ON canvas_connectors
+  FOR ALL
+  USING (true);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_canvas_connectors_room ON canvas_connectors(room_id);
+
+-- Broadcast row changes to subscribed clients
+ALTER PUBLICATION supabase_realtime ADD TABLE canvas_connectors;
+
+COMMENT ON TABLE canvas_connectors IS 'Arrows linking two cards on the canvas';
@@ -0,0 +1,77 @@
+/*
+  # Persisted Canvas Objects
+
+  1. New Tables
+    - `canvas_objects`
+      - `id` (uuid, primary key, generated by the creating client)
+      - `room_id` (uuid, foreign key to rooms)
+      - `type` (varchar, 'sticky_note', 'text', 'shape', 'image' or 'frame')
+      - `content` (text, note or text body, shape label, frame title, image alt text)
+      - `props` (jsonb, type-specific fields, e.g. the shape kind or the image URL)
+      - `style` (jsonb, fill, stroke and text styling)
+      - `position_x`, `position_y` (double precision, canvas coordinates)
+      - `width`, `height` (double precision, object size)
+      - `rotation` (double precision, degrees)
+      - `z_index` (integer, stacking order)
+      - `owner_id` (uuid, participant who created the object)
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Security
+    - Enable RLS on canvas_objects table
+    - Add open policy for hackathon use
+
+  3. Realtime
+    - Add table to the supabase_realtime publication so edits sync
+
+  4. Performance
+    - Add index for loading a room's objects in stacking order
+*/
+
+CREATE TABLE IF NOT EXISTS canvas_objects (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id uuid NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  type varchar(20) NOT NULL,
+  content text NOT NULL DEFAULT '',
+  props jsonb NOT NULL DEFAULT '{}'::jsonb,
+  style jsonb NOT NULL DEFAULT '{}'::jsonb,
+  position_x double precision NOT NULL DEFAULT 0,
+  position_y double precision NOT NULL DEFAULT 0,
+  width double precision NOT NULL DEFAULT 200,
+  height double precision NOT NULL DEFAULT 200,
+  rotation double precision NOT NULL DEFAULT 0,
+  z_index integer NOT NULL DEFAULT 1,
+  owner_id uuid NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT canvas_objects_type_check CHECK (type IN ('sticky_note', 'text', 'shape', 'image', 'frame'))
+);
+
+-- Enable RLS
+ALTER TABLE canvas_objects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on canvas_objects"
+  ON canvas_objects
+  FOR ALL
+  USING (true);
+
+-- Keep updated_at current on every change
+CREATE OR REPLACE FUNCTION update_canvas_objects_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_canvas_objects_updated_at
+  BEFORE UPDATE ON canvas_objects
+  FOR EACH ROW
+  EXECUTE FUNCTION update_canvas_objects_updated_at();
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_canvas_objects_room_z ON canvas_objects(room_id, z_index);
+
+-- Broadcast row changes to subscribed clients
+ALTER PUBLICATION supabase_realtime ADD TABLE canvas_objects;
+
+COMMENT ON TABLE canvas_objects IS 'Sticky notes, text, shapes, images and frames on a room whiteboard';
@@ -0,0 +1,14 @@
+/*
+  # Mergeable State for Canvas Objects
+
+  1. Changes
+    - `canvas_objects`
+      - Add `crdt_state` (jsonb, every field's last-writer-wins register and every text's character
+        sequence, with their Lamport stamps; null for objects saved before it existed)
+
+  Clients merge this with their own state instead of overwriting it, so edits that never reached a
+  peer over the WebRTC data channels still arrive through the row. The other columns stay a plain
+  copy of the merged object.
+*/
+
+ALTER TABLE canvas_objects ADD COLUMN IF NOT EXISTS crdt_state jsonb;
@@ -0,0 +1,18 @@
+/*
+  # Freehand Strokes on the Whiteboard
+
+  1. Changes
+    - `canvas_objects`
+      - Allow `type` 'stroke': a pen or highlighter line, with `props` holding the tool and its
+        points as [x, y, pressure] relative to the object's corner
+
+  Strokes still being drawn only travel over the WebRTC data channels; a row is written once the
+  stroke is finished.
+*/
+
+ALTER TABLE canvas_objects DROP CONSTRAINT IF EXISTS canvas_objects_type_check;
+ALTER TABLE canvas_objects
+  ADD CONSTRAINT canvas_objects_type_check
+  CHECK (type IN ('sticky_note', 'text', 'shape', 'image', 'frame', 'stroke'));
+
+COMMENT ON TABLE canvas_objects IS 'Sticky notes, text, shapes, images, frames and freehand strokes on a room whiteboard';
@@ -0,0 +1,49 @@
+/*
+  # Routed Connectors Between Any Board Items
+
+  1. Changes
+    - `canvas_connectors`
+      - `from_card_id`, `to_card_id` may now name a canvas object as well as an AI card, so their
+        foreign keys to ai_responses are dropped; a connector whose end is gone is simply not drawn
+      - Add `from_anchor`, `to_anchor` (varchar, 'auto', 'top', 'right', 'bottom' or 'left')
+      - Add `routing` (varchar, 'straight', 'elbow' or 'curved')
+      - Add `start_arrow`, `end_arrow` (varchar, 'none', 'arrow' or 'triangle')
+      - Add `updated_at` (timestamp), kept current by a trigger
+
+  Existing connectors keep their look: straight, auto-anchored, with an arrow at the end.
+*/
+
+ALTER TABLE canvas_connectors DROP CONSTRAINT IF EXISTS canvas_connectors_from_card_id_fkey;
+ALTER TABLE canvas_connectors DROP CONSTRAINT IF EXISTS canvas_connectors_to_card_id_fkey;
+
+ALTER TABLE canvas_connectors
+  ADD COLUMN IF NOT EXISTS from_anchor varchar(10) NOT NULL DEFAULT 'auto',
+  ADD COLUMN IF NOT EXISTS to_anchor varchar(10) NOT NULL DEFAULT 'auto',
+  ADD COLUMN IF NOT EXISTS routing varchar(10) NOT NULL DEFAULT 'straight',
+  ADD COLUMN IF NOT EXISTS start_arrow varchar(10) NOT NULL DEFAULT 'none',
+  ADD COLUMN IF NOT EXISTS end_arrow varchar(10) NOT NULL DEFAULT 'arrow',
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+ALTER TABLE canvas_connectors
+  ADD CONSTRAINT canvas_connectors_anchor_check
+    CHECK (from_anchor IN ('auto', 'top', 'right', 'bottom', 'left') AND to_anchor IN ('auto', 'top', 'right', 'bottom', 'left')),
+  ADD CONSTRAINT canvas_connectors_routing_check
+    CHECK (routing IN ('straight', 'elbow', 'curved')),
+  ADD CONSTRAINT canvas_connectors_arrow_check
+    CHECK (start_arrow IN ('none', 'arrow', 'triangle') AND end_arrow IN ('none', 'arrow', 'triangle'));
+
+-- Keep updated_at current on every change
+CREATE OR REPLACE FUNCTION update_canvas_connectors_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_canvas_connectors_updated_at
+  BEFORE UPDATE ON canvas_connectors
+  FOR EACH ROW
+  EXECUTE FUNCTION update_canvas_connectors_updated_at();
+
+COMMENT ON TABLE canvas_connectors IS 'Routed arrows linking two items on the canvas, AI cards or canvas objects';
@@ -0,0 +1,17 @@
+/*
+  # Group Whiteboard Objects
+
+  1. Changes
+    - `canvas_objects`
+      - Add `group_id` (uuid, shared by objects grouped together; AI cards grouped with them carry
+        the same id in `ai_responses.group_id`)
+
+  2. Performance
+    - Add index for loading the members of a group
+
+  The merged `crdt_state` stays the source of truth; `group_id` mirrors it like the other columns.
+*/
+
+ALTER TABLE canvas_objects ADD COLUMN IF NOT EXISTS group_id uuid;
+
+CREATE INDEX IF NOT EXISTS idx_canvas_objects_group ON canvas_objects(group_id) WHERE group_id IS NOT NULL;